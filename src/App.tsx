@@ -2,21 +2,28 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from "react-router-dom";
 import { AuthProvider, useAuth } from "./contexts/AuthContext";
 import { ThemeProvider } from "./contexts/ThemeContext";
 import Layout from "./components/Layout";
 import { queryClient } from "./lib/queryClient";
+import { dashboardPath, Permission } from "./lib/permissions";
+import { usePermissions } from "./hooks/usePermission";
 
 // Pages
 import Login from "./pages/Login";
 import Register from "./pages/Register";
+import SSOCallback from "./pages/SSOCallback";
+import AccountSecurity from "./pages/AccountSecurity";
 import StudentDashboard from "./pages/StudentDashboard";
 import TeacherDashboard from "./pages/TeacherDashboard";
+import TADashboard from "./pages/TADashboard";
+import GuardianDashboard from "./pages/GuardianDashboard";
 import AdminPanel from "./pages/AdminPanel";
 import AdminUsers from "./pages/AdminUsers";
 import AdminAnalytics from "./pages/AdminAnalytics";
 import AdminSettings from "./pages/AdminSettings";
+import AdminRoles from "./pages/AdminRoles";
 import AIModelConfig from "./pages/AIModelConfig";
 import AIStudyTools from "./pages/AIStudyTools";
 import FileUpload from "./pages/FileUpload";
@@ -52,12 +59,20 @@ import LessonPlanEditor from "./pages/LessonPlanEditor";
 import ChapterResources from "./pages/ChapterResources";
 import ResourceLibrary from "./pages/ResourceLibrary";
 import ExamSubmissions from "./pages/ExamSubmissions";
+import ExamGrading from "./pages/ExamGrading";
+import ItemAnalysis from "./pages/ItemAnalysis";
 import TeacherExams from "./pages/TeacherExams";
 import NotFound from "./pages/NotFound";
 
 // Protected Route Component
-const ProtectedRoute = ({ children, requiredRole }: { children: React.ReactNode; requiredRole?: string }) => {
-  const { user, isLoading } = useAuth();
+const ProtectedRoute = ({ children, requiredRole, permission }: {
+  children: React.ReactNode;
+  requiredRole?: string;
+  permission?: Permission;
+}) => {
+  const { user, isLoading, impersonation } = useAuth();
+  const { can } = usePermissions();
+  const location = useLocation();
   
   if (isLoading) {
     return (
@@ -73,19 +88,16 @@ const ProtectedRoute = ({ children, requiredRole }: { children: React.ReactNode;
   if (!user) {
     return <Navigate to="/login" replace />;
   }
+
+  // Roles that require two-factor authentication must enrol before anything else
+  // (not enforced on an impersonating admin, who can't enrol on the user's behalf)
+  if (user.mfaRequired && !user.mfaEnabled && !impersonation && location.pathname !== "/account/security") {
+    return <Navigate to="/account/security" replace />;
+  }
   
-  if (requiredRole && user.role !== requiredRole) {
-    // Redirect to appropriate dashboard based on role
-    switch (user.role) {
-      case 'student':
-        return <Navigate to="/student" replace />;
-      case 'teacher':
-        return <Navigate to="/teacher" replace />;
-      case 'admin':
-        return <Navigate to="/admin" replace />;
-      default:
-        return <Navigate to="/login" replace />;
-    }
+  // Redirect to the user's own dashboard when they can't open this page
+  if ((requiredRole && user.role !== requiredRole) || (permission && !can(permission))) {
+    return <Navigate to={dashboardPath(user.role)} replace />;
   }
   
   return <>{children}</>;
@@ -99,16 +111,7 @@ const DashboardRedirect = () => {
     return <Navigate to="/login" replace />;
   }
   
-  switch (user.role) {
-    case 'student':
-      return <Navigate to="/student" replace />;
-    case 'teacher':
-      return <Navigate to="/teacher" replace />;
-    case 'admin':
-      return <Navigate to="/admin" replace />;
-    default:
-      return <Navigate to="/login" replace />;
-  }
+  return <Navigate to={dashboardPath(user.role)} replace />;
 };
 
 const AppRoutes = () => (
@@ -116,6 +119,7 @@ const AppRoutes = () => (
     {/* Public Routes */}
     <Route path="/login" element={<Login />} />
     <Route path="/register" element={<Register />} />
+    <Route path="/auth/callback" element={<SSOCallback />} />
 
     {/* Dashboard Redirect */}
     <Route path="/" element={<DashboardRedirect />} />
@@ -133,6 +137,18 @@ const AppRoutes = () => (
       </ProtectedRoute>
     } />
     
+    <Route path="/guardian" element={
+      <ProtectedRoute requiredRole="guardian">
+        <GuardianDashboard />
+      </ProtectedRoute>
+    } />
+    
+    <Route path="/ta" element={
+      <ProtectedRoute requiredRole="ta">
+        <TADashboard />
+      </ProtectedRoute>
+    } />
+    
     <Route path="/admin" element={
       <ProtectedRoute requiredRole="admin">
         <AdminPanel />
@@ -141,7 +157,7 @@ const AppRoutes = () => (
     
     {/* Shared Routes (accessible by multiple roles) */}
     <Route path="/ai-tools" element={
-      <ProtectedRoute>
+      <ProtectedRoute permission="ai.chat">
         <AIStudyTools />
       </ProtectedRoute>
     } />
@@ -177,13 +193,13 @@ const AppRoutes = () => (
     } />
 
     <Route path="/upload-resource" element={
-      <ProtectedRoute>
+      <ProtectedRoute permission="content.create">
         <UploadResource />
       </ProtectedRoute>
     } />
 
     <Route path="/quiz/:chapterId" element={
-      <ProtectedRoute requiredRole="student">
+      <ProtectedRoute permission="learning.study">
         <QuizTaking />
       </ProtectedRoute>
     } />
@@ -201,62 +217,80 @@ const AppRoutes = () => (
     } />
 
     <Route path="/teacher/analytics" element={
-      <ProtectedRoute requiredRole="teacher">
+      <ProtectedRoute permission="analytics.view">
         <TeacherAnalytics />
       </ProtectedRoute>
     } />
 
     <Route path="/teacher/lesson-planner" element={
-      <ProtectedRoute requiredRole="teacher">
+      <ProtectedRoute permission="lessons.plan">
         <LessonPlanner />
       </ProtectedRoute>
     } />
 
     <Route path="/teacher/my-lessons" element={
-      <ProtectedRoute requiredRole="teacher">
+      <ProtectedRoute permission="lessons.plan">
         <MyLessons />
       </ProtectedRoute>
     } />
 
     <Route path="/teacher/lesson-planner/edit/:id" element={
-      <ProtectedRoute requiredRole="teacher">
+      <ProtectedRoute permission="lessons.plan">
         <LessonPlanEditor />
       </ProtectedRoute>
     } />
 
     <Route path="/exams" element={
-      <ProtectedRoute requiredRole="student">
+      <ProtectedRoute permission="assessments.take">
         <ExamList />
       </ProtectedRoute>
     } />
 
     <Route path="/exam/:examId" element={
-      <ProtectedRoute requiredRole="student">
+      <ProtectedRoute permission="assessments.take">
         <ExamTaking />
       </ProtectedRoute>
     } />
 
     <Route path="/exam-results/:attemptId" element={
-      <ProtectedRoute requiredRole="student">
+      <ProtectedRoute permission="assessments.take">
         <ExamResults />
       </ProtectedRoute>
     } />
 
     <Route path="/exam-submissions/:examId" element={
-      <ProtectedRoute requiredRole="teacher">
+      <ProtectedRoute permission="submissions.view">
         <ExamSubmissions />
       </ProtectedRoute>
     } />
 
+    <Route path="/exam-submissions/:examId/grading" element={
+      <ProtectedRoute permission="submissions.grade">
+        <ExamGrading />
+      </ProtectedRoute>
+    } />
+
     <Route path="/teacher/exams" element={
-      <ProtectedRoute requiredRole="teacher">
+      <ProtectedRoute permission="assessments.manage">
         <TeacherExams />
       </ProtectedRoute>
     } />
 
+    <Route path="/teacher/item-analysis/:kind/:assessmentId" element={
+      <ProtectedRoute permission="assessments.manage">
+        <ItemAnalysis />
+      </ProtectedRoute>
+    } />
+
+    <Route path="/account/security" element={
+      <ProtectedRoute>
+        <AccountSecurity />
+      </ProtectedRoute>
+    } />
+
     {/* AI Chat */}
     <Route path="/ai-chat" element={
-      <ProtectedRoute>
+      <ProtectedRoute permission="ai.chat">
         <AIChat />
       </ProtectedRoute>
     } />
@@ -269,125 +303,131 @@ const AppRoutes = () => (
     } />
 
     <Route path="/assignment/:id" element={
-      <ProtectedRoute requiredRole="student">
+      <ProtectedRoute permission="assignments.submit">
         <AssignmentDetail />
       </ProtectedRoute>
     } />
 
     <Route path="/teacher/assignment/:id" element={
-      <ProtectedRoute requiredRole="teacher">
+      <ProtectedRoute permission="assignments.manage">
         <AssignmentDetail />
       </ProtectedRoute>
     } />
 
     <Route path="/teacher/create-assignment" element={
-      <ProtectedRoute requiredRole="teacher">
+      <ProtectedRoute permission="assignments.manage">
         <CreateAssignment />
       </ProtectedRoute>
     } />
 
     <Route path="/teacher/assignment/:assignmentId/submissions" element={
-      <ProtectedRoute requiredRole="teacher">
+      <ProtectedRoute permission="submissions.view">
         <ViewSubmissions />
       </ProtectedRoute>
     } />
 
     <Route path="/assignment/:assignmentId/lab-report" element={
-      <ProtectedRoute requiredRole="student">
+      <ProtectedRoute permission="assignments.submit">
         <LabReportEditor />
       </ProtectedRoute>
     } />
 
     <Route path="/teacher/lab-report/:labReportId" element={
-      <ProtectedRoute requiredRole="teacher">
+      <ProtectedRoute permission="submissions.view">
         <LabReportEditor />
       </ProtectedRoute>
     } />
 
     <Route path="/teacher/submission/:submissionId/grade" element={
-      <ProtectedRoute requiredRole="teacher">
+      <ProtectedRoute permission="submissions.grade">
         <GradeSubmission />
       </ProtectedRoute>
     } />
 
     {/* Unified Content Creator */}
     <Route path="/teacher/content-creator" element={
-      <ProtectedRoute requiredRole="teacher">
+      <ProtectedRoute permission="content.create">
         <ContentCreator />
       </ProtectedRoute>
     } />
 
     <Route path="/teacher/question-generator" element={
-      <ProtectedRoute requiredRole="teacher">
+      <ProtectedRoute permission="content.create">
         <QuestionGenerator />
       </ProtectedRoute>
     } />
 
     <Route path="/teacher/questions/:chapterId" element={
-      <ProtectedRoute requiredRole="teacher">
+      <ProtectedRoute permission="content.create">
         <ViewChapterQuestions />
       </ProtectedRoute>
     } />
 
     <Route path="/teacher/create-quiz" element={
-      <ProtectedRoute requiredRole="teacher">
+      <ProtectedRoute permission="content.create">
         <CreateQuiz />
       </ProtectedRoute>
     } />
 
     <Route path="/teacher/create-exam" element={
-      <ProtectedRoute requiredRole="teacher">
+      <ProtectedRoute permission="assessments.manage">
         <CreateExam />
       </ProtectedRoute>
     } />
 
     {/* Student routes */}
     <Route path="/student/progress" element={
-      <ProtectedRoute requiredRole="student">
+      <ProtectedRoute permission="learning.study">
         <StudentProgress />
       </ProtectedRoute>
     } />
 
     <Route path="/student/flashcards/:chapterId" element={
-      <ProtectedRoute requiredRole="student">
+      <ProtectedRoute permission="learning.study">
         <FlashcardStudy />
       </ProtectedRoute>
     } />
 
     <Route path="/student/feedback" element={
-      <ProtectedRoute requiredRole="student">
+      <ProtectedRoute permission="learning.study">
         <StudentFeedback />
       </ProtectedRoute>
     } />
 
     {/* Teacher flashcard manager */}
     <Route path="/teacher/flashcards" element={
-      <ProtectedRoute requiredRole="teacher">
+      <ProtectedRoute permission="content.create">
         <FlashcardManager />
       </ProtectedRoute>
     } />
 
     {/* Admin-only routes */}
     <Route path="/admin/users" element={
-      <ProtectedRoute requiredRole="admin">
+      <ProtectedRoute permission="users.manage">
         <AdminUsers />
       </ProtectedRoute>
     } />
     
     <Route path="/admin/analytics" element={
-      <ProtectedRoute requiredRole="admin">
+      <ProtectedRoute permission="analytics.view_all">
         <AdminAnalytics />
       </ProtectedRoute>
     } />
     
     <Route path="/admin/settings" element={
-      <ProtectedRoute requiredRole="admin">
+      <ProtectedRoute permission="settings.manage">
         <AdminSettings />
       </ProtectedRoute>
     } />
 
+    <Route path="/admin/roles" element={
+      <ProtectedRoute permission="roles.manage">
+        <AdminRoles />
+      </ProtectedRoute>
+    } />
+    
     <Route path="/admin/ai-models" element={
-      <ProtectedRoute requiredRole="admin">
+      <ProtectedRoute permission="ai_models.manage">
         <AIModelConfig />
       </ProtectedRoute>
     } />
@@ -8,6 +8,7 @@ import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import api from '@/services/api';
 import { toast } from 'sonner';
+import { RichContent } from '@/components/RichContent';
 
 interface Message {
   role: 'user' | 'assistant';
@@ -161,7 +162,7 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ chapterId, chapterName }) =>
 
         <div className={`flex-1 ${isUser ? 'items-end' : 'items-start'} flex flex-col max-w-[80%]`}>
           <div className={`rounded-lg p-4 ${isUser ? 'bg-blue-50 dark:bg-blue-900/20' : 'bg-gray-50 dark:bg-gray-800'}`}>
-            <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+            <RichContent content={message.content} className="text-sm" />
 
             {/* Show confidence badge for AI responses */}
             {!isUser && message.confidence !== undefined && (
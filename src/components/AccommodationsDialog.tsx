@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  useAccommodationProfile,
+  useRemoveAccommodationProfile,
+  useSaveAccommodationProfile,
+} from '@/hooks/useAccommodations';
+import { getErrorDetail } from '@/utils/errorUtils';
+
+const TIME_MULTIPLIERS = ['1', '1.25', '1.5', '2'];
+
+interface AccommodationsDialogProps {
+  studentId: number;
+  studentName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Lets an admin or teacher record a student's accommodations for timed assessments
+ */
+export function AccommodationsDialog({ studentId, studentName, open, onOpenChange }: AccommodationsDialogProps) {
+  const { t } = useTranslation();
+  const { data: profile, isLoading } = useAccommodationProfile(open ? studentId : null);
+  const saveProfile = useSaveAccommodationProfile(studentId);
+  const removeProfile = useRemoveAccommodationProfile(studentId);
+
+  const [timeMultiplier, setTimeMultiplier] = useState('1');
+  const [waiveStrictMode, setWaiveStrictMode] = useState(false);
+  const [allowPause, setAllowPause] = useState(false);
+  const [pauseBudget, setPauseBudget] = useState('');
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    if (!open || isLoading) return;
+    setTimeMultiplier(String(profile?.time_multiplier ?? 1));
+    setWaiveStrictMode(profile?.waive_strict_mode ?? false);
+    setAllowPause(profile?.allow_pause ?? false);
+    setPauseBudget(profile?.pause_budget_minutes ? String(profile.pause_budget_minutes) : '');
+    setNotes(profile?.notes ?? '');
+  }, [open, isLoading, profile]);
+
+  const handleSave = () => {
+    const budget = parseInt(pauseBudget, 10);
+    saveProfile.mutate(
+      {
+        time_multiplier: Number(timeMultiplier),
+        waive_strict_mode: waiveStrictMode,
+        allow_pause: allowPause,
+        pause_budget_minutes: allowPause && budget > 0 ? budget : null,
+        notes: notes.trim() || null,
+      },
+      {
+        onSuccess: () => {
+          toast.success(t('accommodations.saved'));
+          onOpenChange(false);
+        },
+        onError: (error) => toast.error(getErrorDetail(error, t('accommodations.saveFailed'))),
+      }
+    );
+  };
+
+  const handleRemove = () => {
+    removeProfile.mutate(undefined, {
+      onSuccess: () => {
+        toast.success(t('accommodations.removed'));
+        onOpenChange(false);
+      },
+      onError: (error) => toast.error(getErrorDetail(error, t('accommodations.removeFailed'))),
+    });
+  };
+
+  const busy = saveProfile.isPending || removeProfile.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('accommodations.title', { name: studentName })}</DialogTitle>
+          <DialogDescription>{t('accommodations.description')}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>{t('accommodations.extraTime')}</Label>
+              <Select value={timeMultiplier} onValueChange={setTimeMultiplier}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIME_MULTIPLIERS.map(multiplier => (
+                    <SelectItem key={multiplier} value={multiplier}>
+                      {multiplier === '1'
+                        ? t('accommodations.noExtraTime')
+                        : t('accommodations.timeMultiplier', { multiplier })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between space-x-2">
+              <div className="space-y-0.5">
+                <Label htmlFor="waive_strict_mode" className="cursor-pointer">
+                  {t('accommodations.waiveStrictMode')}
+                </Label>
+                <p className="text-xs text-muted-foreground">{t('accommodations.waiveStrictModeDescription')}</p>
+              </div>
+              <Switch id="waive_strict_mode" checked={waiveStrictMode} onCheckedChange={setWaiveStrictMode} />
+            </div>
+
+            <div className="flex items-center justify-between space-x-2">
+              <div className="space-y-0.5">
+                <Label htmlFor="allow_pause" className="cursor-pointer">
+                  {t('accommodations.allowPause')}
+                </Label>
+                <p className="text-xs text-muted-foreground">{t('accommodations.allowPauseDescription')}</p>
+              </div>
+              <Switch id="allow_pause" checked={allowPause} onCheckedChange={setAllowPause} />
+            </div>
+
+            {allowPause && (
+              <div className="space-y-2">
+                <Label htmlFor="pause_budget">{t('accommodations.pauseBudget')}</Label>
+                <Input
+                  id="pause_budget"
+                  type="number"
+                  min="1"
+                  value={pauseBudget}
+                  onChange={(e) => setPauseBudget(e.target.value)}
+                  placeholder={t('accommodations.noLimit')}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="accommodation_notes">{t('accommodations.notes')}</Label>
+              <Textarea
+                id="accommodation_notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder={t('accommodations.notesPlaceholder')}
+                rows={2}
+              />
+            </div>
+
+            {profile?.updated_at && (
+              <p className="text-xs text-muted-foreground">
+                {t('accommodations.lastUpdated', {
+                  date: format(new Date(profile.updated_at), 'PPp'),
+                  name: profile.updated_by_name ?? '—',
+                })}
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {profile && (
+            <Button variant="outline" className="mr-auto text-destructive" onClick={handleRemove} disabled={busy}>
+              {removeProfile.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('accommodations.remove')}
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={busy}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSave} disabled={busy || isLoading}>
+            {saveProfile.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('common.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -22,7 +22,10 @@ import {
   MessagesSquare,
   History,
   Library,
-  Shield
+  Shield,
+  KeyRound,
+  KeySquare,
+  type LucideIcon
 } from "lucide-react";
 import { NavLink, useNavigate } from "react-router-dom";
 import {
@@ -39,6 +42,8 @@ import {
   useSidebar,
 } from "@/components/ui/sidebar";
 import { useAuth } from "@/contexts/AuthContext";
+import { usePermissions } from "@/hooks/usePermission";
+import { dashboardPath, Permission } from "@/lib/permissions";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { ThemeToggle } from "./ThemeToggle";
@@ -46,9 +51,21 @@ import LanguageSwitcher from "./LanguageSwitcher";
 import { toast } from "sonner";
 import { useTranslation } from "react-i18next";
 
+interface NavItem {
+  titleKey: string;
+  title?: string;
+  url: string;
+  icon: LucideIcon;
+  permission?: Permission | Permission[]; // Hidden unless the user has it (or any of these)
+}
+
+// Everyone but guardians browses subjects and resources
+const BROWSE_CONTENT: Permission[] = ["learning.study", "content.create", "submissions.view", "users.manage"];
+
 export function AppSidebar() {
   const { t } = useTranslation();
   const { user, logout } = useAuth();
+  const { canAny } = usePermissions();
   const { state } = useSidebar();
   const navigate = useNavigate();
 
@@ -56,56 +73,34 @@ export function AppSidebar() {
 
   if (!user) return null;
 
-  // Define nav items with translation keys
-  const studentNavItems = [
-    { titleKey: "nav.dashboard", url: "/student", icon: Home },
-    { titleKey: "nav.subjects", url: "/subjects", icon: Book },
-    { titleKey: "nav.resourceLibrary", url: "/resources", icon: Library },
-    { titleKey: "nav.aiAssistant", url: "/ai-chat", icon: MessageSquare },
-    { titleKey: "nav.assignments", url: "/assignments", icon: Clipboard },
-    // { titleKey: "nav.labReports", url: "/lab-reports", icon: TestTube },
-    { titleKey: "nav.exams", url: "/exams", icon: FileCheck },
-    { titleKey: "nav.aiStudyTools", url: "/ai-tools", icon: Brain },
-    { titleKey: "nav.myFeedback", url: "/student/feedback", icon: MessagesSquare },
-  ];
-
-  const teacherNavItems = [
-    { titleKey: "nav.dashboard", url: "/teacher", icon: Home },
-    { titleKey: "nav.subjects", url: "/subjects", icon: Book },
-    { titleKey: "nav.resourceLibrary", url: "/resources", icon: Library },
-    { titleKey: "nav.assignments", url: "/assignments", icon: Clipboard },
+  // One list for every role; each user sees the items their permissions allow
+  const allNavItems: NavItem[] = [
+    { titleKey: "nav.dashboard", url: dashboardPath(user.role), icon: Home },
+    { titleKey: "nav.subjects", url: "/subjects", icon: Book, permission: BROWSE_CONTENT },
+    { titleKey: "nav.resourceLibrary", url: "/resources", icon: Library, permission: BROWSE_CONTENT },
+    { titleKey: "nav.aiAssistant", url: "/ai-chat", icon: MessageSquare, permission: "ai.chat" },
+    { titleKey: "nav.assignments", url: "/assignments", icon: Clipboard, permission: ["assignments.submit", "assignments.manage"] },
     // { titleKey: "nav.labReports", url: "/lab-reports", icon: TestTube },
-    { titleKey: "nav.examManagement", url: "/teacher/exams", icon: Shield },
-    { titleKey: "nav.contentCreator", url: "/teacher/content-creator", icon: Layers },
-    { titleKey: "nav.flashcards", url: "/teacher/flashcards", icon: Zap },
-    { titleKey: "nav.uploadResource", url: "/upload-resource", icon: Upload },
-    { titleKey: "nav.analytics", url: "/teacher/analytics", icon: BarChart3 },
-    { titleKey: "nav.aiLessonPlanner", url: "/teacher/lesson-planner", icon: Lightbulb },
-    { titleKey: "nav.myLessons", url: "/teacher/my-lessons", icon: History },
-  ];
-
-  const adminNavItems = [
-    { titleKey: "nav.dashboard", url: "/admin", icon: Home },
-    { titleKey: "nav.subjects", url: "/subjects", icon: Book },
-    { titleKey: "nav.resourceLibrary", url: "/resources", icon: Library },
-    { titleKey: "nav.userManagement", url: "/admin/users", icon: Users },
-    { titleKey: "nav.analytics", url: "/admin/analytics", icon: BarChart3 },
-    { titleKey: "nav.ragTest", url: "/rag-test", icon: Database },
-    { titleKey: "nav.settings", url: "/admin/settings", icon: Settings },
+    { titleKey: "nav.exams", url: "/exams", icon: FileCheck, permission: "assessments.take" },
+    { titleKey: "nav.aiStudyTools", url: "/ai-tools", icon: Brain, permission: "ai.chat" },
+    { titleKey: "nav.myFeedback", url: "/student/feedback", icon: MessagesSquare, permission: "learning.study" },
+    { titleKey: "nav.examManagement", url: "/teacher/exams", icon: Shield, permission: "assessments.manage" },
+    { titleKey: "nav.contentCreator", url: "/teacher/content-creator", icon: Layers, permission: "content.create" },
+    { titleKey: "nav.flashcards", url: "/teacher/flashcards", icon: Zap, permission: "content.create" },
+    { titleKey: "nav.uploadResource", url: "/upload-resource", icon: Upload, permission: "content.create" },
+    { titleKey: "nav.analytics", url: "/teacher/analytics", icon: BarChart3, permission: "analytics.view" },
+    { titleKey: "nav.aiLessonPlanner", url: "/teacher/lesson-planner", icon: Lightbulb, permission: "lessons.plan" },
+    { titleKey: "nav.myLessons", url: "/teacher/my-lessons", icon: History, permission: "lessons.plan" },
+    { titleKey: "nav.userManagement", url: "/admin/users", icon: Users, permission: "users.manage" },
+    { titleKey: "nav.analytics", url: "/admin/analytics", icon: BarChart3, permission: "analytics.view_all" },
+    { titleKey: "nav.ragTest", url: "/rag-test", icon: Database, permission: "ai_models.manage" },
+    { titleKey: "nav.settings", url: "/admin/settings", icon: Settings, permission: "settings.manage" },
+    { titleKey: "nav.roles", url: "/admin/roles", icon: KeySquare, permission: "roles.manage" },
   ];
 
-  const getNavItems = () => {
-    switch (user.role) {
-      case 'student':
-        return studentNavItems;
-      case 'teacher':
-        return teacherNavItems;
-      case 'admin':
-        return adminNavItems;
-      default:
-        return [];
-    }
-  };
+  const navItems = allNavItems.filter(
+    (item) => !item.permission || canAny(Array.isArray(item.permission) ? item.permission : [item.permission])
+  );
 
   const handleLogout = () => {
     logout();
@@ -113,8 +108,6 @@ export function AppSidebar() {
     toast.success(t('auth.logoutSuccess'));
   };
 
-  const navItems = getNavItems();
-
   return (
     <Sidebar className={collapsed ? "w-16" : "w-64"} collapsible="icon">
       <SidebarHeader className="border-b border-sidebar-border p-4">
@@ -125,7 +118,7 @@ export function AppSidebar() {
           {!collapsed && (
             <div>
               <h2 className="text-sm font-semibold">STEMentorat</h2>
-              <p className="text-xs text-muted-foreground capitalize">{user.role}</p>
+              <p className="text-xs text-muted-foreground capitalize">{user.roleName || user.role}</p>
             </div>
           )}
         </div>
@@ -136,8 +129,8 @@ export function AppSidebar() {
           <SidebarGroupLabel>Navigation</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {navItems.map((item, index) => (
-                <SidebarMenuItem key={item.titleKey || item.title || index}>
+              {navItems.map((item) => (
+                <SidebarMenuItem key={item.url}>
                   {collapsed ? (
                     <Tooltip>
                       <TooltipTrigger asChild>
@@ -210,6 +203,23 @@ export function AppSidebar() {
                 </>
               )}
 
+              {/* Account security (two-factor authentication) */}
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => navigate('/account/security')}
+                    className="h-8 w-8 p-0"
+                  >
+                    <KeyRound className="h-4 w-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{t('nav.accountSecurity')}</p>
+                </TooltipContent>
+              </Tooltip>
+
               {/* Logout button */}
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -0,0 +1,127 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { taService } from '@/services/taService';
+import { TeachingAssistant } from '@/types/ta';
+import { getErrorDetail } from '@/utils/errorUtils';
+
+interface AssignTeachingAssistantsDialogProps {
+  assignmentId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: (assistants: TeachingAssistant[]) => void;
+}
+
+/**
+ * Lets a teacher choose which TAs may grade an assignment
+ */
+export function AssignTeachingAssistantsDialog({
+  assignmentId,
+  open,
+  onOpenChange,
+  onSaved,
+}: AssignTeachingAssistantsDialogProps) {
+  const { t } = useTranslation();
+  const [available, setAvailable] = useState<TeachingAssistant[]>([]);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        const [all, assigned] = await Promise.all([
+          taService.getAvailableTAs(),
+          taService.getAssignmentTAs(assignmentId),
+        ]);
+        setAvailable(all);
+        setSelectedIds(assigned.map(ta => ta.id));
+      } catch (error) {
+        console.error('Failed to load teaching assistants:', error);
+        toast.error(t('ta.loadAssistantsFailed'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [open, assignmentId, t]);
+
+  const toggle = (taId: number, checked: boolean) => {
+    setSelectedIds(prev => (checked ? [...prev, taId] : prev.filter(id => id !== taId)));
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const assistants = await taService.setAssignmentTAs(assignmentId, selectedIds);
+      toast.success(t('ta.assistantsUpdated'));
+      onSaved?.(assistants);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(getErrorDetail(error, t('ta.assistantsUpdateFailed')));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('ta.assignAssistants')}</DialogTitle>
+          <DialogDescription>{t('ta.assignAssistantsDescription')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="py-2 space-y-3 max-h-80 overflow-y-auto">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : available.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('ta.noAssistantsAvailable')}</p>
+          ) : (
+            available.map((ta) => (
+              <div key={ta.id} className="flex items-center gap-3">
+                <Checkbox
+                  id={`ta-${ta.id}`}
+                  checked={selectedIds.includes(ta.id)}
+                  onCheckedChange={(checked) => toggle(ta.id, checked === true)}
+                />
+                <Label htmlFor={`ta-${ta.id}`} className="cursor-pointer">
+                  <span className="font-medium">{ta.name}</span>
+                  <span className="block text-xs text-muted-foreground">{ta.email}</span>
+                </Label>
+              </div>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('common.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
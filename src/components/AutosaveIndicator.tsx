@@ -0,0 +1,47 @@
+import { useTranslation } from 'react-i18next';
+import { AlertCircle, Check, CloudOff, Loader2 } from 'lucide-react';
+import { AutosaveStatus } from '@/hooks/useAnswerAutosave';
+
+interface AutosaveIndicatorProps {
+  status: AutosaveStatus;
+}
+
+/**
+ * Small "saving / saved / offline" label for exam and quiz headers
+ */
+export function AutosaveIndicator({ status }: AutosaveIndicatorProps) {
+  const { t } = useTranslation();
+
+  switch (status) {
+    case 'saving':
+      return (
+        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          {t('autosave.saving')}
+        </span>
+      );
+    case 'saved':
+      return (
+        <span className="flex items-center gap-1 text-xs text-green-600 dark:text-green-400">
+          <Check className="h-3 w-3" />
+          {t('autosave.saved')}
+        </span>
+      );
+    case 'offline':
+      return (
+        <span className="flex items-center gap-1 text-xs text-orange-600" title={t('autosave.offlineHint')}>
+          <CloudOff className="h-3 w-3" />
+          {t('autosave.offline')}
+        </span>
+      );
+    case 'error':
+      return (
+        <span className="flex items-center gap-1 text-xs text-red-600" title={t('autosave.errorHint')}>
+          <AlertCircle className="h-3 w-3" />
+          {t('autosave.error')}
+        </span>
+      );
+    default:
+      return null;
+  }
+}
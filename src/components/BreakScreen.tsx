@@ -0,0 +1,42 @@
+import { useTranslation } from 'react-i18next';
+import { Coffee, Loader2, Play } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+
+interface BreakScreenProps {
+  breakRemaining: number | null; // Seconds, null for no limit
+  pending: boolean;
+  onResume: () => void;
+}
+
+const formatBreak = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+/**
+ * Shown in place of the questions during a rest break
+ */
+export function BreakScreen({ breakRemaining, pending, onResume }: BreakScreenProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Card className="mb-4">
+      <CardHeader className="text-center">
+        <Coffee className="mx-auto mb-2 h-10 w-10 text-muted-foreground" />
+        <CardTitle>{t('accommodations.onBreak')}</CardTitle>
+        <CardDescription>{t('accommodations.onBreakDescription')}</CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col items-center gap-4">
+        {breakRemaining !== null && (
+          <p className="text-sm text-muted-foreground" aria-live="polite">
+            {t('accommodations.breakRemaining')}{' '}
+            <span className="font-mono text-lg text-foreground">{formatBreak(breakRemaining)}</span>
+          </p>
+        )}
+        <Button onClick={onResume} disabled={pending} size="lg">
+          {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+          {t('accommodations.resume')}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
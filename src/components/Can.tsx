@@ -0,0 +1,19 @@
+import { usePermissions } from '@/hooks/usePermission';
+import { Permission } from '@/lib/permissions';
+
+interface CanProps {
+  // Rendered when the user has this permission (or any of these)
+  permission: Permission | Permission[];
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+/**
+ * Render children only when the signed-in user has the given permission
+ */
+export function Can({ permission, fallback = null, children }: CanProps) {
+  const { canAny } = usePermissions();
+  const required = Array.isArray(permission) ? permission : [permission];
+
+  return <>{canAny(required) ? children : fallback}</>;
+}
@@ -0,0 +1,65 @@
+import { useTranslation } from 'react-i18next';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Brain } from 'lucide-react';
+import { ChapterProgress } from '@/types/progress';
+
+const getScoreColor = (score: number) => {
+  if (score >= 80) return "text-green-600 dark:text-green-400";
+  if (score >= 60) return "text-yellow-600 dark:text-yellow-400";
+  return "text-red-600 dark:text-red-400";
+};
+
+export function MasteryBadge({ level }: { level: number }) {
+  const { t } = useTranslation();
+
+  if (level >= 80) return <Badge className="bg-green-500">{t('progress.masteryExpert')}</Badge>;
+  if (level >= 60) return <Badge className="bg-blue-500">{t('progress.masteryProficient')}</Badge>;
+  if (level >= 40) return <Badge className="bg-yellow-500">{t('progress.masteryDeveloping')}</Badge>;
+  return <Badge variant="outline">{t('progress.masteryBeginner')}</Badge>;
+}
+
+interface ChapterMasteryListProps {
+  progress: ChapterProgress[];
+  emptyMessage?: string;
+}
+
+/**
+ * Chapter-by-chapter average score and mastery level
+ */
+export function ChapterMasteryList({ progress, emptyMessage }: ChapterMasteryListProps) {
+  const { t } = useTranslation();
+
+  if (progress.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Brain className="h-16 w-16 mx-auto mb-4 text-muted-foreground opacity-50" />
+        <p className="text-muted-foreground">
+          {emptyMessage || t('progress.noQuizzesYet')}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {progress.map((chapter) => (
+        <div key={chapter.chapter_id} className="space-y-2 p-4 border rounded-lg hover:bg-accent/50 transition-colors">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium">{chapter.chapter_name}</h4>
+            <div className="flex items-center gap-2">
+              <span className={`text-2xl font-bold ${getScoreColor(chapter.average_score)}`}>
+                {chapter.average_score.toFixed(1)}%
+              </span>
+              <MasteryBadge level={chapter.mastery_level} />
+            </div>
+          </div>
+          <Progress value={chapter.average_score} className="h-2" />
+          <p className="text-xs text-muted-foreground">
+            {t('progress.questionsAttempted', { count: chapter.total_questions_attempted })}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
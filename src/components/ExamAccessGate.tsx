@@ -0,0 +1,134 @@
+import { useState, useEffect, FormEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CalendarClock, CalendarX, KeyRound, Loader2, Play, Ban } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ExamAvailability } from '@/types/exam';
+import { formatCountdown, getExamWindowStatus } from '@/utils/examWindow';
+import { formatZonedDateTime } from '@/utils/timezone';
+
+interface ExamAccessGateProps {
+  title?: string;
+  availability: ExamAvailability;
+  clockOffset: number; // Server time minus local time, in milliseconds
+  starting: boolean;
+  onStart: (accessCode?: string) => void;
+  onBack: () => void;
+}
+
+/**
+ * Stands in front of a new exam attempt: counts down to the opening time,
+ * explains why the exam can't be started, or asks for the access code
+ */
+export function ExamAccessGate({ title, availability, clockOffset, starting, onStart, onBack }: ExamAccessGateProps) {
+  const { t } = useTranslation();
+  const [now, setNow] = useState(() => Date.now() + clockOffset);
+  const [accessCode, setAccessCode] = useState('');
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now() + clockOffset), 1000);
+    return () => clearInterval(interval);
+  }, [clockOffset]);
+
+  const status = getExamWindowStatus(availability, now);
+  const opensAt = new Date(availability.available_from).getTime();
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onStart(availability.access_code_required ? accessCode.trim().toUpperCase() : undefined);
+  };
+
+  const renderBody = () => {
+    if (status === 'upcoming') {
+      return (
+        <div className="text-center space-y-2">
+          <p className="text-sm text-muted-foreground">{t('examWindow.opensIn')}</p>
+          <p className="font-mono text-4xl font-bold" aria-live="polite">{formatCountdown(opensAt, now)}</p>
+          <p className="text-sm text-muted-foreground">
+            {formatZonedDateTime(availability.available_from)}
+          </p>
+        </div>
+      );
+    }
+
+    if (status === 'closed') {
+      return (
+        <p className="text-center text-sm text-muted-foreground">
+          {t('examWindow.closedOn', { date: formatZonedDateTime(availability.available_until) })}
+        </p>
+      );
+    }
+
+    if (status === 'no_attempts_left') {
+      return (
+        <p className="text-center text-sm text-muted-foreground">
+          {t('examWindow.attemptsUsed', { used: availability.attempts_used, max: availability.max_attempts })}
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <p className="text-center text-sm text-muted-foreground">
+          {t('examWindow.closesOn', { date: formatZonedDateTime(availability.available_until) })}
+          {availability.max_attempts > 0 && (
+            <> · {t('examWindow.attemptsUsed', { used: availability.attempts_used, max: availability.max_attempts })}</>
+          )}
+        </p>
+        {availability.access_code_required && (
+          <div className="space-y-2">
+            <Label htmlFor="exam_access_code">{t('examWindow.enterAccessCode')}</Label>
+            <Input
+              id="exam_access_code"
+              value={accessCode}
+              onChange={(e) => setAccessCode(e.target.value.toUpperCase())}
+              className="font-mono tracking-widest text-center text-lg"
+              autoComplete="off"
+              autoFocus
+              maxLength={12}
+            />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const icons = {
+    upcoming: CalendarClock,
+    open: availability.access_code_required ? KeyRound : Play,
+    closed: CalendarX,
+    no_attempts_left: Ban,
+  };
+  const Icon = icons[status];
+
+  return (
+    <div className="min-h-screen bg-background p-4 flex items-center justify-center">
+      <Card className="max-w-md w-full">
+        <form onSubmit={handleSubmit}>
+          <CardHeader className="text-center">
+            <Icon className="mx-auto mb-2 h-10 w-10 text-muted-foreground" />
+            <CardTitle>{title ?? t(`examWindow.status.${status}`)}</CardTitle>
+            <CardDescription>
+              {title && t(`examWindow.status.${status}`)}
+              {availability.section_name && ` · ${t('examWindow.sectionDates', { section: availability.section_name })}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>{renderBody()}</CardContent>
+          <CardFooter className="justify-between gap-2">
+            <Button type="button" variant="outline" onClick={onBack}>
+              {t('examWindow.backToExams')}
+            </Button>
+            {status === 'open' && (
+              <Button type="submit" disabled={starting || (availability.access_code_required && !accessCode.trim())}>
+                {starting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('examWindow.startExam')}
+              </Button>
+            )}
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { AlertTriangle, Dices, Eye, Loader2 } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { RichContent } from '@/components/RichContent';
+import { useBlueprintPreview, usePoolAvailability } from '@/hooks/useExamBlueprint';
+import { BlueprintSampleQuestion, ExamBlueprint } from '@/types/exam';
+import { cn } from '@/lib/utils';
+import { getErrorDetail } from '@/utils/errorUtils';
+import {
+  BLOOM_LEVELS,
+  QUESTION_DIFFICULTIES,
+  blueprintTotal,
+  getAvailable,
+  getCellCount,
+  overdrawnCells,
+  setCellCount,
+} from '@/utils/examBlueprint';
+
+interface BlueprintChapter {
+  id: number;
+  name: string;
+  subject_name?: string;
+}
+
+interface ExamBlueprintEditorProps {
+  chapters: BlueprintChapter[];
+  value: ExamBlueprint;
+  onChange: (blueprint: ExamBlueprint) => void;
+}
+
+/**
+ * Grid of question counts per Bloom level and difficulty, drawn from the chosen chapters
+ *
+ * Each cell shows how many matching questions the bank holds, so the teacher
+ * sees straight away when a cell asks for more than the pool can supply.
+ */
+export function ExamBlueprintEditor({ chapters, value, onChange }: ExamBlueprintEditorProps) {
+  const { t } = useTranslation();
+  const { data: pool = [], isFetching, isPlaceholderData } = usePoolAvailability(value.chapter_ids);
+  const preview = useBlueprintPreview();
+  // Kept outside the mutation so the dialog stays open while another sample is drawn
+  const [sample, setSample] = useState<BlueprintSampleQuestion[] | null>(null);
+
+  const total = blueprintTotal(value);
+  // The previous selection's counts stay visible but aren't checked against
+  const overdrawn = value.chapter_ids.length > 0 && !isPlaceholderData ? overdrawnCells(value, pool) : [];
+  const chapterNames = new Map(chapters.map(chapter => [chapter.id, chapter.name]));
+
+  const toggleChapter = (chapterId: number, checked: boolean) => {
+    const chapterIds = checked
+      ? [...value.chapter_ids, chapterId]
+      : value.chapter_ids.filter(id => id !== chapterId);
+    onChange({ ...value, chapter_ids: chapterIds });
+  };
+
+  const handlePreview = () => {
+    preview.mutate(value, {
+      onSuccess: setSample,
+      onError: (error) => toast.error(getErrorDetail(error, t('examBlueprint.previewFailed'))),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>{t('examBlueprint.chapters')}</Label>
+        <ScrollArea className="h-40 rounded-md border p-3">
+          <div className="space-y-2">
+            {chapters.map(chapter => (
+              <div key={chapter.id} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`blueprint-chapter-${chapter.id}`}
+                  checked={value.chapter_ids.includes(chapter.id)}
+                  onCheckedChange={(checked) => toggleChapter(chapter.id, checked === true)}
+                />
+                <Label htmlFor={`blueprint-chapter-${chapter.id}`} className="cursor-pointer text-sm font-normal">
+                  {chapter.name}
+                  {chapter.subject_name && <span className="text-muted-foreground"> ({chapter.subject_name})</span>}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </div>
+
+      {value.chapter_ids.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t('examBlueprint.pickChapters')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="py-2 pr-2 text-left font-medium">
+                  <span className="flex items-center gap-2">
+                    {t('examBlueprint.bloomLevel')}
+                    {isFetching && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+                  </span>
+                </th>
+                {QUESTION_DIFFICULTIES.map(difficulty => (
+                  <th key={difficulty} className="px-2 py-2 text-center font-medium capitalize">{difficulty}</th>
+                ))}
+                <th className="py-2 pl-2 text-right font-medium">{t('examBlueprint.total')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {BLOOM_LEVELS.map(bloom => {
+                const rowTotal = QUESTION_DIFFICULTIES.reduce((sum, difficulty) => sum + getCellCount(value, bloom, difficulty), 0);
+                return (
+                  <tr key={bloom} className="border-b last:border-0">
+                    <td className="py-2 pr-2 capitalize">{bloom}</td>
+                    {QUESTION_DIFFICULTIES.map(difficulty => {
+                      const count = getCellCount(value, bloom, difficulty);
+                      const available = getAvailable(pool, bloom, difficulty);
+                      const short = count > available;
+                      return (
+                        <td key={difficulty} className="px-2 py-2">
+                          <div className="flex flex-col items-center gap-1">
+                            <Input
+                              type="number"
+                              min="0"
+                              max={available}
+                              value={count || ''}
+                              placeholder="0"
+                              onChange={(e) => onChange(setCellCount(value, bloom, difficulty, Math.max(0, parseInt(e.target.value, 10) || 0)))}
+                              disabled={available === 0 && count === 0}
+                              aria-label={t('examBlueprint.cellLabel', { bloom, difficulty })}
+                              aria-invalid={short}
+                              className={cn('h-8 w-16 text-center', short && 'border-destructive')}
+                            />
+                            <span className={cn('text-xs', short ? 'text-destructive' : 'text-muted-foreground')}>
+                              {t('examBlueprint.available', { count: available })}
+                            </span>
+                          </div>
+                        </td>
+                      );
+                    })}
+                    <td className="py-2 pl-2 text-right font-medium">{rowTotal || '—'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+            <tfoot>
+              <tr className="border-t">
+                <td className="py-2 pr-2 font-medium">{t('examBlueprint.total')}</td>
+                {QUESTION_DIFFICULTIES.map(difficulty => (
+                  <td key={difficulty} className="px-2 py-2 text-center font-medium">
+                    {BLOOM_LEVELS.reduce((sum, bloom) => sum + getCellCount(value, bloom, difficulty), 0) || '—'}
+                  </td>
+                ))}
+                <td className="py-2 pl-2 text-right font-bold">{total}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+
+      {overdrawn.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{t('examBlueprint.overdrawn', { count: overdrawn.length })}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">{t('examBlueprint.summary', { count: total })}</p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handlePreview}
+          disabled={total === 0 || overdrawn.length > 0 || preview.isPending}
+        >
+          {preview.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="mr-2 h-4 w-4" />}
+          {t('examBlueprint.preview')}
+        </Button>
+      </div>
+
+      <Dialog open={sample !== null} onOpenChange={(open) => !open && setSample(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{t('examBlueprint.sampleTitle')}</DialogTitle>
+            <DialogDescription>{t('examBlueprint.sampleDescription')}</DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="max-h-[60vh] pr-4">
+            <ol className="space-y-3">
+              {sample?.map((question, index) => (
+                <li key={question.id} className="rounded-md border p-3">
+                  <div className="mb-2 flex flex-wrap items-center gap-2">
+                    <span className="font-semibold">{index + 1}.</span>
+                    <Badge variant="secondary" className="capitalize">{question.bloom_level}</Badge>
+                    <Badge variant="outline" className="capitalize">{question.difficulty}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {question.chapter_name ?? chapterNames.get(question.chapter_id)}
+                    </span>
+                  </div>
+                  <RichContent content={question.question_text} className="text-sm" />
+                </li>
+              ))}
+            </ol>
+          </ScrollArea>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handlePreview} disabled={preview.isPending}>
+              {preview.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Dices className="mr-2 h-4 w-4" />}
+              {t('examBlueprint.drawAgain')}
+            </Button>
+            <Button type="button" onClick={() => setSample(null)}>{t('common.close')}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '@/contexts/AuthContext';
+import { useIdleTimeout } from '@/hooks/useIdleTimeout';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Progress } from '@/components/ui/progress';
+import { toast } from 'sonner';
+
+// Countdown shown before sign-out, capped to a fraction of very short timeouts
+const WARNING_MS = 60 * 1000;
+
+/**
+ * Signs the user out after the admin-configured period of inactivity,
+ * with a countdown warning first. Suspended while an exam or quiz is open.
+ */
+export function IdleTimeoutDialog() {
+  const { t } = useTranslation();
+  const { user, logout, assessmentActive } = useAuth();
+  // Sent with the user by /auth/me, so non-admins don't need the system settings
+  const timeoutMs = (user?.sessionTimeout ?? 0) * 60 * 1000;
+  const warningMs = Math.min(WARNING_MS, timeoutMs / 4);
+
+  const handleTimeout = useCallback(() => {
+    logout();
+    toast.info(t('session.signedOutIdle'));
+  }, [logout, t]);
+
+  const { isWarning, remainingSeconds, stayActive } = useIdleTimeout({
+    timeoutMs: user ? timeoutMs : 0,
+    warningMs,
+    keepAlive: assessmentActive,
+    onTimeout: handleTimeout,
+  });
+
+  return (
+    <AlertDialog open={isWarning}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{t('session.idleWarningTitle')}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {t('session.idleWarningDescription', { seconds: remainingSeconds })}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <Progress value={(remainingSeconds * 1000 * 100) / (warningMs || 1)} />
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={handleTimeout}>{t('session.signOutNow')}</AlertDialogCancel>
+          <AlertDialogAction onClick={stayActive}>{t('session.staySignedIn')}</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,46 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Eye, Loader2, LogOut } from 'lucide-react';
+
+/**
+ * Persistent warning shown while an admin is viewing the app as another user
+ */
+export function ImpersonationBanner() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { impersonation, stopImpersonation } = useAuth();
+  const [exiting, setExiting] = useState(false);
+
+  if (!impersonation) {
+    return null;
+  }
+
+  const handleExit = async () => {
+    setExiting(true);
+    await stopImpersonation();
+    setExiting(false);
+    navigate('/admin/users');
+  };
+
+  return (
+    <div
+      role="alert"
+      className="sticky top-0 z-50 flex items-center justify-between gap-4 bg-destructive px-4 py-2 text-destructive-foreground"
+    >
+      <div className="flex items-center gap-2 text-sm">
+        <Eye className="h-4 w-4 shrink-0" />
+        <span>
+          {t('impersonation.banner', { name: impersonation.userName, email: impersonation.userEmail })}
+        </span>
+        <span className="hidden opacity-80 md:inline">{t('impersonation.readOnly')}</span>
+      </div>
+      <Button size="sm" variant="secondary" onClick={handleExit} disabled={exiting}>
+        {exiting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogOut className="mr-2 h-4 w-4" />}
+        {t('impersonation.exit')}
+      </Button>
+    </div>
+  );
+}
@@ -3,6 +3,9 @@ import { SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
 import { AppSidebar } from './AppSidebar';
 import { ThemeToggle } from './ThemeToggle';
 import { NotificationBell } from './NotificationBell';
+import { IdleTimeoutDialog } from './IdleTimeoutDialog';
+import { ImpersonationBanner } from './ImpersonationBanner';
+import { SubmissionQueueSync } from './SubmissionQueueSync';
 import { GraduationCap } from 'lucide-react';
 
 interface LayoutProps {
@@ -22,6 +25,8 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
         <AppSidebar />
         
         <div className="flex-1 flex flex-col">
+          <ImpersonationBanner />
+
           {/* Header */}
           <header className="h-14 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 flex items-center justify-between px-4">
             <div className="flex items-center gap-4">
@@ -43,6 +48,9 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
           <main className="flex-1 bg-muted/30">
             {children}
           </main>
+
+          <IdleTimeoutDialog />
+          <SubmissionQueueSync />
         </div>
       </div>
     </SidebarProvider>
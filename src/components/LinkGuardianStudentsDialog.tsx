@@ -0,0 +1,137 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { guardianService } from '@/services/guardianService';
+import { LinkedStudent } from '@/types/guardian';
+import { getErrorDetail } from '@/utils/errorUtils';
+
+interface LinkGuardianStudentsDialogProps {
+  guardianId: number;
+  guardianName: string;
+  students: LinkedStudent[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Lets an admin choose which student accounts a guardian can follow
+ */
+export function LinkGuardianStudentsDialog({
+  guardianId,
+  guardianName,
+  students,
+  open,
+  onOpenChange,
+}: LinkGuardianStudentsDialogProps) {
+  const { t } = useTranslation();
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        setSearch('');
+        const linked = await guardianService.getGuardianStudents(guardianId);
+        setSelectedIds(linked.map(student => student.id));
+      } catch (error) {
+        console.error('Failed to load linked students:', error);
+        toast.error(t('guardian.loadLinkedFailed'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [open, guardianId, t]);
+
+  const toggle = (studentId: number, checked: boolean) => {
+    setSelectedIds(prev => (checked ? [...prev, studentId] : prev.filter(id => id !== studentId)));
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await guardianService.setGuardianStudents(guardianId, selectedIds);
+      toast.success(t('guardian.linkedUpdated'));
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(getErrorDetail(error, t('guardian.linkedUpdateFailed')));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const visibleStudents = query
+    ? students.filter(s => s.name.toLowerCase().includes(query) || s.email.toLowerCase().includes(query))
+    : students;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('guardian.linkStudentsTitle', { name: guardianName })}</DialogTitle>
+          <DialogDescription>{t('guardian.linkStudentsDescription')}</DialogDescription>
+        </DialogHeader>
+
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder={t('guardian.searchStudents')}
+        />
+
+        <div className="py-2 space-y-3 max-h-80 overflow-y-auto">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : visibleStudents.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('guardian.noStudentsFound')}</p>
+          ) : (
+            visibleStudents.map((student) => (
+              <div key={student.id} className="flex items-center gap-3">
+                <Checkbox
+                  id={`student-${student.id}`}
+                  checked={selectedIds.includes(student.id)}
+                  onCheckedChange={(checked) => toggle(student.id, checked === true)}
+                />
+                <Label htmlFor={`student-${student.id}`} className="cursor-pointer">
+                  <span className="font-medium">{student.name}</span>
+                  <span className="block text-xs text-muted-foreground">{student.email}</span>
+                </Label>
+              </div>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('common.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,137 @@
+import { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertCircle } from 'lucide-react';
+import { MathfieldElement } from 'mathlive';
+import 'mathlive/fonts.css';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RichContent } from '@/components/RichContent';
+import { cn } from '@/lib/utils';
+import { asciiToLatex, canonicalMathJson, latexToAscii, parseMathAnswer } from '@/utils/mathAnswer';
+
+// Fonts come from the stylesheet above and the editor stays silent
+MathfieldElement.fontsDirectory = null;
+MathfieldElement.soundsDirectory = null;
+
+interface MathInputProps {
+  id: string;
+  value: string; // LaTeX
+  onChange: (latex: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Visual formula editor with an ASCII-math field kept in sync both ways
+ *
+ * Students can build the formula with the keyboard or the virtual keyboard,
+ * or type it as plain text such as "1/(2 pi f C)". A rendered preview shows
+ * exactly what will be submitted.
+ */
+export function MathInput({ id, value, onChange, disabled = false, className }: MathInputProps) {
+  const { t } = useTranslation();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const fieldRef = useRef<MathfieldElement | null>(null);
+  const onChangeRef = useRef(onChange);
+  // What the student is typing in the ASCII field; null when it follows the editor
+  const [asciiDraft, setAsciiDraft] = useState<string | null>(null);
+
+  onChangeRef.current = onChange;
+
+  // The custom element is created once and driven imperatively
+  useEffect(() => {
+    const field = new MathfieldElement();
+    field.id = id;
+    field.className = 'block w-full rounded-md border border-input bg-background px-3 py-2 text-lg';
+    field.addEventListener('input', () => {
+      setAsciiDraft(null);
+      onChangeRef.current(field.getValue('latex'));
+    });
+
+    containerRef.current?.appendChild(field);
+    fieldRef.current = field;
+    return () => {
+      field.remove();
+      fieldRef.current = null;
+    };
+  }, [id]);
+
+  // Runs after the field is (re)created, and again when the language changes
+  useEffect(() => {
+    fieldRef.current?.setAttribute('aria-label', t('mathInput.editorLabel'));
+  }, [id, t]);
+
+  useEffect(() => {
+    const field = fieldRef.current;
+    if (field && field.getValue('latex') !== value) {
+      field.setValue(value, { silenceNotifications: true });
+    }
+  }, [value]);
+
+  useEffect(() => {
+    if (fieldRef.current) fieldRef.current.disabled = disabled;
+  }, [disabled]);
+
+  const handleAsciiChange = (text: string) => {
+    setAsciiDraft(text);
+    onChange(text.trim() ? asciiToLatex(text) : '');
+  };
+
+  const ascii = asciiDraft ?? (value ? latexToAscii(value) : '');
+  const unreadable = !!value.trim() && canonicalMathJson(value) === null;
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div ref={containerRef} />
+
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-ascii`} className="text-xs text-muted-foreground">
+          {t('mathInput.asciiLabel')}
+        </Label>
+        <Input
+          id={`${id}-ascii`}
+          value={ascii}
+          onChange={(e) => handleAsciiChange(e.target.value)}
+          onBlur={() => setAsciiDraft(null)}
+          placeholder="1/(2 pi f C)"
+          autoComplete="off"
+          spellCheck={false}
+          disabled={disabled}
+          className="font-mono"
+        />
+      </div>
+
+      {value.trim() && (
+        <div className="rounded-md border bg-muted/40 p-3" aria-live="polite">
+          <p className="mb-1 text-xs text-muted-foreground">{t('mathInput.preview')}</p>
+          <RichContent content={`$$${value}$$`} />
+          {unreadable && (
+            <p className="mt-2 flex items-center gap-1 text-xs text-orange-600">
+              <AlertCircle className="h-3 w-3" />
+              {t('mathInput.unreadable')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface AnswerTextProps {
+  answer: string | null | undefined;
+  className?: string;
+}
+
+/**
+ * A submitted answer as the student wrote it, with formulas rendered
+ */
+export function AnswerText({ answer, className }: AnswerTextProps) {
+  const math = parseMathAnswer(answer);
+  if (!math) return <span className={className}>{answer}</span>;
+
+  return (
+    <span className={className} title={math.ascii}>
+      <RichContent content={`$${math.latex}$`} inline />
+    </span>
+  );
+}
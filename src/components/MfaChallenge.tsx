@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface MfaChallengeProps {
+  onVerified: () => void;
+}
+
+const TOTP_CODE_LENGTH = 6;
+
+/**
+ * Second login step shown when the backend answers /auth/login with an MFA challenge
+ */
+const MfaChallenge = ({ onVerified }: MfaChallengeProps) => {
+  const { t } = useTranslation();
+  const { verifyMfa, cancelMfa, isLoading } = useAuth();
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const handleVerify = async (value: string) => {
+    if (!value.trim()) return;
+
+    const success = await verifyMfa(value.trim(), useRecoveryCode);
+    if (success) {
+      onVerified();
+    } else {
+      toast.error(t('auth.mfaInvalidCode'));
+      setCode('');
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    handleVerify(code);
+  };
+
+  return (
+    <Card className="card-shadow">
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl font-semibold flex items-center gap-2">
+          <ShieldCheck className="h-6 w-6 text-primary" />
+          {t('auth.mfaTitle')}
+        </CardTitle>
+        <CardDescription>
+          {useRecoveryCode ? t('auth.mfaRecoveryDescription') : t('auth.mfaDescription')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {useRecoveryCode ? (
+            <div className="space-y-2">
+              <Label htmlFor="recovery-code">{t('auth.mfaRecoveryCode')}</Label>
+              <Input
+                id="recovery-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="off"
+                autoFocus
+                className="h-10 font-mono"
+              />
+            </div>
+          ) : (
+            <div className="flex justify-center">
+              <InputOTP
+                maxLength={TOTP_CODE_LENGTH}
+                value={code}
+                onChange={setCode}
+                onComplete={handleVerify}
+                autoFocus
+              >
+                <InputOTPGroup>
+                  {Array.from({ length: TOTP_CODE_LENGTH }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+          )}
+
+          <Button type="submit" className="w-full h-10" disabled={isLoading || !code.trim()}>
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {t('common.loading')}
+              </>
+            ) : (
+              t('auth.mfaVerify')
+            )}
+          </Button>
+
+          <div className="flex justify-between text-sm">
+            <button
+              type="button"
+              className="text-primary hover:underline"
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode);
+                setCode('');
+              }}
+            >
+              {useRecoveryCode ? t('auth.mfaUseAuthenticator') : t('auth.mfaUseRecoveryCode')}
+            </button>
+            <button type="button" className="text-muted-foreground hover:underline" onClick={cancelMfa}>
+              {t('common.cancel')}
+            </button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MfaChallenge;
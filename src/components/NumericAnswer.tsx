@@ -0,0 +1,82 @@
+import { useTranslation } from 'react-i18next';
+import { AlertCircle } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { NumericAnswerSpec, NumericQuestionHint } from '@/types/question';
+import { checkNumericAnswer, formatQuantity, formatTolerance, parseQuantity } from '@/utils/numericAnswer';
+
+interface NumericAnswerInputProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  hint?: NumericQuestionHint;
+}
+
+/**
+ * Free-text answer field for numeric questions, with a live reading of what was typed
+ */
+export function NumericAnswerInput({ id, value, onChange, hint }: NumericAnswerInputProps) {
+  const { t } = useTranslation();
+  const parsed = value.trim() ? parseQuantity(value) : null;
+
+  return (
+    <div className="space-y-2">
+      <Input
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={hint?.unit ? t('numericAnswer.placeholderWithUnit', { unit: hint.unit }) : t('numericAnswer.placeholder')}
+        inputMode="decimal"
+        autoComplete="off"
+        className="font-mono text-lg"
+      />
+      <div className="space-y-1 text-xs text-muted-foreground">
+        {hint?.unit && <p>{t('numericAnswer.unitHint', { unit: hint.unit })}</p>}
+        {hint?.significant_figures && (
+          <p>{t('numericAnswer.sigFigsHint', { count: hint.significant_figures })}</p>
+        )}
+        {value.trim() && (parsed ? (
+          <p aria-live="polite">
+            {t('numericAnswer.readAs', { value: formatQuantity(parsed.value, parsed.unit ?? hint?.unit) })}
+          </p>
+        ) : (
+          <p className="flex items-center gap-1 text-orange-600" aria-live="polite">
+            <AlertCircle className="h-3 w-3" />
+            {t('numericAnswer.unreadable')}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface NumericResultDetailsProps {
+  answer: string;
+  spec: NumericAnswerSpec;
+  isCorrect: boolean;
+}
+
+/**
+ * Expected value and, for a wrong answer, why it was not accepted
+ */
+export function NumericResultDetails({ answer, spec, isCorrect }: NumericResultDetailsProps) {
+  const { t } = useTranslation();
+  const { verdict } = checkNumericAnswer(answer || '', spec);
+  const tolerance = formatTolerance(spec);
+
+  return (
+    <div className="space-y-1 text-sm">
+      <div className="text-green-700 dark:text-green-300">
+        <strong>{t('numericAnswer.expected')}:</strong> {formatQuantity(spec.expected_value, spec.unit)}
+        {tolerance && <span className="text-muted-foreground"> ({tolerance})</span>}
+        {spec.significant_figures && (
+          <span className="text-muted-foreground">
+            {' '}· {t('numericAnswer.sigFigsHint', { count: spec.significant_figures })}
+          </span>
+        )}
+      </div>
+      {!isCorrect && verdict !== 'correct' && (
+        <p className="text-red-700 dark:text-red-300">{t(`numericAnswer.verdicts.${verdict}`)}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { Calculator, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { questionService } from '@/services/questionService';
+import { NumericAnswerSpec } from '@/types/question';
+import { getErrorDetail } from '@/utils/errorUtils';
+import { formatQuantity, formatTolerance, parseQuantity, SI_UNITS } from '@/utils/numericAnswer';
+
+const NO_UNIT = 'none';
+
+const DIFFICULTIES = ['beginner', 'medium', 'advanced'];
+const BLOOM_LEVELS = ['remember', 'understand', 'apply', 'analyze', 'evaluate', 'create'];
+
+interface NumericQuestionFormProps {
+  chapterId: number;
+  onCreated: () => void;
+}
+
+/**
+ * Authoring form for a numeric question with tolerance, significant figures and an SI unit
+ */
+export function NumericQuestionForm({ chapterId, onCreated }: NumericQuestionFormProps) {
+  const { t } = useTranslation();
+  const [questionText, setQuestionText] = useState('');
+  const [difficulty, setDifficulty] = useState('medium');
+  const [bloomLevel, setBloomLevel] = useState('apply');
+  const [expected, setExpected] = useState('');
+  const [unit, setUnit] = useState(NO_UNIT);
+  const [unitRequired, setUnitRequired] = useState(true);
+  const [absoluteTolerance, setAbsoluteTolerance] = useState('');
+  const [relativeTolerance, setRelativeTolerance] = useState('');
+  const [significantFigures, setSignificantFigures] = useState('');
+  const [explanation, setExplanation] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // The expected value may carry its own prefix and unit ("4.7 kΩ")
+  const parsedExpected = expected.trim() ? parseQuantity(expected) : null;
+  const parsedAbsolute = absoluteTolerance.trim() ? parseQuantity(absoluteTolerance) : null;
+  const specUnit = unit !== NO_UNIT ? unit : parsedExpected?.unit ?? null;
+
+  const buildSpec = (): NumericAnswerSpec | null => {
+    if (!parsedExpected) return null;
+    const relative = relativeTolerance.trim() ? Number(relativeTolerance.replace(',', '.')) / 100 : null;
+    const sigFigs = significantFigures.trim() ? parseInt(significantFigures, 10) : null;
+
+    return {
+      expected_value: parsedExpected.value,
+      unit: specUnit,
+      unit_required: !!specUnit && unitRequired,
+      absolute_tolerance: parsedAbsolute ? Math.abs(parsedAbsolute.value) : null,
+      relative_tolerance: relative !== null && Number.isFinite(relative) ? Math.abs(relative) : null,
+      significant_figures: sigFigs && sigFigs > 0 ? sigFigs : null,
+    };
+  };
+
+  const validate = (): string | null => {
+    if (!questionText.trim()) return t('numericAnswer.form.questionRequired');
+    if (!parsedExpected) return t('numericAnswer.form.expectedInvalid');
+    if (parsedExpected.unit && specUnit && parsedExpected.unit !== specUnit) {
+      return t('numericAnswer.form.unitMismatch', { unit: specUnit });
+    }
+    if (absoluteTolerance.trim() && !parsedAbsolute) return t('numericAnswer.form.toleranceInvalid');
+    if (parsedAbsolute?.unit && parsedAbsolute.unit !== specUnit) {
+      return t('numericAnswer.form.unitMismatch', { unit: specUnit ?? '—' });
+    }
+    return null;
+  };
+
+  const reset = () => {
+    setQuestionText('');
+    setExpected('');
+    setAbsoluteTolerance('');
+    setRelativeTolerance('');
+    setSignificantFigures('');
+    setExplanation('');
+  };
+
+  const handleSubmit = async () => {
+    const error = validate();
+    const spec = buildSpec();
+    if (error || !spec) {
+      toast.error(error);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await questionService.createNumericQuestion({
+        chapter_id: chapterId,
+        question_text: questionText.trim(),
+        question_type: 'numeric',
+        difficulty,
+        bloom_level: bloomLevel,
+        correct_answer: formatQuantity(spec.expected_value, spec.unit),
+        numeric: spec,
+        explanation_text: explanation.trim() || undefined,
+      });
+      toast.success(t('numericAnswer.form.created'));
+      reset();
+      onCreated();
+    } catch (err) {
+      toast.error(getErrorDetail(err, t('numericAnswer.form.createFailed')));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const spec = buildSpec();
+  const tolerance = spec ? formatTolerance(spec) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calculator className="h-5 w-5" />
+          {t('numericAnswer.form.title')}
+        </CardTitle>
+        <CardDescription>{t('numericAnswer.form.description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="numeric-question-text">{t('numericAnswer.form.question')}</Label>
+          <Textarea
+            id="numeric-question-text"
+            value={questionText}
+            onChange={(e) => setQuestionText(e.target.value)}
+            placeholder={t('numericAnswer.form.questionPlaceholder')}
+            rows={3}
+          />
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label>{t('numericAnswer.form.difficulty')}</Label>
+            <Select value={difficulty} onValueChange={setDifficulty}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DIFFICULTIES.map(level => (
+                  <SelectItem key={level} value={level} className="capitalize">{level}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>{t('numericAnswer.form.bloomLevel')}</Label>
+            <Select value={bloomLevel} onValueChange={setBloomLevel}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BLOOM_LEVELS.map(level => (
+                  <SelectItem key={level} value={level} className="capitalize">{level}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="numeric-expected">{t('numericAnswer.form.expected')}</Label>
+            <Input
+              id="numeric-expected"
+              value={expected}
+              onChange={(e) => setExpected(e.target.value)}
+              placeholder="4.7 kΩ"
+              className="font-mono"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>{t('numericAnswer.form.unit')}</Label>
+            <Select value={unit} onValueChange={setUnit}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_UNIT}>{t('numericAnswer.form.noUnit')}</SelectItem>
+                {Object.keys(SI_UNITS).map(symbol => (
+                  <SelectItem key={symbol} value={symbol}>{symbol}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="numeric-abs-tolerance">{t('numericAnswer.form.absoluteTolerance')}</Label>
+            <Input
+              id="numeric-abs-tolerance"
+              value={absoluteTolerance}
+              onChange={(e) => setAbsoluteTolerance(e.target.value)}
+              placeholder={specUnit ? `50 ${specUnit}` : '0.05'}
+              className="font-mono"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="numeric-rel-tolerance">{t('numericAnswer.form.relativeTolerance')}</Label>
+            <Input
+              id="numeric-rel-tolerance"
+              type="number"
+              min="0"
+              step="0.1"
+              value={relativeTolerance}
+              onChange={(e) => setRelativeTolerance(e.target.value)}
+              placeholder="2"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="numeric-sig-figs">{t('numericAnswer.form.significantFigures')}</Label>
+            <Input
+              id="numeric-sig-figs"
+              type="number"
+              min="1"
+              max="10"
+              value={significantFigures}
+              onChange={(e) => setSignificantFigures(e.target.value)}
+              placeholder={t('numericAnswer.form.any')}
+            />
+          </div>
+        </div>
+
+        {specUnit && (
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="numeric-unit-required"
+              checked={unitRequired}
+              onCheckedChange={(checked) => setUnitRequired(checked === true)}
+            />
+            <Label htmlFor="numeric-unit-required" className="text-sm font-normal">
+              {t('numericAnswer.form.unitRequired', { unit: specUnit })}
+            </Label>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="numeric-explanation">{t('numericAnswer.form.explanation')}</Label>
+          <Textarea
+            id="numeric-explanation"
+            value={explanation}
+            onChange={(e) => setExplanation(e.target.value)}
+            rows={2}
+          />
+        </div>
+
+        {spec && (
+          <p className="text-sm text-muted-foreground">
+            {t('numericAnswer.form.preview', {
+              value: formatQuantity(spec.expected_value, spec.unit),
+              tolerance: tolerance ?? t('numericAnswer.form.exact'),
+            })}
+          </p>
+        )}
+
+        <Button onClick={handleSubmit} disabled={saving} className="w-full">
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {t('numericAnswer.form.create')}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -44,6 +44,8 @@ const PersonalizedHeader = ({ hideRole = false, className = '' }: PersonalizedHe
     switch (user.role) {
       case 'student':
         return <GraduationCap className="h-4 w-4" />;
+      case 'guardian':
+      case 'ta':
       case 'teacher':
         return <User className="h-4 w-4" />;
       case 'admin':
@@ -58,6 +60,8 @@ const PersonalizedHeader = ({ hideRole = false, className = '' }: PersonalizedHe
     switch (user.role) {
       case 'student':
         return 'default';
+      case 'guardian':
+      case 'ta':
       case 'teacher':
         return 'secondary';
       case 'admin':
@@ -0,0 +1,242 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format, formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { Flag, FlagOff, Loader2 } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { ProctoringTimeline } from '@/components/ProctoringTimeline';
+import {
+  useAnswerHistory,
+  useFlagReviews,
+  useProctoringTimeline,
+  useReviewFlag,
+  VIOLATION_EVENTS,
+} from '@/hooks/useProctoring';
+import { FlagDecision } from '@/types/proctoring';
+import { getErrorDetail } from '@/utils/errorUtils';
+
+export interface ReviewedAttempt {
+  attemptId: number;
+  studentName: string;
+  startedAt: string | null;
+  submittedAt: string | null;
+}
+
+interface ProctoringReviewDrawerProps {
+  attempt: ReviewedAttempt | null; // Drawer is closed while null
+  onClose: () => void;
+  onReviewed: (attemptId: number, decision: FlagDecision) => void;
+}
+
+interface TrackMarker {
+  key: string;
+  at: number;
+  label: string;
+}
+
+interface ActivityTrackProps {
+  start: number;
+  end: number;
+  lanes: { label: string; markerClass: string; markers: TrackMarker[] }[];
+}
+
+/**
+ * Answer changes and violations on one time axis, from start to submission
+ */
+function ActivityTrack({ start, end, lanes }: ActivityTrackProps) {
+  const span = Math.max(end - start, 1);
+  const position = (at: number) => `${Math.min(100, Math.max(0, ((at - start) / span) * 100))}%`;
+
+  return (
+    <div className="space-y-2">
+      {lanes.map(lane => (
+        <div key={lane.label} className="flex items-center gap-3">
+          <span className="w-24 shrink-0 text-xs text-muted-foreground">{lane.label}</span>
+          <div className="relative h-6 flex-1 rounded bg-muted">
+            {lane.markers.map(marker => (
+              <Tooltip key={marker.key}>
+                <TooltipTrigger asChild>
+                  <span
+                    className={`absolute top-1 h-4 w-1.5 -translate-x-1/2 rounded-sm ${lane.markerClass}`}
+                    style={{ left: position(marker.at) }}
+                  />
+                </TooltipTrigger>
+                <TooltipContent>
+                  <span className="font-mono">{format(marker.at, 'HH:mm:ss')}</span> · {marker.label}
+                </TooltipContent>
+              </Tooltip>
+            ))}
+          </div>
+        </div>
+      ))}
+      <div className="flex justify-between pl-[6.75rem] font-mono text-xs text-muted-foreground">
+        <span>{format(start, 'HH:mm:ss')}</span>
+        <span>{format(end, 'HH:mm:ss')}</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Side drawer to review the proctoring record of one attempt and confirm or clear its flag
+ */
+export function ProctoringReviewDrawer({ attempt, onClose, onReviewed }: ProctoringReviewDrawerProps) {
+  const { t } = useTranslation();
+  const attemptId = attempt?.attemptId ?? null;
+  const { data: events = [] } = useProctoringTimeline(attemptId);
+  const { data: answers = [] } = useAnswerHistory(attemptId);
+  const { data: reviews = [] } = useFlagReviews(attemptId);
+  const reviewFlag = useReviewFlag(attemptId ?? 0);
+  const [violationsOnly, setViolationsOnly] = useState(false);
+  const [justification, setJustification] = useState('');
+
+  const violations = events.filter(event => VIOLATION_EVENTS.includes(event.type));
+  const times = [...events, ...answers].map(item => new Date(item.occurred_at).getTime());
+  const start = attempt?.startedAt ? new Date(attempt.startedAt).getTime() : Math.min(...times);
+  const end = attempt?.submittedAt ? new Date(attempt.submittedAt).getTime() : Math.max(...times);
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) return;
+    setJustification('');
+    setViolationsOnly(false);
+    onClose();
+  };
+
+  const handleDecision = async (decision: FlagDecision) => {
+    if (!attempt) return;
+    if (!justification.trim()) {
+      toast.error(t('proctoring.review.justificationRequired'));
+      return;
+    }
+
+    try {
+      await reviewFlag.mutateAsync({ decision, justification: justification.trim() });
+      toast.success(t(decision === 'confirmed' ? 'proctoring.review.confirmed' : 'proctoring.review.cleared'));
+      setJustification('');
+      onReviewed(attempt.attemptId, decision);
+    } catch (error) {
+      toast.error(getErrorDetail(error, t('proctoring.review.failed')));
+    }
+  };
+
+  return (
+    <Sheet open={attempt !== null} onOpenChange={handleOpenChange}>
+      <SheetContent side="right" className="w-full overflow-y-auto sm:max-w-2xl">
+        <SheetHeader>
+          <SheetTitle>{t('proctoring.review.title', { name: attempt?.studentName })}</SheetTitle>
+          <SheetDescription>{t('proctoring.review.description')}</SheetDescription>
+        </SheetHeader>
+
+        {attempt && (
+          <div className="mt-6 space-y-6">
+            {times.length > 0 && (
+              <ActivityTrack
+                start={start}
+                end={end}
+                lanes={[
+                  {
+                    label: t('proctoring.review.answersLane'),
+                    markerClass: 'bg-blue-500',
+                    markers: answers.map(answer => ({
+                      key: `answer-${answer.id}`,
+                      at: new Date(answer.occurred_at).getTime(),
+                      label: t('proctoring.answerChanged', { id: answer.question_id }),
+                    })),
+                  },
+                  {
+                    label: t('proctoring.review.violationsLane'),
+                    markerClass: 'bg-red-500',
+                    markers: violations.map(event => ({
+                      key: `event-${event.id}`,
+                      at: new Date(event.occurred_at).getTime(),
+                      label: t(`proctoring.events.${event.type}`),
+                    })),
+                  },
+                ]}
+              />
+            )}
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="font-semibold">{t('proctoring.review.log')}</h4>
+                <div className="flex items-center gap-2">
+                  <Switch id="violations-only" checked={violationsOnly} onCheckedChange={setViolationsOnly} />
+                  <Label htmlFor="violations-only" className="text-sm">
+                    {t('proctoring.review.violationsOnly')}
+                  </Label>
+                </div>
+              </div>
+              <ProctoringTimeline
+                attemptId={attempt.attemptId}
+                violationsOnly={violationsOnly}
+                answerEvents={answers}
+              />
+            </div>
+
+            <div className="space-y-3 border-t pt-4">
+              <h4 className="font-semibold">{t('proctoring.review.decision')}</h4>
+              {reviews.map(review => (
+                <div key={review.id} className="rounded-lg border p-3 text-sm">
+                  <div className="mb-1 flex items-center gap-2">
+                    <Badge variant={review.decision === 'confirmed' ? 'destructive' : 'outline'}>
+                      {t(`proctoring.review.decisions.${review.decision}`)}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {review.reviewer_name} · {formatDistanceToNow(new Date(review.created_at), { addSuffix: true })}
+                    </span>
+                  </div>
+                  <p className="whitespace-pre-wrap">{review.justification}</p>
+                </div>
+              ))}
+
+              <div className="space-y-2">
+                <Label htmlFor="flag-justification">{t('proctoring.review.justification')}</Label>
+                <Textarea
+                  id="flag-justification"
+                  value={justification}
+                  onChange={(e) => setJustification(e.target.value)}
+                  placeholder={t('proctoring.review.justificationPlaceholder')}
+                  rows={3}
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => handleDecision('cleared')}
+                  disabled={reviewFlag.isPending}
+                >
+                  <FlagOff className="mr-2 h-4 w-4" />
+                  {t('proctoring.review.clearFlag')}
+                </Button>
+                <Button
+                  variant="destructive"
+                  onClick={() => handleDecision('confirmed')}
+                  disabled={reviewFlag.isPending}
+                >
+                  {reviewFlag.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Flag className="mr-2 h-4 w-4" />
+                  )}
+                  {t('proctoring.review.confirmFlag')}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
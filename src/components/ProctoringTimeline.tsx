@@ -0,0 +1,141 @@
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import {
+  AppWindow,
+  ClipboardPaste,
+  Code,
+  Copy,
+  Eye,
+  EyeOff,
+  Loader2,
+  Maximize,
+  Minimize,
+  Monitor,
+  MousePointerClick,
+  PenLine,
+  Scissors,
+  LucideIcon
+} from 'lucide-react';
+import { useProctoringTimeline, VIOLATION_EVENTS } from '@/hooks/useProctoring';
+import { AnswerChangeEvent, ProctoringEventType, ProctoringTimelineEvent } from '@/types/proctoring';
+
+const EVENT_ICONS: Record<ProctoringEventType, LucideIcon> = {
+  tab_hidden: EyeOff,
+  tab_visible: Eye,
+  window_blur: AppWindow,
+  window_focus: AppWindow,
+  fullscreen_exit: Minimize,
+  fullscreen_enter: Maximize,
+  copy: Copy,
+  cut: Scissors,
+  paste: ClipboardPaste,
+  context_menu: MousePointerClick,
+  devtools_open: Code,
+  devtools_closed: Code,
+  multiple_displays: Monitor,
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${(seconds % 60).toString().padStart(2, '0')}s`;
+};
+
+interface ProctoringTimelineProps {
+  attemptId: number;
+  violationsOnly?: boolean;
+  answerEvents?: AnswerChangeEvent[]; // Interleaved with the proctoring events when given
+}
+
+interface TimelineEntry {
+  key: string;
+  at: number;
+  event?: ProctoringTimelineEvent;
+  answer?: AnswerChangeEvent;
+}
+
+/**
+ * Chronological proctoring log of one exam attempt
+ */
+export function ProctoringTimeline({ attemptId, violationsOnly = false, answerEvents = [] }: ProctoringTimelineProps) {
+  const { t } = useTranslation();
+  const { data: events = [], isLoading, isError } = useProctoringTimeline(attemptId);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return <p className="text-sm text-muted-foreground">{t('proctoring.loadFailed')}</p>;
+  }
+
+  const entries: TimelineEntry[] = [
+    ...events
+      .filter(event => !violationsOnly || VIOLATION_EVENTS.includes(event.type))
+      .map(event => ({ key: `event-${event.id}`, at: new Date(event.occurred_at).getTime(), event })),
+    ...(violationsOnly ? [] : answerEvents).map(answer => ({
+      key: `answer-${answer.id}`,
+      at: new Date(answer.occurred_at).getTime(),
+      answer,
+    })),
+  ].sort((a, b) => a.at - b.at);
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t('proctoring.noEvents')}</p>;
+  }
+
+  return (
+    <ol className="relative border-l ml-2 space-y-3">
+      {entries.map(({ key, at, event, answer }) => {
+        if (answer) {
+          return (
+            <li key={key} className="ml-4">
+              <span className="absolute -left-2 flex h-4 w-4 items-center justify-center rounded-full bg-blue-100 text-blue-600">
+                <PenLine className="h-3 w-3" />
+              </span>
+              <div className="flex flex-wrap items-baseline gap-2 text-sm">
+                <span className="font-mono text-xs text-muted-foreground">{format(at, 'HH:mm:ss')}</span>
+                <span>{t('proctoring.answerChanged', { id: answer.question_id })}</span>
+              </div>
+            </li>
+          );
+        }
+
+        const Icon = EVENT_ICONS[event.type] || AppWindow;
+        const isViolation = VIOLATION_EVENTS.includes(event.type);
+
+        return (
+          <li key={key} className="ml-4">
+            <span
+              className={`absolute -left-2 flex h-4 w-4 items-center justify-center rounded-full ${
+                isViolation ? 'bg-red-100 text-red-600' : 'bg-muted text-muted-foreground'
+              }`}
+            >
+              <Icon className="h-3 w-3" />
+            </span>
+            <div className="flex flex-wrap items-baseline gap-2 text-sm">
+              <span className="font-mono text-xs text-muted-foreground">{format(at, 'HH:mm:ss')}</span>
+              <span className={isViolation ? 'font-medium text-red-700 dark:text-red-400' : ''}>
+                {t(`proctoring.events.${event.type}`)}
+              </span>
+              {event.duration_ms !== undefined && event.duration_ms !== null && (
+                <span className="text-xs text-muted-foreground">
+                  {t('proctoring.awayFor', { duration: formatDuration(event.duration_ms) })}
+                </span>
+              )}
+              {event.question_id && (
+                <span className="text-xs text-muted-foreground">
+                  {t('proctoring.onQuestion', { id: event.question_id })}
+                </span>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,172 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { questionService } from '@/services/questionService';
+import { QuestionUpdate } from '@/types/question';
+import { getErrorDetail } from '@/utils/errorUtils';
+
+export interface EditableQuestion {
+  id: number;
+  question_text: string;
+  question_type: string;
+  options?: Record<string, string> | null;
+  correct_answer: string;
+  explanation_text?: string | null;
+}
+
+interface QuestionEditDialogProps {
+  question: EditableQuestion | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (questionId: number, changes: QuestionUpdate) => void;
+}
+
+/**
+ * Edits a bank question's text, options, answer key and explanation
+ *
+ * Numeric marking rules are left to the numeric question form.
+ */
+export function QuestionEditDialog({ question, onOpenChange, onSaved }: QuestionEditDialogProps) {
+  const { t } = useTranslation();
+  const [questionText, setQuestionText] = useState('');
+  const [options, setOptions] = useState<Record<string, string>>({});
+  const [correctAnswer, setCorrectAnswer] = useState('');
+  const [explanation, setExplanation] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!question) return;
+    setQuestionText(question.question_text);
+    setOptions(question.options ?? {});
+    setCorrectAnswer(question.correct_answer);
+    setExplanation(question.explanation_text ?? '');
+  }, [question]);
+
+  const optionKeys = Object.keys(options).sort();
+  const hasOptions = optionKeys.length > 0;
+  // A numeric question's key is its marking rules, not this text
+  const editsAnswer = question?.question_type !== 'numeric';
+
+  const handleSave = async () => {
+    if (!question) return;
+    if (!questionText.trim() || !correctAnswer.trim() || optionKeys.some(key => !options[key].trim())) {
+      toast.error(t('questionEdit.incomplete'));
+      return;
+    }
+
+    const changes: QuestionUpdate = {
+      question_text: questionText.trim(),
+      options: hasOptions ? options : null,
+      correct_answer: correctAnswer.trim(),
+      explanation_text: explanation.trim() || null,
+    };
+
+    setSaving(true);
+    try {
+      await questionService.updateQuestion(question.id, changes);
+      toast.success(t('questionEdit.saved'));
+      onSaved(question.id, changes);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(getErrorDetail(error, t('questionEdit.saveFailed')));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={question !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t('questionEdit.title')}</DialogTitle>
+          <DialogDescription>{t('questionEdit.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1">
+          <div className="space-y-2">
+            <Label htmlFor="edit_question_text">{t('questionEdit.questionText')}</Label>
+            <Textarea
+              id="edit_question_text"
+              value={questionText}
+              onChange={(e) => setQuestionText(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          {hasOptions && (
+            <div className="space-y-2">
+              <Label>{t('questionEdit.options')}</Label>
+              {optionKeys.map(key => (
+                <div key={key} className="flex items-center gap-2">
+                  <span className="w-6 text-sm font-semibold">{key}.</span>
+                  <Input
+                    value={options[key]}
+                    onChange={(e) => setOptions({ ...options, [key]: e.target.value })}
+                    aria-label={t('questionEdit.optionLabel', { key })}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {editsAnswer && (
+            <div className="space-y-2">
+              <Label htmlFor="edit_correct_answer">{t('questionEdit.correctAnswer')}</Label>
+              {hasOptions ? (
+                <Select value={correctAnswer} onValueChange={setCorrectAnswer}>
+                  <SelectTrigger id="edit_correct_answer">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {optionKeys.map(key => (
+                      <SelectItem key={key} value={key}>{key}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  id="edit_correct_answer"
+                  value={correctAnswer}
+                  onChange={(e) => setCorrectAnswer(e.target.value)}
+                />
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="edit_explanation">{t('questionEdit.explanation')}</Label>
+            <Textarea
+              id="edit_explanation"
+              value={explanation}
+              onChange={(e) => setExplanation(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('common.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
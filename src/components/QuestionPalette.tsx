@@ -0,0 +1,140 @@
+import { useEffect, useRef, useState, KeyboardEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CheckCircle, Flag } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface QuestionPaletteProps {
+  questionIds: number[];
+  currentIndex: number;
+  answeredIds: Set<number>;
+  flaggedIds: Set<number>;
+  onSelect: (index: number) => void;
+}
+
+/**
+ * Grid of question numbers showing which are answered, unanswered or flagged
+ *
+ * Only one button is in the tab order; arrow keys, Home and End move between
+ * questions and Enter or Space opens the focused one.
+ */
+export function QuestionPalette({ questionIds, currentIndex, answeredIds, flaggedIds, onSelect }: QuestionPaletteProps) {
+  const { t } = useTranslation();
+  const buttonsRef = useRef<(HTMLButtonElement | null)[]>([]);
+  const [focusIndex, setFocusIndex] = useState(currentIndex);
+
+  useEffect(() => {
+    setFocusIndex(currentIndex);
+  }, [currentIndex]);
+
+  const moveFocus = (index: number) => {
+    const target = Math.max(0, Math.min(questionIds.length - 1, index));
+    setFocusIndex(target);
+    buttonsRef.current[target]?.focus();
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    switch (event.key) {
+      case 'ArrowRight':
+      case 'ArrowDown':
+        moveFocus(focusIndex + 1);
+        break;
+      case 'ArrowLeft':
+      case 'ArrowUp':
+        moveFocus(focusIndex - 1);
+        break;
+      case 'Home':
+        moveFocus(0);
+        break;
+      case 'End':
+        moveFocus(questionIds.length - 1);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        role="toolbar"
+        aria-label={t('questionPalette.title')}
+        className="flex flex-wrap gap-2"
+        onKeyDown={handleKeyDown}
+      >
+        {questionIds.map((questionId, index) => {
+          const isCurrent = index === currentIndex;
+          const isAnswered = answeredIds.has(questionId);
+          const isFlagged = flaggedIds.has(questionId);
+          const states = [
+            t(isAnswered ? 'questionPalette.answered' : 'questionPalette.unanswered'),
+            ...(isFlagged ? [t('questionPalette.flagged')] : []),
+          ];
+
+          return (
+            <Button
+              key={questionId}
+              ref={element => {
+                buttonsRef.current[index] = element;
+              }}
+              variant={isCurrent ? 'default' : isAnswered ? 'secondary' : 'outline'}
+              size="sm"
+              tabIndex={index === focusIndex ? 0 : -1}
+              aria-current={isCurrent ? 'step' : undefined}
+              aria-label={`${t('questionPalette.question', { number: index + 1 })}, ${states.join(', ')}`}
+              onFocus={() => setFocusIndex(index)}
+              onClick={() => onSelect(index)}
+              className={`w-10 h-10 relative ${isFlagged ? 'ring-2 ring-orange-500 ring-offset-1' : ''}`}
+            >
+              {index + 1}
+              {isFlagged ? (
+                <Flag className="absolute -top-1 -right-1 h-3 w-3 fill-orange-500 text-orange-500" />
+              ) : isAnswered && !isCurrent && (
+                <CheckCircle className="absolute -top-1 -right-1 h-3 w-3 text-green-500" />
+              )}
+            </Button>
+          );
+        })}
+      </div>
+      <div className="flex flex-wrap gap-4 text-xs text-muted-foreground" aria-hidden="true">
+        <span className="flex items-center gap-1">
+          <CheckCircle className="h-3 w-3 text-green-500" />
+          {t('questionPalette.answered')}
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded-sm border" />
+          {t('questionPalette.unanswered')}
+        </span>
+        <span className="flex items-center gap-1">
+          <Flag className="h-3 w-3 fill-orange-500 text-orange-500" />
+          {t('questionPalette.flagged')}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+interface FlagToggleProps {
+  flagged: boolean;
+  onToggle: () => void;
+}
+
+/**
+ * "Flag for review" button for the question on screen
+ */
+export function FlagToggle({ flagged, onToggle }: FlagToggleProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Button
+      variant={flagged ? 'secondary' : 'ghost'}
+      size="sm"
+      aria-pressed={flagged}
+      onClick={onToggle}
+      className={flagged ? 'text-orange-600' : ''}
+    >
+      <Flag className={`h-4 w-4 mr-2 ${flagged ? 'fill-orange-500' : ''}`} />
+      {t(flagged ? 'questionPalette.unflag' : 'questionPalette.flag')}
+    </Button>
+  );
+}
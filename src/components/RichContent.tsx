@@ -0,0 +1,105 @@
+import { Component, ReactNode, memo } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkBreaks from 'remark-breaks';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import 'katex/dist/katex.min.css';
+import { cn } from '@/lib/utils';
+
+// Malformed math is shown as its source in red instead of breaking the page
+const KATEX_OPTIONS = { throwOnError: false, strict: 'ignore', errorColor: '#dc2626' };
+
+/**
+ * Rewrite \( \) and \[ \] delimiters, common in AI answers, to the dollar
+ * form remark-math understands
+ */
+const normalizeMathDelimiters = (text: string) =>
+  text
+    .replace(/\\\[([\s\S]+?)\\\]/g, (_, math) => `$$${math}$$`)
+    .replace(/\\\(([\s\S]+?)\\\)/g, (_, math) => `$${math}$`);
+
+const BLOCK_COMPONENTS: Components = {
+  p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+  ul: ({ children }) => <ul className="mb-2 list-disc space-y-1 pl-5">{children}</ul>,
+  ol: ({ children }) => <ol className="mb-2 list-decimal space-y-1 pl-5">{children}</ol>,
+  h1: ({ children }) => <h3 className="mb-2 text-lg font-semibold">{children}</h3>,
+  h2: ({ children }) => <h4 className="mb-2 font-semibold">{children}</h4>,
+  h3: ({ children }) => <h5 className="mb-2 font-semibold">{children}</h5>,
+  blockquote: ({ children }) => <blockquote className="mb-2 border-l-4 pl-3 italic">{children}</blockquote>,
+  pre: ({ children }) => <pre className="mb-2 overflow-x-auto rounded-md bg-muted p-3 text-sm [&>code]:bg-transparent [&>code]:p-0">{children}</pre>,
+  code: ({ children }) => <code className="rounded bg-muted px-1 py-0.5 font-mono text-[0.9em]">{children}</code>,
+  table: ({ children }) => (
+    <div className="mb-2 overflow-x-auto">
+      <table className="w-full border-collapse text-sm">{children}</table>
+    </div>
+  ),
+  th: ({ children }) => <th className="border px-2 py-1 text-left font-semibold">{children}</th>,
+  td: ({ children }) => <td className="border px-2 py-1">{children}</td>,
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-primary underline underline-offset-2">
+      {children}
+    </a>
+  ),
+};
+
+// Inside headings, labels and buttons: no paragraph wrappers
+const INLINE_COMPONENTS: Components = {
+  ...BLOCK_COMPONENTS,
+  p: ({ children }) => <>{children}</>,
+};
+
+interface FallbackBoundaryProps {
+  fallback: ReactNode;
+  children: ReactNode;
+}
+
+class FallbackBoundary extends Component<FallbackBoundaryProps, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: unknown) {
+    console.warn('Failed to render rich content:', error);
+  }
+
+  render() {
+    return this.state.failed ? this.props.fallback : this.props.children;
+  }
+}
+
+interface RichContentProps {
+  content: string | null | undefined;
+  inline?: boolean; // Render inside an existing heading or label
+  className?: string;
+}
+
+/**
+ * Markdown with $inline$ and $$display$$ KaTeX math
+ *
+ * Single line breaks are kept, as most of our content was written as plain
+ * text. Raw HTML in the source is not rendered, and if rendering fails
+ * altogether the text is shown as it was written.
+ */
+export const RichContent = memo(function RichContent({ content, inline = false, className }: RichContentProps) {
+  if (!content) return null;
+
+  const Wrapper = inline ? 'span' : 'div';
+  const fallback = <Wrapper className={cn('whitespace-pre-wrap', className)}>{content}</Wrapper>;
+
+  return (
+    <FallbackBoundary key={content} fallback={fallback}>
+      <Wrapper className={cn('break-words', className)}>
+        <ReactMarkdown
+          remarkPlugins={[remarkGfm, remarkBreaks, remarkMath]}
+          rehypePlugins={[[rehypeKatex, KATEX_OPTIONS]]}
+          components={inline ? INLINE_COMPONENTS : BLOCK_COMPONENTS}
+        >
+          {normalizeMathDelimiters(content)}
+        </ReactMarkdown>
+      </Wrapper>
+    </FallbackBoundary>
+  );
+});
@@ -0,0 +1,105 @@
+import { useTranslation } from 'react-i18next';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useClassSections } from '@/hooks/useClassSections';
+
+// Dates are datetime-local values in the exam's timezone until the form is submitted
+export interface SectionOverrideDraft {
+  section_id: string;
+  available_from: string;
+  available_until: string;
+}
+
+interface SectionOverridesEditorProps {
+  value: SectionOverrideDraft[];
+  onChange: (overrides: SectionOverrideDraft[]) => void;
+  defaultFrom: string;
+  defaultUntil: string;
+}
+
+/**
+ * Per-section exam dates that replace the exam's own window for those students
+ */
+export function SectionOverridesEditor({ value, onChange, defaultFrom, defaultUntil }: SectionOverridesEditorProps) {
+  const { t } = useTranslation();
+  const { data: sections = [], isLoading } = useClassSections();
+
+  const usedIds = new Set(value.map(override => override.section_id));
+  const canAdd = sections.some(section => !usedIds.has(section.id.toString()));
+
+  const update = (index: number, changes: Partial<SectionOverrideDraft>) => {
+    onChange(value.map((override, i) => (i === index ? { ...override, ...changes } : override)));
+  };
+
+  const add = () => {
+    const section = sections.find(candidate => !usedIds.has(candidate.id.toString()));
+    if (!section) return;
+    onChange([...value, { section_id: section.id.toString(), available_from: defaultFrom, available_until: defaultUntil }]);
+  };
+
+  if (!isLoading && sections.length === 0) {
+    return <p className="text-xs text-muted-foreground">{t('examWindow.noSections')}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {value.map((override, index) => (
+        <div key={index} className="space-y-2 rounded-md border p-3">
+          <div className="flex items-center gap-2">
+            <Select value={override.section_id} onValueChange={(sectionId) => update(index, { section_id: sectionId })}>
+              <SelectTrigger className="flex-1" aria-label={t('examWindow.section')}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sections
+                  .filter(section => section.id.toString() === override.section_id || !usedIds.has(section.id.toString()))
+                  .map(section => (
+                    <SelectItem key={section.id} value={section.id.toString()}>{section.name}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              aria-label={t('examWindow.removeOverride')}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="grid gap-2 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor={`override-from-${index}`} className="text-xs">{t('exams.availableFrom')}</Label>
+              <Input
+                id={`override-from-${index}`}
+                type="datetime-local"
+                value={override.available_from}
+                onChange={(e) => update(index, { available_from: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`override-until-${index}`} className="text-xs">{t('exams.availableUntil')}</Label>
+              <Input
+                id={`override-until-${index}`}
+                type="datetime-local"
+                value={override.available_until}
+                onChange={(e) => update(index, { available_until: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" onClick={add} disabled={!canAdd}>
+        <Plus className="mr-2 h-4 w-4" />
+        {t('examWindow.addOverride')}
+      </Button>
+    </div>
+  );
+}
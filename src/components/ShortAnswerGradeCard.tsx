@@ -0,0 +1,156 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CheckCircle2, Loader2, Save, Sparkles } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { AnswerText } from '@/components/MathInput';
+import { AnswerGradeUpdate, AttemptGradeSummary, ShortAnswerResponse } from '@/types/exam';
+import { formatScoreAs20 } from '@/utils/scoreUtils';
+
+interface ShortAnswerGradeCardProps {
+  questionId: number;
+  response: ShortAnswerResponse;
+  maxPoints: number;
+  attempt?: AttemptGradeSummary;
+  suggesting: boolean;
+  saving: boolean;
+  onSuggest: () => void;
+  onSave: (grade: AnswerGradeUpdate) => void;
+}
+
+/**
+ * One student's short answer with its mark, partial credit allowed, and an optional AI suggestion
+ */
+export function ShortAnswerGradeCard({
+  questionId,
+  response,
+  maxPoints,
+  attempt,
+  suggesting,
+  saving,
+  onSuggest,
+  onSave,
+}: ShortAnswerGradeCardProps) {
+  const { t } = useTranslation();
+  const [points, setPoints] = useState('');
+  const [feedback, setFeedback] = useState('');
+
+  // Follow the saved mark, e.g. after saving or a refetch
+  useEffect(() => {
+    setPoints(response.points_awarded === null ? '' : String(response.points_awarded));
+    setFeedback(response.feedback ?? '');
+  }, [response.points_awarded, response.feedback]);
+
+  const value = parseFloat(points);
+  const valid = !isNaN(value) && value >= 0 && value <= maxPoints;
+  const dirty = points !== (response.points_awarded === null ? '' : String(response.points_awarded))
+    || feedback !== (response.feedback ?? '');
+  const suggestion = response.ai_suggestion;
+  const inputId = `points-${questionId}-${response.attempt_id}`;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex flex-wrap items-center justify-between gap-2 text-base">
+          <span>{response.student_name}</span>
+          <div className="flex items-center gap-2">
+            {response.points_awarded !== null && (
+              <Badge variant="secondary" className="flex items-center gap-1">
+                <CheckCircle2 className="h-3 w-3" />
+                {t('shortAnswerGrading.marked', { points: response.points_awarded, max: maxPoints })}
+              </Badge>
+            )}
+            {attempt && (
+              <Badge variant={attempt.passed ? 'default' : 'destructive'}>
+                {t('shortAnswerGrading.attemptTotal', {
+                  score: formatScoreAs20(attempt.percentage),
+                  status: attempt.passed ? t('shortAnswerGrading.passed') : t('shortAnswerGrading.failed'),
+                })}
+                {attempt.pending_questions > 0 && ` · ${t('shortAnswerGrading.pending', { count: attempt.pending_questions })}`}
+              </Badge>
+            )}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="rounded-md bg-muted/50 p-3 text-sm whitespace-pre-wrap">
+          {response.answer.trim() ? <AnswerText answer={response.answer} /> : (
+            <span className="italic text-muted-foreground">{t('shortAnswerGrading.noAnswer')}</span>
+          )}
+        </div>
+
+        {suggestion ? (
+          <div className="rounded-md border border-primary/30 bg-primary/5 p-3 text-sm space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="flex items-center gap-1 font-medium">
+                <Sparkles className="h-4 w-4 text-primary" />
+                {t('shortAnswerGrading.suggested', { points: suggestion.points, max: maxPoints })}
+              </span>
+              <Button type="button" variant="outline" size="sm" onClick={() => setPoints(String(suggestion.points))}>
+                {t('shortAnswerGrading.useSuggestion')}
+              </Button>
+            </div>
+            <p className="text-muted-foreground">{suggestion.rationale}</p>
+          </div>
+        ) : (
+          <Button type="button" variant="outline" size="sm" onClick={onSuggest} disabled={suggesting || !response.answer.trim()}>
+            {suggesting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+            {t('shortAnswerGrading.suggest')}
+          </Button>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-[auto_1fr]">
+          <div className="space-y-2">
+            <Label htmlFor={inputId}>{t('shortAnswerGrading.points', { max: maxPoints })}</Label>
+            <div className="flex items-center gap-1">
+              <Input
+                id={inputId}
+                type="number"
+                min="0"
+                max={maxPoints}
+                step="0.25"
+                value={points}
+                onChange={(e) => setPoints(e.target.value)}
+                aria-invalid={points !== '' && !valid}
+                className="w-24"
+              />
+              {[0, maxPoints / 2, maxPoints].map(preset => (
+                <Button key={preset} type="button" variant="ghost" size="sm" onClick={() => setPoints(String(preset))}>
+                  {preset}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`feedback-${questionId}-${response.attempt_id}`}>{t('shortAnswerGrading.feedback')}</Label>
+            <Textarea
+              id={`feedback-${questionId}-${response.attempt_id}`}
+              value={feedback}
+              onChange={(e) => setFeedback(e.target.value)}
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground">
+            {response.graded_by_name && t('shortAnswerGrading.gradedBy', { name: response.graded_by_name })}
+          </span>
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => onSave({ points: value, feedback: feedback.trim() || null })}
+            disabled={!valid || !dirty || saving}
+          >
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            {t('shortAnswerGrading.save')}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Sigma, Type } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { MathInput } from '@/components/MathInput';
+import { isMathAnswer, parseMathAnswer, serializeMathAnswer } from '@/utils/mathAnswer';
+
+interface ShortAnswerInputProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/**
+ * Written answer that can be given either as text or as a formula
+ *
+ * A formula is submitted in its serialized form (see utils/mathAnswer) so the
+ * grader can compare it symbolically.
+ */
+export function ShortAnswerInput({ id, value, onChange }: ShortAnswerInputProps) {
+  const { t } = useTranslation();
+  const [mode, setMode] = useState<'text' | 'math'>(isMathAnswer(value) ? 'math' : 'text');
+  // Kept across mode switches so a formula is not lost by a stray click
+  const [latex, setLatex] = useState(parseMathAnswer(value)?.latex ?? '');
+  const [text, setText] = useState(isMathAnswer(value) ? '' : value);
+
+  const switchMode = (next: 'text' | 'math') => {
+    setMode(next);
+    onChange(next === 'math' ? serializeMathAnswer(latex) : text);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2" role="group" aria-label={t('mathInput.answerMode')}>
+        <Button
+          type="button"
+          size="sm"
+          variant={mode === 'text' ? 'default' : 'outline'}
+          aria-pressed={mode === 'text'}
+          onClick={() => switchMode('text')}
+        >
+          <Type className="mr-1 h-4 w-4" />
+          {t('mathInput.textMode')}
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant={mode === 'math' ? 'default' : 'outline'}
+          aria-pressed={mode === 'math'}
+          onClick={() => switchMode('math')}
+        >
+          <Sigma className="mr-1 h-4 w-4" />
+          {t('mathInput.formulaMode')}
+        </Button>
+      </div>
+
+      {mode === 'math' ? (
+        <MathInput
+          id={id}
+          value={latex}
+          onChange={(next) => {
+            setLatex(next);
+            onChange(serializeMathAnswer(next));
+          }}
+        />
+      ) : (
+        <Textarea
+          id={id}
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            onChange(e.target.value);
+          }}
+          placeholder={t('mathInput.textPlaceholder')}
+          rows={4}
+        />
+      )}
+    </div>
+  );
+}
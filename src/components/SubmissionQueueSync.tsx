@@ -0,0 +1,37 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { submissionQueue } from '@/services/submissionQueue';
+
+/**
+ * Sends exams that were submitted offline and reports how it went
+ */
+export function SubmissionQueueSync() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+
+  // Mounted once per sign-in
+  useEffect(() => {
+    submissionQueue.start();
+  }, []);
+
+  useEffect(() => {
+    return submissionQueue.subscribe((outcome) => {
+      if (outcome.status === 'submitted') {
+        toast.success(t('offlineExam.queuedSubmitted'), {
+          action: {
+            label: t('offlineExam.viewResults'),
+            onClick: () => navigate(`/exam-results/${outcome.attemptId}`),
+          },
+        });
+      } else {
+        toast.error(outcome.detail || t('offlineExam.queuedRejected'), { duration: 10000 });
+      }
+    }, () => {
+      toast.error(t('offlineExam.queueStalled'), { id: 'submission-queue-stalled' });
+    });
+  }, [t, navigate]);
+
+  return null;
+}
@@ -0,0 +1,112 @@
+import { ReactNode } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CheckCircle2, CircleDashed, Flag } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+
+interface SubmitSummaryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  questionIds: number[];
+  answeredIds: Set<number>;
+  flaggedIds: Set<number>;
+  submitLabel: string;
+  onJump: (index: number) => void;
+  onConfirm: () => void;
+}
+
+/**
+ * Last look before submitting: which questions are unanswered or flagged, with links back to them
+ */
+export function SubmitSummaryDialog({
+  open,
+  onOpenChange,
+  questionIds,
+  answeredIds,
+  flaggedIds,
+  submitLabel,
+  onJump,
+  onConfirm,
+}: SubmitSummaryDialogProps) {
+  const { t } = useTranslation();
+
+  const unanswered = questionIds.flatMap((id, index) => (answeredIds.has(id) ? [] : [index]));
+  const flagged = questionIds.flatMap((id, index) => (flaggedIds.has(id) ? [index] : []));
+
+  const jumpTo = (index: number) => {
+    onOpenChange(false);
+    onJump(index);
+  };
+
+  const renderGroup = (title: string, indexes: number[], icon: ReactNode) => (
+    <div className="space-y-2">
+      <p className="flex items-center gap-2 text-sm font-medium">
+        {icon}
+        {title}
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {indexes.map(index => (
+          <Button
+            key={index}
+            variant="outline"
+            size="sm"
+            className="w-10 h-10"
+            aria-label={t('questionPalette.question', { number: index + 1 })}
+            onClick={() => jumpTo(index)}
+          >
+            {index + 1}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{t('questionPalette.summary.title')}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {t('questionPalette.summary.description', {
+              answered: questionIds.length - unanswered.length,
+              total: questionIds.length,
+            })}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-4">
+          {unanswered.length > 0 && renderGroup(
+            t('questionPalette.summary.unanswered', { count: unanswered.length }),
+            unanswered,
+            <CircleDashed className="h-4 w-4 text-muted-foreground" />
+          )}
+          {flagged.length > 0 && renderGroup(
+            t('questionPalette.summary.flagged', { count: flagged.length }),
+            flagged,
+            <Flag className="h-4 w-4 fill-orange-500 text-orange-500" />
+          )}
+          {unanswered.length === 0 && flagged.length === 0 && (
+            <p className="flex items-center gap-2 text-sm text-green-600 dark:text-green-400">
+              <CheckCircle2 className="h-4 w-4" />
+              {t('questionPalette.summary.allDone')}
+            </p>
+          )}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>{t('questionPalette.summary.keepWorking')}</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>{submitLabel}</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -1,12 +1,38 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
 import { authService } from '@/services/authService';
-import { User, UserRole } from '@/types/auth';
+import { ssoService } from '@/services/ssoService';
+import { impersonationService } from '@/services/impersonationService';
+import { setBlockedRequestHandler, setImpersonationEndedHandler, setSessionExpiredHandler } from '@/services/api';
+import { ImpersonationInfo, tokenStorage, USER_KEY } from '@/services/tokenStorage';
+import { sessionBus, SessionEvent } from '@/services/sessionBus';
+import { User, UserResponse, UserRole } from '@/types/auth';
+import { DEFAULT_ROLE_PERMISSIONS } from '@/lib/permissions';
+
+export type LoginStatus = 'success' | 'mfa_required' | 'error';
 
 interface AuthContextType {
   user: User | null;
-  login: (email: string, password: string) => Promise<boolean>;
+  login: (email: string, password: string) => Promise<LoginStatus>;
+  // Second login step after login() returned 'mfa_required'
+  verifyMfa: (code: string, isRecoveryCode?: boolean) => Promise<boolean>;
+  cancelMfa: () => void;
+  mfaPending: boolean;
+  loginWithSso: (callbackSearch: string) => Promise<LoginStatus>;
+  // Re-fetch the current user, e.g. after enrolling in 2FA
+  refreshUser: () => Promise<void>;
   logout: () => void;
   isLoading: boolean;
+  sessionExpired: boolean;
+  // Exam/quiz pages mark themselves active so session changes made in other
+  // tabs are held back (and idle sign-out is suspended) until the attempt is over
+  assessmentActive: boolean;
+  setAssessmentActive: (active: boolean) => void;
+  // Set while an admin is viewing the app as another user in this tab
+  impersonation: ImpersonationInfo | null;
+  startImpersonation: (userId: number, reason: string) => Promise<boolean>;
+  stopImpersonation: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -23,37 +49,172 @@ export const useAuth = () => {
 const mapRole = (backendRole: string): UserRole => {
   const roleLower = backendRole.toLowerCase();
   if (roleLower === 'teacher' || roleLower === 'instructor') return 'teacher';
+  if (roleLower === 'ta' || roleLower === 'teaching_assistant' || roleLower === 'assistant') return 'ta';
   if (roleLower === 'admin' || roleLower === 'administrator') return 'admin';
+  if (roleLower === 'guardian' || roleLower === 'parent') return 'guardian';
   return 'student';
 };
 
+// Helper to map backend user to frontend user
+const mapUser = (userResponse: UserResponse): User => {
+  // Custom roles carry the built-in role they extend
+  const role = mapRole(userResponse.base_role || userResponse.role);
+  return {
+    id: userResponse.id.toString(),
+    email: userResponse.email,
+    name: userResponse.name || `${userResponse.first_name || ''} ${userResponse.last_name || ''}`.trim() || userResponse.email.split('@')[0],
+    role,
+    roleName: userResponse.role,
+    permissions: userResponse.permissions ?? DEFAULT_ROLE_PERMISSIONS[role],
+    mfaEnabled: !!userResponse.mfa_enabled,
+    mfaRequired: !!userResponse.mfa_required,
+    sessionTimeout: userResponse.session_timeout,
+  };
+};
+
+// Whether switching from one user to another changes who is signed in or what they can see
+const isDifferentSession = (current: User | null, next: User | null) =>
+  current?.id !== next?.id ||
+  current?.role !== next?.role ||
+  JSON.stringify(current?.permissions) !== JSON.stringify(next?.permissions);
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { t } = useTranslation();
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [impersonation, setImpersonation] = useState<ImpersonationInfo | null>(null);
+  const userRef = useRef<User | null>(null);
+  const assessmentActiveRef = useRef(false);
+  const [assessmentActive, setAssessmentActiveState] = useState(false);
+  // Session change from another tab received during an exam, applied afterwards
+  const pendingSessionEventRef = useRef<SessionEvent | null>(null);
+
+  const applySessionEvent = useCallback((event: SessionEvent) => {
+    if (event.type === 'logout') {
+      tokenStorage.stopImpersonation();
+      setImpersonation(null);
+      setUser(null);
+      return;
+    }
+    // The impersonated user stays on screen; the admin session is re-read on exit
+    if (tokenStorage.isImpersonating()) {
+      return;
+    }
+    setUser(event.user);
+    setSessionExpired(false);
+  }, []);
+
+  useEffect(() => {
+    userRef.current = user;
+  }, [user]);
+
+  useEffect(() => {
+    return sessionBus.subscribe((event) => {
+      const changesSession = event.type === 'logout' || isDifferentSession(userRef.current, event.user);
+      if (!assessmentActiveRef.current || !changesSession) {
+        applySessionEvent(event);
+        return;
+      }
+
+      pendingSessionEventRef.current = event;
+      toast.warning(
+        event.type === 'logout' ? t('auth.otherTabLoggedOut') : t('auth.otherTabSessionChanged'),
+        { duration: 10000 }
+      );
+    });
+  }, [applySessionEvent, t]);
+
+  const setAssessmentActive = useCallback((active: boolean) => {
+    assessmentActiveRef.current = active;
+    setAssessmentActiveState(active);
+
+    if (active) {
+      // Keep using this tab's tokens even if another tab signs in as someone else
+      tokenStorage.pin();
+      return;
+    }
+
+    tokenStorage.unpin();
+    const pendingEvent = pendingSessionEventRef.current;
+    pendingSessionEventRef.current = null;
+    if (pendingEvent) {
+      applySessionEvent(pendingEvent);
+    }
+  }, [applySessionEvent]);
+
+  // Called by the API client only once a token refresh has failed
+  const handleSessionExpired = useCallback(() => {
+    setUser(null);
+    setSessionExpired(true);
+  }, []);
+
+  useEffect(() => {
+    setSessionExpiredHandler(handleSessionExpired);
+    return () => setSessionExpiredHandler(null);
+  }, [handleSessionExpired]);
+
+  // Switch back to the admin's own account once the scoped token is gone
+  const restoreAdminSession = useCallback(async () => {
+    setImpersonation(null);
+    try {
+      setUser(mapUser(await authService.getCurrentUser()));
+    } catch (error) {
+      // An expired admin session is handled by the API client
+      console.error('Failed to restore admin session:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    setImpersonationEndedHandler(() => {
+      toast.info(t('impersonation.expired'));
+      restoreAdminSession();
+    });
+    setBlockedRequestHandler(() => toast.error(t('impersonation.actionBlocked')));
+    return () => {
+      setImpersonationEndedHandler(null);
+      setBlockedRequestHandler(null);
+    };
+  }, [restoreAdminSession, t]);
 
   useEffect(() => {
     // Check for stored user session and token
     const initAuth = async () => {
-      const storedUser = localStorage.getItem('stemmentorat_user');
-      const token = localStorage.getItem('access_token');
+      const storedUser = localStorage.getItem(USER_KEY);
+      const token = tokenStorage.getAccessToken();
+
+      // Reload during impersonation: stay on the impersonated user
+      const storedImpersonation = tokenStorage.getImpersonation();
+      if (storedImpersonation) {
+        try {
+          setUser(mapUser(await authService.getCurrentUser()));
+          setImpersonation(storedImpersonation);
+          setIsLoading(false);
+          return;
+        } catch (error) {
+          console.error('Impersonation session no longer valid:', error);
+          tokenStorage.stopImpersonation();
+        }
+      }
 
       if (storedUser && token) {
         try {
           // Verify token is still valid by fetching current user
+          // (an expired access token is refreshed transparently by the API client)
           const userResponse = await authService.getCurrentUser();
-          const mappedUser: User = {
-            id: userResponse.id.toString(),
-            email: userResponse.email,
-            name: userResponse.name || `${userResponse.first_name || ''} ${userResponse.last_name || ''}`.trim() || userResponse.email.split('@')[0],
-            role: mapRole(userResponse.role),
-          };
+          const mappedUser = mapUser(userResponse);
           setUser(mappedUser);
-          localStorage.setItem('stemmentorat_user', JSON.stringify(mappedUser));
+          localStorage.setItem(USER_KEY, JSON.stringify(mappedUser));
+
+          // Role changed on the server since the other tabs last looked
+          if (isDifferentSession(JSON.parse(storedUser), mappedUser)) {
+            sessionBus.publish({ type: 'user-updated', user: mappedUser });
+          }
         } catch (error) {
           // Token invalid, clear storage
           console.error('Failed to restore session:', error);
-          localStorage.removeItem('stemmentorat_user');
-          localStorage.removeItem('access_token');
+          tokenStorage.clear();
           setUser(null);
         }
       }
@@ -63,38 +224,156 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     initAuth();
   }, []);
 
-  const login = async (email: string, password: string): Promise<boolean> => {
+  const startSession = (mappedUser: User) => {
+    setUser(mappedUser);
+    setSessionExpired(false);
+    setMfaToken(null);
+    localStorage.setItem(USER_KEY, JSON.stringify(mappedUser));
+    sessionBus.publish({ type: 'login', user: mappedUser });
+  };
+
+  const login = async (email: string, password: string): Promise<LoginStatus> => {
     setIsLoading(true);
 
     try {
-      const { token, user: userResponse } = await authService.login(email, password);
+      const result = await authService.login(email, password);
 
-      const mappedUser: User = {
-        id: userResponse.id.toString(),
-        email: userResponse.email,
-        name: userResponse.name || `${userResponse.first_name || ''} ${userResponse.last_name || ''}`.trim() || userResponse.email.split('@')[0],
-        role: mapRole(userResponse.role),
-      };
+      if (result.mfaRequired) {
+        setMfaToken(result.mfaToken);
+        setIsLoading(false);
+        return 'mfa_required';
+      }
 
-      setUser(mappedUser);
-      localStorage.setItem('stemmentorat_user', JSON.stringify(mappedUser));
+      startSession(mapUser(result.user));
       setIsLoading(false);
-      return true;
+      return 'success';
     } catch (error) {
       console.error('Login failed:', error);
       setIsLoading(false);
+      return 'error';
+    }
+  };
+
+  const verifyMfa = async (code: string, isRecoveryCode = false): Promise<boolean> => {
+    if (!mfaToken) return false;
+    setIsLoading(true);
+
+    try {
+      const result = await authService.verifyMfa(
+        isRecoveryCode ? { mfa_token: mfaToken, recovery_code: code } : { mfa_token: mfaToken, code }
+      );
+      startSession(mapUser(result.user));
+      setIsLoading(false);
+      return true;
+    } catch (error) {
+      console.error('MFA verification failed:', error);
+      setIsLoading(false);
       return false;
     }
   };
 
+  const cancelMfa = () => {
+    setMfaToken(null);
+  };
+
+  const refreshUser = async () => {
+    const mappedUser = mapUser(await authService.getCurrentUser());
+    setUser(mappedUser);
+    localStorage.setItem(USER_KEY, JSON.stringify(mappedUser));
+    sessionBus.publish({ type: 'user-updated', user: mappedUser });
+  };
+
+  // The backend maps the IdP's groups to a role; the ID token's claims aren't trusted here
+  const loginWithSso = async (callbackSearch: string): Promise<LoginStatus> => {
+    setIsLoading(true);
+
+    try {
+      const result = await ssoService.completeLogin(callbackSearch);
+
+      if (result.mfaRequired) {
+        setMfaToken(result.mfaToken);
+        setIsLoading(false);
+        return 'mfa_required';
+      }
+
+      startSession(mapUser(result.user));
+      setIsLoading(false);
+      return 'success';
+    } catch (error) {
+      console.error('SSO login failed:', error);
+      tokenStorage.clear();
+      setIsLoading(false);
+      return 'error';
+    }
+  };
+
+  const startImpersonation = async (userId: number, reason: string): Promise<boolean> => {
+    try {
+      const session = await impersonationService.start(userId, reason);
+      const info: ImpersonationInfo = {
+        sessionId: session.session_id,
+        userName: session.user.name || session.user.email,
+        userEmail: session.user.email,
+        expiresAt: session.expires_at,
+      };
+      // Only this tab switches; the admin stays signed in everywhere else
+      tokenStorage.startImpersonation(session.access_token, info);
+      setImpersonation(info);
+      setUser(mapUser(session.user));
+      return true;
+    } catch (error) {
+      console.error('Failed to start impersonation:', error);
+      return false;
+    }
+  };
+
+  const stopImpersonation = async () => {
+    const session = tokenStorage.getImpersonation();
+    tokenStorage.stopImpersonation();
+    if (session) {
+      impersonationService.end(session.sessionId).catch((error) => {
+        console.error('Failed to end impersonation session:', error);
+      });
+    }
+    await restoreAdminSession();
+  };
+
   const logout = () => {
-    authService.logout();
+    const session = tokenStorage.getImpersonation();
+    if (session) {
+      // Close the audit record with the admin's token before it is revoked
+      tokenStorage.stopImpersonation();
+      setImpersonation(null);
+      impersonationService.end(session.sessionId)
+        .catch((error) => console.error('Failed to end impersonation session:', error))
+        .finally(() => authService.logout());
+    } else {
+      authService.logout();
+    }
     setUser(null);
+    setSessionExpired(false);
+    sessionBus.publish({ type: 'logout' });
   };
 
   return (
-    <AuthContext.Provider value={{ user, login, logout, isLoading }}>
+    <AuthContext.Provider value={{
+      user,
+      login,
+      verifyMfa,
+      cancelMfa,
+      mfaPending: mfaToken !== null,
+      loginWithSso,
+      refreshUser,
+      logout,
+      isLoading,
+      sessionExpired,
+      assessmentActive,
+      setAssessmentActive,
+      impersonation,
+      startImpersonation,
+      stopImpersonation,
+    }}>
       {children}
     </AuthContext.Provider>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,44 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { accommodationService } from '@/services/accommodationService';
+import { AccommodationProfileUpdate } from '@/types/accommodations';
+
+/**
+ * Custom hook to fetch a student's accommodations profile
+ *
+ * @param studentId - Student to load; nothing is fetched while null
+ */
+export const useAccommodationProfile = (studentId: number | null) => {
+  return useQuery({
+    queryKey: ['accommodations', studentId],
+    queryFn: () => accommodationService.getProfile(studentId as number),
+    enabled: studentId !== null,
+  });
+};
+
+/**
+ * Custom hook to create or update a student's accommodations profile
+ */
+export const useSaveAccommodationProfile = (studentId: number) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (profile: AccommodationProfileUpdate) => accommodationService.saveProfile(studentId, profile),
+    onSuccess: (profile) => {
+      queryClient.setQueryData(['accommodations', studentId], profile);
+    },
+  });
+};
+
+/**
+ * Custom hook to remove a student's accommodations profile
+ */
+export const useRemoveAccommodationProfile = (studentId: number) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => accommodationService.removeProfile(studentId),
+    onSuccess: () => {
+      queryClient.setQueryData(['accommodations', studentId], null);
+    },
+  });
+};
@@ -0,0 +1,149 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { isAxiosError } from 'axios';
+import { answerStore, AttemptKind } from '@/lib/answerStore';
+import { examService } from '@/services/examService';
+import { quizService } from '@/services/quizService';
+import { SavedAnswer } from '@/types/exam';
+
+export type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'offline' | 'error';
+
+// Wait for the student to settle on an answer before sending it
+const DEBOUNCE_MS = 1000;
+
+const RETRY_MS = 10000;
+
+const SAVE_ANSWERS: Record<AttemptKind, (attemptId: number, answers: SavedAnswer[]) => Promise<void>> = {
+  exam: examService.saveAnswers,
+  quiz: quizService.saveAnswers,
+};
+
+/**
+ * Autosave answers of an open exam or quiz attempt
+ *
+ * Answers are written to IndexedDB immediately and sent to the backend after
+ * a short debounce. Anything not acknowledged yet is resent when the
+ * connection comes back or the attempt is reopened.
+ *
+ * Once an attempt's deadline has passed, only acknowledged answers count, so
+ * pages flush before submitting.
+ *
+ * @returns Save status for the indicator, `saveAnswer` to call on every change,
+ *   `flush` to send pending answers now, and `discard` to drop the local copy
+ *   after submitting
+ */
+export function useAnswerAutosave(kind: AttemptKind, attemptId: number | null) {
+  const [status, setStatus] = useState<AutosaveStatus>('idle');
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The save on its way to the server, if any; only one is sent at a time
+  const inFlightRef = useRef<Promise<void> | null>(null);
+  // Answers IndexedDB refused (e.g. private browsing); sent without a local copy
+  const unstoredRef = useRef<Map<number, string>>(new Map());
+
+  const sendPending = useCallback(async () => {
+    try {
+      const unsynced = await answerStore.getUnsynced(kind, attemptId).catch(() => []);
+      const unstored = new Map(unstoredRef.current);
+      const answers: SavedAnswer[] = [
+        ...unsynced.map(({ questionId, answer }) => ({ question_id: questionId, answer })),
+        ...Array.from(unstored, ([questionId, answer]) => ({ question_id: questionId, answer })),
+      ];
+
+      if (answers.length > 0) {
+        setStatus('saving');
+        await SAVE_ANSWERS[kind](attemptId, answers);
+        await answerStore.markSynced(unsynced);
+        unstored.forEach((answer, questionId) => {
+          if (unstoredRef.current.get(questionId) === answer) unstoredRef.current.delete(questionId);
+        });
+        setStatus('saved');
+      }
+    } catch (error) {
+      console.error('Failed to autosave answers:', error);
+      // No response means the request never reached the server
+      setStatus(isAxiosError(error) && !error.response ? 'offline' : 'error');
+    }
+  }, [kind, attemptId]);
+
+  /**
+   * Send every answer not yet acknowledged; resolves once the server has
+   * answered (or the save failed), including any save already in flight
+   */
+  const flush = useCallback(async () => {
+    if (!attemptId) return;
+    // Let the save on its way finish, then send whatever changed meanwhile
+    while (inFlightRef.current) {
+      await inFlightRef.current;
+    }
+    if (!navigator.onLine) {
+      setStatus('offline');
+      return;
+    }
+
+    const save = sendPending();
+    inFlightRef.current = save;
+    try {
+      await save;
+    } finally {
+      inFlightRef.current = null;
+    }
+  }, [attemptId, sendPending]);
+
+  const saveAnswer = useCallback(async (questionId: number, answer: string) => {
+    if (!attemptId) return;
+    setStatus(navigator.onLine ? 'saving' : 'offline');
+
+    try {
+      await answerStore.put({ kind, attemptId, questionId, answer, updatedAt: Date.now(), synced: false });
+      unstoredRef.current.delete(questionId);
+    } catch (error) {
+      console.warn('Failed to keep a local copy of the answer:', error);
+      unstoredRef.current.set(questionId, answer);
+    }
+
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      flush();
+    }, DEBOUNCE_MS);
+  }, [kind, attemptId, flush]);
+
+  const discard = useCallback(async () => {
+    if (!attemptId) return;
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+    unstoredRef.current.clear();
+    await answerStore.clear(kind, attemptId).catch(error => {
+      console.warn('Failed to clear saved answers:', error);
+    });
+  }, [kind, attemptId]);
+
+  // Reconcile whatever was left unsent (crash, reload, dropped connection)
+  useEffect(() => {
+    if (!attemptId) return;
+
+    const handleOffline = () => setStatus('offline');
+
+    flush();
+    window.addEventListener('online', flush);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', flush);
+      window.removeEventListener('offline', handleOffline);
+      // Send a pending change right away instead of dropping the debounce
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+        timerRef.current = null;
+        flush();
+      }
+    };
+  }, [attemptId, flush]);
+
+  useEffect(() => {
+    if (status !== 'error') return;
+    const retry = setTimeout(flush, RETRY_MS);
+    return () => clearTimeout(retry);
+  }, [status, flush]);
+
+  return { status, saveAnswer, flush, discard };
+}
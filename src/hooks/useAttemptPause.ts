@@ -0,0 +1,98 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { accommodationService, TimedAssessmentKind } from '@/services/accommodationService';
+import { AttemptAccommodations, PauseState } from '@/types/accommodations';
+
+interface UseAttemptPauseOptions {
+  kind: TimedAssessmentKind;
+  attemptId: number | null;
+  accommodations?: AttemptAccommodations | null;
+  serverNow?: () => number; // Server-corrected clock, when the page has one
+  onChange?: (state: PauseState) => void; // E.g. to pick up the moved deadline on resume
+}
+
+/**
+ * Rest breaks for students with a pause accommodation
+ *
+ * The server records each break and, for exams, moves the deadline back by
+ * its length on resume. A break that reaches the remaining budget is ended
+ * automatically.
+ *
+ * @returns Whether breaks are allowed, whether one is in progress, the break
+ *   time left in seconds (null for no limit), and pause/resume actions
+ */
+export function useAttemptPause({ kind, attemptId, accommodations, serverNow = Date.now, onChange }: UseAttemptPauseOptions) {
+  const [pausedAt, setPausedAt] = useState<number | null>(null); // Server time
+  const [pausedSeconds, setPausedSeconds] = useState(0); // Used by earlier breaks
+  const [now, setNow] = useState(() => serverNow());
+  const [pending, setPending] = useState(false);
+  const onChangeRef = useRef(onChange);
+  const autoResumedRef = useRef(false);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  // A reload during a break comes back paused
+  useEffect(() => {
+    if (!accommodations) return;
+    setPausedSeconds(accommodations.paused_seconds ?? 0);
+    setPausedAt(accommodations.paused_at ? new Date(accommodations.paused_at).getTime() : null);
+  }, [accommodations]);
+
+  const apply = useCallback((state: PauseState) => {
+    setPausedSeconds(state.paused_seconds);
+    setPausedAt(state.paused_at ? new Date(state.paused_at).getTime() : null);
+    onChangeRef.current?.(state);
+  }, []);
+
+  const pause = useCallback(async () => {
+    if (!attemptId || pending) return;
+    setPending(true);
+    try {
+      apply(await accommodationService.pauseAttempt(kind, attemptId));
+    } finally {
+      setPending(false);
+    }
+  }, [kind, attemptId, pending, apply]);
+
+  const resume = useCallback(async () => {
+    if (!attemptId || pending) return;
+    setPending(true);
+    try {
+      apply(await accommodationService.resumeAttempt(kind, attemptId));
+    } finally {
+      setPending(false);
+    }
+  }, [kind, attemptId, pending, apply]);
+
+  const paused = pausedAt !== null;
+  const budget = accommodations?.pause_budget_seconds ?? null;
+  const used = pausedSeconds + (paused ? Math.max(0, (now - pausedAt) / 1000) : 0);
+  const breakRemaining = budget === null ? null : Math.max(0, Math.floor(budget - used));
+
+  useEffect(() => {
+    if (!paused) return;
+    setNow(serverNow());
+    const interval = setInterval(() => setNow(serverNow()), 1000);
+    return () => clearInterval(interval);
+  }, [paused, serverNow]);
+
+  // End the break once the budget is used up; tried once per break, the server ends it too
+  useEffect(() => {
+    if (!paused) {
+      autoResumedRef.current = false;
+    } else if (breakRemaining === 0 && !autoResumedRef.current) {
+      autoResumedRef.current = true;
+      resume().catch(error => console.warn('Failed to end break:', error));
+    }
+  }, [paused, breakRemaining, resume]);
+
+  return {
+    canPause: !!accommodations?.allow_pause && (breakRemaining === null || breakRemaining > 0),
+    paused,
+    breakRemaining,
+    pending,
+    pause,
+    resume,
+  };
+}
@@ -0,0 +1,13 @@
+import { useQuery } from '@tanstack/react-query';
+import { examService } from '@/services/examService';
+
+/**
+ * Custom hook to fetch the class sections the teacher can schedule exams for
+ */
+export const useClassSections = () => {
+  return useQuery({
+    queryKey: ['exams', 'sections'],
+    queryFn: () => examService.getSections(),
+    staleTime: 5 * 60 * 1000,
+  });
+};
@@ -0,0 +1,31 @@
+import { keepPreviousData, useMutation, useQuery } from '@tanstack/react-query';
+import { examService } from '@/services/examService';
+import { questionService } from '@/services/questionService';
+import { ExamBlueprint } from '@/types/exam';
+
+/**
+ * Custom hook to fetch how many questions each Bloom level and difficulty has in the chosen chapters
+ *
+ * The previous counts stay on screen while a new chapter selection loads.
+ *
+ * @param chapterIds - Chapters the blueprint draws from; nothing is fetched while empty
+ */
+export const usePoolAvailability = (chapterIds: number[]) => {
+  const sortedIds = [...chapterIds].sort((a, b) => a - b);
+
+  return useQuery({
+    queryKey: ['question-pool', sortedIds],
+    queryFn: () => questionService.getPoolAvailability(sortedIds),
+    enabled: sortedIds.length > 0,
+    placeholderData: keepPreviousData,
+  });
+};
+
+/**
+ * Custom hook to draw a sample exam from a blueprint
+ */
+export const useBlueprintPreview = () => {
+  return useMutation({
+    mutationFn: (blueprint: ExamBlueprint) => examService.previewBlueprint(blueprint),
+  });
+};
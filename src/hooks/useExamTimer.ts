@@ -0,0 +1,107 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { examService } from '@/services/examService';
+
+const TICK_MS = 1000;
+
+// How often the countdown is corrected against the server clock
+const RESYNC_MS = 30000;
+
+interface UseExamTimerOptions {
+  attemptId: number | null;
+  deadline: string | null; // ISO timestamp from the start/resume response
+  serverTime?: string | null; // Server clock at the time of that response
+  paused?: boolean; // During a rest break; the server moves the deadline back on resume
+  onExpire: () => void;
+}
+
+/**
+ * Count down to a server-issued exam deadline
+ *
+ * The remaining time is recomputed from the wall clock on every tick, so a
+ * throttled background tab catches up as soon as it runs again. The offset
+ * between local and server clocks is re-measured periodically and whenever
+ * the tab becomes visible or the connection comes back. During a break the
+ * countdown is frozen and the clock is not synced.
+ *
+ * @returns Seconds left (0 once the deadline has passed), whether the deadline is known yet,
+ *   and the current server time as best known locally
+ */
+export function useExamTimer({ attemptId, deadline, serverTime, paused = false, onExpire }: UseExamTimerOptions) {
+  const [deadlineMs, setDeadlineMs] = useState<number | null>(null);
+  const [timeRemaining, setTimeRemaining] = useState(0);
+  const offsetRef = useRef(0); // Server time minus local time
+  const expiredRef = useRef(false);
+  const onExpireRef = useRef(onExpire);
+  const pausedRef = useRef(paused);
+
+  useEffect(() => {
+    onExpireRef.current = onExpire;
+    pausedRef.current = paused;
+  }, [onExpire, paused]);
+
+  useEffect(() => {
+    if (!deadline) return;
+    if (serverTime) {
+      offsetRef.current = new Date(serverTime).getTime() - Date.now();
+    }
+    setDeadlineMs(new Date(deadline).getTime());
+  }, [deadline, serverTime]);
+
+  useEffect(() => {
+    if (!attemptId) return;
+
+    const sync = async () => {
+      if (pausedRef.current) return;
+      const sentAt = Date.now();
+      try {
+        const clock = await examService.getClock(attemptId);
+        const receivedAt = Date.now();
+        // Assume the server read its clock halfway through the round trip
+        offsetRef.current = new Date(clock.server_time).getTime() - (sentAt + receivedAt) / 2;
+        setDeadlineMs(new Date(clock.deadline).getTime());
+      } catch (error) {
+        // Keep counting with the last known offset
+        console.warn('Failed to sync exam clock:', error);
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (!document.hidden) sync();
+    };
+
+    const interval = setInterval(sync, RESYNC_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('online', sync);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('online', sync);
+    };
+  }, [attemptId]);
+
+  useEffect(() => {
+    if (deadlineMs === null || paused) return;
+
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((deadlineMs - (Date.now() + offsetRef.current)) / 1000));
+      setTimeRemaining(remaining);
+
+      if (remaining > 0) {
+        // The deadline may have been extended after it passed
+        expiredRef.current = false;
+      } else if (!expiredRef.current) {
+        expiredRef.current = true;
+        onExpireRef.current();
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, TICK_MS);
+    return () => clearInterval(interval);
+  }, [deadlineMs, paused]);
+
+  const serverNow = useCallback(() => Date.now() + offsetRef.current, []);
+
+  return { timeRemaining, ready: deadlineMs !== null, serverNow };
+}
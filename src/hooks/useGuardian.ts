@@ -0,0 +1,52 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { guardianService } from '@/services/guardianService';
+import { GuardianDigestPreference } from '@/types/guardian';
+
+const DIGEST_QUERY_KEY = ['guardian', 'digest'];
+
+/**
+ * Custom hook to fetch the students linked to the signed-in guardian
+ */
+export const useLinkedStudents = () => {
+  return useQuery({
+    queryKey: ['guardian', 'students'],
+    queryFn: () => guardianService.getLinkedStudents(),
+  });
+};
+
+/**
+ * Custom hook to fetch the read-only overview of one linked student
+ *
+ * @param studentId - Linked student to show; nothing is fetched while null
+ */
+export const useStudentOverview = (studentId: number | null) => {
+  return useQuery({
+    queryKey: ['guardian', 'students', studentId, 'overview'],
+    queryFn: () => guardianService.getStudentOverview(studentId as number),
+    enabled: studentId !== null,
+  });
+};
+
+/**
+ * Custom hook to fetch whether the guardian receives the weekly digest
+ */
+export const useDigestPreference = () => {
+  return useQuery({
+    queryKey: DIGEST_QUERY_KEY,
+    queryFn: () => guardianService.getDigestPreference(),
+  });
+};
+
+/**
+ * Custom hook to opt in or out of the weekly digest
+ */
+export const useUpdateDigestPreference = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (preference: GuardianDigestPreference) => guardianService.updateDigestPreference(preference),
+    onSuccess: (preference) => {
+      queryClient.setQueryData(DIGEST_QUERY_KEY, preference);
+    },
+  });
+};
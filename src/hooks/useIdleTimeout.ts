@@ -0,0 +1,99 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+// Shared between tabs so activity in any tab keeps all of them alive
+const LAST_ACTIVITY_KEY = 'stemmentorat_last_activity';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll', 'wheel'];
+
+// Don't write to localStorage on every mouse move
+const ACTIVITY_THROTTLE_MS = 5000;
+
+interface UseIdleTimeoutOptions {
+  timeoutMs: number; // 0 disables the timeout
+  warningMs: number; // How long before the timeout the warning appears
+  keepAlive: boolean; // Treat the user as active regardless of input (e.g. during an exam)
+  onTimeout: () => void;
+}
+
+const readLastActivity = (): number => {
+  const stored = Number(localStorage.getItem(LAST_ACTIVITY_KEY));
+  return Number.isFinite(stored) && stored > 0 ? stored : Date.now();
+};
+
+const recordActivity = () => {
+  localStorage.setItem(LAST_ACTIVITY_KEY, String(Date.now()));
+};
+
+/**
+ * Track user activity and report when the idle limit is approaching
+ *
+ * @returns Whether the warning should be shown, seconds left, and a way to reset the timer
+ */
+export function useIdleTimeout({ timeoutMs, warningMs, keepAlive, onTimeout }: UseIdleTimeoutOptions) {
+  const [isWarning, setIsWarning] = useState(false);
+  const [remainingSeconds, setRemainingSeconds] = useState(0);
+  const lastWriteRef = useRef(0);
+  const warningRef = useRef(false);
+  const onTimeoutRef = useRef(onTimeout);
+
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+  }, [onTimeout]);
+
+  const stayActive = useCallback(() => {
+    recordActivity();
+    lastWriteRef.current = Date.now();
+    warningRef.current = false;
+    setIsWarning(false);
+  }, []);
+
+  useEffect(() => {
+    if (timeoutMs <= 0) return;
+
+    stayActive();
+
+    const handleActivity = () => {
+      // Once the warning is up, only an explicit "stay signed in" counts
+      if (warningRef.current) return;
+      if (Date.now() - lastWriteRef.current < ACTIVITY_THROTTLE_MS) return;
+      lastWriteRef.current = Date.now();
+      recordActivity();
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+
+    const interval = setInterval(() => {
+      if (keepAlive) {
+        handleActivity();
+        return;
+      }
+
+      const remaining = readLastActivity() + timeoutMs - Date.now();
+
+      if (remaining <= 0) {
+        clearInterval(interval);
+        warningRef.current = false;
+        setIsWarning(false);
+        onTimeoutRef.current();
+        return;
+      }
+
+      // Activity in another tab pushes the deadline back and dismisses the warning
+      const shouldWarn = remaining <= warningMs;
+      if (shouldWarn !== warningRef.current) {
+        warningRef.current = shouldWarn;
+        setIsWarning(shouldWarn);
+      }
+      if (shouldWarn) {
+        setRemainingSeconds(Math.ceil(remaining / 1000));
+      }
+    }, 1000);
+
+    return () => {
+      clearInterval(interval);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+    };
+  }, [timeoutMs, warningMs, keepAlive, stayActive]);
+
+  return { isWarning, remainingSeconds, stayActive };
+}
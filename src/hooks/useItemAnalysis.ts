@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { itemAnalysisService } from '@/services/itemAnalysisService';
+import { AssessmentKind } from '@/types/itemAnalysis';
+import { analyzeItems } from '@/utils/itemAnalysis';
+
+/**
+ * Custom hook to fetch an assessment's responses and compute per-question statistics
+ */
+export const useItemAnalysis = (kind: AssessmentKind, assessmentId: number) => {
+  const query = useQuery({
+    queryKey: ['item-analysis', kind, assessmentId],
+    queryFn: () => itemAnalysisService.getItemResponses(kind, assessmentId),
+  });
+
+  const items = useMemo(() => (query.data ? analyzeItems(query.data) : []), [query.data]);
+
+  return { ...query, items };
+};
@@ -0,0 +1,36 @@
+import { useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Permission } from '@/lib/permissions';
+
+/**
+ * Custom hook to check the signed-in user's permissions
+ *
+ * @returns `can(permission)` and `canAny(permissions)` helpers
+ */
+export const usePermissions = () => {
+  const { user } = useAuth();
+  const permissions = user?.permissions;
+
+  const can = useCallback(
+    (permission: Permission) => !!permissions?.includes(permission),
+    [permissions]
+  );
+
+  const canAny = useCallback(
+    (required: Permission[]) => required.some((permission) => !!permissions?.includes(permission)),
+    [permissions]
+  );
+
+  return { can, canAny };
+};
+
+/**
+ * Custom hook to check a single permission
+ *
+ * @param permission - Permission key, e.g. 'submissions.grade'
+ * @returns Whether the signed-in user has it
+ */
+export const usePermission = (permission: Permission) => {
+  const { can } = usePermissions();
+  return can(permission);
+};
@@ -0,0 +1,257 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { proctoringService } from '@/services/proctoringService';
+import { FlagReviewRequest, ProctoringEvent, ProctoringEventType } from '@/types/proctoring';
+
+const FLUSH_INTERVAL_MS = 10000;
+const MAX_BATCH = 50;
+
+// Docked devtools shrink the viewport by at least this much
+const DEVTOOLS_GAP_PX = 160;
+const DEVTOOLS_CHECK_MS = 2000;
+
+// Events that count against the student; the rest only add context to the timeline
+export const VIOLATION_EVENTS: ProctoringEventType[] = [
+  'tab_hidden',
+  'fullscreen_exit',
+  'copy',
+  'cut',
+  'paste',
+  'context_menu',
+  'devtools_open',
+  'multiple_displays',
+];
+
+interface UseProctoringOptions {
+  attemptId: number | null;
+  enabled: boolean; // Strict mode
+  questionId?: number; // Question currently on screen
+  serverNow: () => number;
+  onViolation?: (type: ProctoringEventType) => void;
+}
+
+/**
+ * Record a proctoring event stream for a strict-mode exam attempt
+ *
+ * Tab and window focus changes are logged with how long the student was
+ * away; clipboard and context-menu attempts are blocked and logged. Devtools
+ * detection is a heuristic (docked devtools shrink the viewport) and may
+ * miss undocked ones. Events are batched to the backend every few seconds
+ * and kept in memory while the connection is down.
+ *
+ * @returns `flush` to send buffered events immediately (e.g. before submitting)
+ */
+export function useProctoring({ attemptId, enabled, questionId, serverNow, onViolation }: UseProctoringOptions) {
+  const bufferRef = useRef<ProctoringEvent[]>([]);
+  // The batch on its way to the server, if any; resolves to whether it was accepted
+  const inFlightRef = useRef<Promise<boolean> | null>(null);
+  const questionIdRef = useRef(questionId);
+  const serverNowRef = useRef(serverNow);
+  const onViolationRef = useRef(onViolation);
+
+  useEffect(() => {
+    questionIdRef.current = questionId;
+    serverNowRef.current = serverNow;
+    onViolationRef.current = onViolation;
+  }, [questionId, serverNow, onViolation]);
+
+  const sendBatch = useCallback(async (): Promise<boolean> => {
+    const batch = bufferRef.current.splice(0, MAX_BATCH);
+    try {
+      await proctoringService.sendEvents(attemptId, batch);
+      return true;
+    } catch (error) {
+      // Put them back in order for the next try
+      bufferRef.current.unshift(...batch);
+      console.warn('Failed to send proctoring events:', error);
+      return false;
+    }
+  }, [attemptId]);
+
+  /**
+   * Send everything buffered, one batch at a time; resolves once the buffer is
+   * empty or a batch failed, including any batch already in flight
+   */
+  const flush = useCallback(async () => {
+    if (!attemptId) return;
+
+    for (;;) {
+      while (inFlightRef.current) {
+        await inFlightRef.current;
+      }
+      if (bufferRef.current.length === 0) return;
+
+      const send = sendBatch();
+      inFlightRef.current = send;
+      const sent = await send;
+      inFlightRef.current = null;
+      if (!sent) return;
+    }
+  }, [attemptId, sendBatch]);
+
+  useEffect(() => {
+    if (!enabled || !attemptId) return;
+
+    const record = (type: ProctoringEventType, extra: Partial<ProctoringEvent> = {}) => {
+      bufferRef.current.push({
+        type,
+        occurred_at: new Date(serverNowRef.current()).toISOString(),
+        question_id: questionIdRef.current,
+        ...extra,
+      });
+      if (VIOLATION_EVENTS.includes(type)) {
+        onViolationRef.current?.(type);
+      }
+      if (bufferRef.current.length >= MAX_BATCH) {
+        flush();
+      }
+    };
+
+    let hiddenAt: number | null = null;
+    let blurredAt: number | null = null;
+    let devtoolsOpen = false;
+    let multipleDisplays = false;
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        hiddenAt = Date.now();
+        record('tab_hidden');
+      } else if (hiddenAt !== null) {
+        record('tab_visible', { duration_ms: Date.now() - hiddenAt });
+        hiddenAt = null;
+      }
+    };
+
+    const handleBlur = () => {
+      blurredAt = Date.now();
+      record('window_blur');
+    };
+
+    const handleFocus = () => {
+      if (blurredAt === null) return;
+      record('window_focus', { duration_ms: Date.now() - blurredAt });
+      blurredAt = null;
+    };
+
+    const handleFullscreenChange = () => {
+      record(document.fullscreenElement ? 'fullscreen_enter' : 'fullscreen_exit');
+    };
+
+    const blockAndRecord = (type: ProctoringEventType) => (event: Event) => {
+      event.preventDefault();
+      record(type);
+    };
+    const handleCopy = blockAndRecord('copy');
+    const handleCut = blockAndRecord('cut');
+    const handlePaste = blockAndRecord('paste');
+    const handleContextMenu = blockAndRecord('context_menu');
+
+    const checkDevtools = () => {
+      const widthGap = window.outerWidth - window.innerWidth;
+      const heightGap = window.outerHeight - window.innerHeight;
+      const open = widthGap > DEVTOOLS_GAP_PX || heightGap > DEVTOOLS_GAP_PX;
+      if (open === devtoolsOpen) return;
+      devtoolsOpen = open;
+      record(open ? 'devtools_open' : 'devtools_closed', { details: { width_gap: widthGap, height_gap: heightGap } });
+    };
+
+    // Window Management API; only Chromium browsers report this
+    const screenInfo = window.screen as Screen & Partial<EventTarget> & { isExtended?: boolean };
+    const checkDisplays = () => {
+      const extended = !!screenInfo.isExtended;
+      if (extended && !multipleDisplays) {
+        record('multiple_displays');
+      }
+      multipleDisplays = extended;
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('cut', handleCut);
+    document.addEventListener('paste', handlePaste);
+    document.addEventListener('contextmenu', handleContextMenu);
+    window.addEventListener('blur', handleBlur);
+    window.addEventListener('focus', handleFocus);
+    window.addEventListener('resize', checkDevtools);
+    window.addEventListener('pagehide', flush);
+    screenInfo.addEventListener?.('change', checkDisplays);
+
+    checkDevtools();
+    checkDisplays();
+    const devtoolsInterval = setInterval(checkDevtools, DEVTOOLS_CHECK_MS);
+    const flushInterval = setInterval(flush, FLUSH_INTERVAL_MS);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('cut', handleCut);
+      document.removeEventListener('paste', handlePaste);
+      document.removeEventListener('contextmenu', handleContextMenu);
+      window.removeEventListener('blur', handleBlur);
+      window.removeEventListener('focus', handleFocus);
+      window.removeEventListener('resize', checkDevtools);
+      window.removeEventListener('pagehide', flush);
+      screenInfo.removeEventListener?.('change', checkDisplays);
+      clearInterval(devtoolsInterval);
+      clearInterval(flushInterval);
+      flush();
+    };
+  }, [enabled, attemptId, flush]);
+
+  return { flush };
+}
+
+/**
+ * Custom hook to fetch the proctoring event log of an attempt
+ *
+ * @param attemptId - Attempt to load; nothing is fetched while null
+ */
+export const useProctoringTimeline = (attemptId: number | null) => {
+  return useQuery({
+    queryKey: ['proctoring', attemptId],
+    queryFn: () => proctoringService.getTimeline(attemptId as number),
+    enabled: attemptId !== null,
+  });
+};
+
+/**
+ * Custom hook to fetch the autosaved answer changes of an attempt
+ *
+ * @param attemptId - Attempt to load; nothing is fetched while null
+ */
+export const useAnswerHistory = (attemptId: number | null) => {
+  return useQuery({
+    queryKey: ['proctoring', attemptId, 'answers'],
+    queryFn: () => proctoringService.getAnswerHistory(attemptId as number),
+    enabled: attemptId !== null,
+  });
+};
+
+/**
+ * Custom hook to fetch the flag decisions recorded on an attempt
+ *
+ * @param attemptId - Attempt to load; nothing is fetched while null
+ */
+export const useFlagReviews = (attemptId: number | null) => {
+  return useQuery({
+    queryKey: ['proctoring', attemptId, 'flag-reviews'],
+    queryFn: () => proctoringService.getFlagReviews(attemptId as number),
+    enabled: attemptId !== null,
+  });
+};
+
+/**
+ * Custom hook to confirm or clear the flag of an attempt
+ */
+export const useReviewFlag = (attemptId: number) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (review: FlagReviewRequest) => proctoringService.reviewFlag(attemptId, review),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['proctoring', attemptId, 'flag-reviews'] });
+    },
+  });
+};
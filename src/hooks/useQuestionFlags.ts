@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AttemptKind } from '@/lib/answerStore';
+
+const storageKey = (kind: AttemptKind, attemptId: number) => `stemmentorat_flagged_questions_${kind}_${attemptId}`;
+
+const readFlags = (kind: AttemptKind, attemptId: number | null): Set<number> => {
+  if (!attemptId) return new Set();
+  try {
+    const stored = localStorage.getItem(storageKey(kind, attemptId));
+    return new Set(stored ? (JSON.parse(stored) as number[]) : []);
+  } catch {
+    return new Set();
+  }
+};
+
+/**
+ * Questions the student flagged for review during an attempt
+ *
+ * Flags are only a reminder for the student, so they stay on this device;
+ * they survive a reload or a resumed attempt but are never sent to the backend.
+ *
+ * @returns The flagged question ids, `toggle` to flag or unflag one,
+ *   and `clear` to forget them after submitting
+ */
+export function useQuestionFlags(kind: AttemptKind, attemptId: number | null) {
+  const [flagged, setFlagged] = useState<Set<number>>(() => readFlags(kind, attemptId));
+
+  useEffect(() => {
+    setFlagged(readFlags(kind, attemptId));
+  }, [kind, attemptId]);
+
+  const toggle = useCallback((questionId: number) => {
+    setFlagged(prev => {
+      const next = new Set(prev);
+      if (next.has(questionId)) {
+        next.delete(questionId);
+      } else {
+        next.add(questionId);
+      }
+      if (attemptId) {
+        localStorage.setItem(storageKey(kind, attemptId), JSON.stringify(Array.from(next)));
+      }
+      return next;
+    });
+  }, [kind, attemptId]);
+
+  const clear = useCallback(() => {
+    setFlagged(new Set());
+    if (attemptId) localStorage.removeItem(storageKey(kind, attemptId));
+  }, [kind, attemptId]);
+
+  return { flagged, toggle, clear };
+}
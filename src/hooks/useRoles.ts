@@ -0,0 +1,60 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { roleService } from '@/services/roleService';
+import { RoleInput } from '@/types/roles';
+
+const ROLES_QUERY_KEY = ['roles'];
+
+/**
+ * Custom hook to fetch all built-in and custom roles
+ *
+ * @param enabled - Only fetch when true (the endpoint is admin-only)
+ */
+export const useRoles = (enabled = true) => {
+  return useQuery({
+    queryKey: ROLES_QUERY_KEY,
+    queryFn: () => roleService.getRoles(),
+    enabled,
+  });
+};
+
+/**
+ * Custom hook to create a role
+ */
+export const useCreateRole = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (role: RoleInput) => roleService.createRole(role),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ROLES_QUERY_KEY });
+    },
+  });
+};
+
+/**
+ * Custom hook to update a role's name, description or permissions
+ */
+export const useUpdateRole = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, role }: { id: number; role: Partial<RoleInput> }) => roleService.updateRole(id, role),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ROLES_QUERY_KEY });
+    },
+  });
+};
+
+/**
+ * Custom hook to delete a custom role
+ */
+export const useDeleteRole = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: number) => roleService.deleteRole(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ROLES_QUERY_KEY });
+    },
+  });
+};
@@ -0,0 +1,169 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { settingsService } from '@/services/settingsService';
+import { SettingsBySection, SettingsErrors, SettingsSection, validateSettings } from '@/lib/settingsSchema';
+
+const settingsQueryKey = (section: SettingsSection) => ['settings', section];
+
+const SETTINGS_AUDIT_QUERY_KEY = ['settings', 'audit'];
+
+/**
+ * Custom hook to fetch and cache one section of the persisted settings
+ *
+ * @param section - Settings section to load
+ * @returns Query object with the section's settings, loading state, and error
+ */
+export const useSettingsSection = <S extends SettingsSection>(section: S) => {
+  return useQuery({
+    queryKey: settingsQueryKey(section),
+    queryFn: () => settingsService.getSection(section),
+  });
+};
+
+/**
+ * Custom hook to save changes to one settings section
+ *
+ * The cache is updated optimistically and rolled back if the backend rejects
+ * the change.
+ */
+export const useUpdateSettingsSection = <S extends SettingsSection>(section: S) => {
+  const queryClient = useQueryClient();
+  const queryKey = settingsQueryKey(section);
+
+  return useMutation({
+    mutationFn: (changes: Partial<SettingsBySection[S]>) => settingsService.updateSection(section, changes),
+    onMutate: async (changes) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<SettingsBySection[S]>(queryKey);
+      if (previous) {
+        queryClient.setQueryData<SettingsBySection[S]>(queryKey, { ...previous, ...changes });
+      }
+      return { previous };
+    },
+    onError: (_error, _changes, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous);
+      }
+    },
+    onSuccess: (settings) => {
+      queryClient.setQueryData(queryKey, settings);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: SETTINGS_AUDIT_QUERY_KEY });
+    },
+  });
+};
+
+/**
+ * Custom hook to fetch the settings change history
+ */
+export const useSettingsAuditLog = (limit = 50) => {
+  return useQuery({
+    queryKey: [...SETTINGS_AUDIT_QUERY_KEY, limit],
+    queryFn: () => settingsService.getAuditLog(limit),
+  });
+};
+
+/**
+ * Editable copy of one settings section with validation
+ *
+ * The draft is seeded from the server once; later cache updates (including the
+ * optimistic ones) don't overwrite fields the admin is still editing.
+ *
+ * @param section - Settings section to edit
+ * @param defaults - Values shown until the server responds
+ */
+export const useSettingsDraft = <S extends SettingsSection>(section: S, defaults: SettingsBySection[S]) => {
+  const { data: saved, isLoading } = useSettingsSection(section);
+  const mutation = useUpdateSettingsSection(section);
+  const [draft, setDraft] = useState<SettingsBySection[S]>(defaults);
+  const [errors, setErrors] = useState<SettingsErrors>({});
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    if (saved && !loaded) {
+      setDraft(saved);
+      setLoaded(true);
+    }
+  }, [saved, loaded]);
+
+  const update = useCallback((changes: Partial<SettingsBySection[S]>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    // Editing a field clears its error until the next save attempt
+    setErrors(prev => {
+      const next = { ...prev };
+      Object.keys(changes).forEach(field => delete next[field]);
+      return next;
+    });
+  }, []);
+
+  const getChanges = (): Partial<SettingsBySection[S]> => {
+    const changes: Partial<SettingsBySection[S]> = {};
+    (Object.keys(draft) as (keyof SettingsBySection[S])[]).forEach(field => {
+      if (JSON.stringify(draft[field]) !== JSON.stringify(saved?.[field])) {
+        changes[field] = draft[field];
+      }
+    });
+    return changes;
+  };
+
+  /**
+   * Validate and save all changed fields
+   *
+   * Refused until the saved values have loaded: compared with nothing, every
+   * default would count as a change and overwrite the server's settings.
+   *
+   * @returns false if the section isn't loaded, or validation or the request failed
+   */
+  const save = async (): Promise<boolean> => {
+    if (!loaded) return false;
+
+    const validationErrors = validateSettings(section, draft);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return false;
+
+    const changes = getChanges();
+    if (Object.keys(changes).length === 0) return true;
+
+    try {
+      await mutation.mutateAsync(changes);
+      return true;
+    } catch (error) {
+      console.error(`Error saving ${section} settings:`, error);
+      return false;
+    }
+  };
+
+  /**
+   * Apply and save a change immediately (used by toggles), reverting it on failure
+   */
+  const saveNow = async (changes: Partial<SettingsBySection[S]>): Promise<boolean> => {
+    const previous = { ...draft };
+    update(changes);
+    try {
+      await mutation.mutateAsync(changes);
+      return true;
+    } catch (error) {
+      console.error(`Error saving ${section} settings:`, error);
+      setDraft(prev => {
+        const reverted = { ...prev };
+        (Object.keys(changes) as (keyof SettingsBySection[S])[]).forEach(field => {
+          reverted[field] = previous[field];
+        });
+        return reverted;
+      });
+      return false;
+    }
+  };
+
+  return {
+    draft,
+    errors,
+    loaded,
+    isLoading,
+    isSaving: mutation.isPending,
+    update,
+    save,
+    saveNow,
+  };
+};
@@ -0,0 +1,80 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { examService } from '@/services/examService';
+import { AnswerGradeUpdate, ShortAnswerGradingData, ShortAnswerResponse } from '@/types/exam';
+
+interface AnswerRef {
+  attemptId: number;
+  questionId: number;
+}
+
+const gradingKey = (examId: number) => ['exams', examId, 'short-answer-grading'];
+
+// Copy of the grading data with one student's answer changed
+const updateResponse = (
+  data: ShortAnswerGradingData,
+  { attemptId, questionId }: AnswerRef,
+  changes: Partial<ShortAnswerResponse>
+): ShortAnswerGradingData => ({
+  ...data,
+  questions: data.questions.map(question =>
+    question.question_id !== questionId
+      ? question
+      : {
+          ...question,
+          responses: question.responses.map(response =>
+            response.attempt_id === attemptId ? { ...response, ...changes } : response
+          ),
+        }
+  ),
+});
+
+/**
+ * Custom hook to fetch an exam's short-answer questions with every student's answer
+ */
+export const useShortAnswerGrading = (examId: number) => {
+  return useQuery({
+    queryKey: gradingKey(examId),
+    queryFn: () => examService.getShortAnswerGrading(examId),
+  });
+};
+
+/**
+ * Custom hook to ask the AI for a suggested mark; the suggestion is kept on the answer
+ */
+export const useSuggestAnswerGrade = (examId: number) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ attemptId, questionId }: AnswerRef) => examService.suggestAnswerGrade(attemptId, questionId),
+    onSuccess: (suggestion, ref) => {
+      queryClient.setQueryData<ShortAnswerGradingData>(gradingKey(examId), data =>
+        data && updateResponse(data, ref, { ai_suggestion: suggestion })
+      );
+    },
+  });
+};
+
+/**
+ * Custom hook to mark one answer and pick up the recalculated attempt total
+ */
+export const useGradeAnswer = (examId: number) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ attemptId, questionId, grade }: AnswerRef & { grade: AnswerGradeUpdate }) =>
+      examService.gradeAnswer(attemptId, questionId, grade),
+    onSuccess: (summary, { attemptId, questionId, grade }) => {
+      queryClient.setQueryData<ShortAnswerGradingData>(gradingKey(examId), data => {
+        if (!data) return data;
+        const updated = updateResponse(data, { attemptId, questionId }, {
+          points_awarded: grade.points,
+          feedback: grade.feedback,
+        });
+        return {
+          ...updated,
+          attempts: updated.attempts.map(attempt => (attempt.attempt_id === attemptId ? summary : attempt)),
+        };
+      });
+    },
+  });
+};
@@ -0,0 +1,91 @@
+/**
+ * IndexedDB write-ahead log for exam and quiz answers
+ *
+ * Every answer is written here before it is sent to the backend, so a crash
+ * or a dropped connection never loses more than the request in flight.
+ */
+
+import { ANSWERS_BY_ATTEMPT, ANSWERS_STORE, openDb, promisify, withStore } from './offlineDb';
+
+export type AttemptKind = 'exam' | 'quiz';
+
+export interface StoredAnswer {
+  kind: AttemptKind;
+  attemptId: number;
+  questionId: number;
+  answer: string;
+  updatedAt: number; // Local timestamp of the last change
+  synced: boolean; // Whether the backend has acknowledged this version
+}
+
+export const answerStore = {
+  async put(answer: StoredAnswer): Promise<void> {
+    await withStore(ANSWERS_STORE, 'readwrite', store => store.put(answer));
+  },
+
+  async getAll(kind: AttemptKind, attemptId: number): Promise<StoredAnswer[]> {
+    return withStore(ANSWERS_STORE, 'readonly', store => store.index(ANSWERS_BY_ATTEMPT).getAll([kind, attemptId]));
+  },
+
+  async getUnsynced(kind: AttemptKind, attemptId: number): Promise<StoredAnswer[]> {
+    const answers = await answerStore.getAll(kind, attemptId);
+    return answers.filter(answer => !answer.synced);
+  },
+
+  /**
+   * Mark answers as acknowledged, unless they changed again while the request was in flight
+   */
+  async markSynced(sent: StoredAnswer[]): Promise<void> {
+    const db = await openDb();
+    const store = db.transaction(ANSWERS_STORE, 'readwrite').objectStore(ANSWERS_STORE);
+    await Promise.all(sent.map(async (answer) => {
+      const current = await promisify<StoredAnswer | undefined>(
+        store.get([answer.kind, answer.attemptId, answer.questionId])
+      );
+      if (current && current.updatedAt === answer.updatedAt) {
+        await promisify(store.put({ ...current, synced: true }));
+      }
+    }));
+  },
+
+  /**
+   * Merge the answers the backend has with any newer ones that never reached it
+   *
+   * With no server answers (resuming offline) every local answer is used.
+   * @returns Answers keyed by question id
+   */
+  async restore(
+    kind: AttemptKind,
+    attemptId: number,
+    serverAnswers: { question_id: number; answer: string }[] = []
+  ): Promise<Record<number, string>> {
+    const restored: Record<number, string> = {};
+    serverAnswers.forEach(({ question_id, answer }) => {
+      restored[question_id] = answer;
+    });
+
+    try {
+      const local = await answerStore.getAll(kind, attemptId);
+      local.forEach(({ questionId, answer, synced }) => {
+        if (!synced || !(questionId in restored)) {
+          restored[questionId] = answer;
+        }
+      });
+    } catch (error) {
+      console.warn('Failed to read locally saved answers:', error);
+    }
+    return restored;
+  },
+
+  /**
+   * Forget an attempt once it has been submitted
+   */
+  async clear(kind: AttemptKind, attemptId: number): Promise<void> {
+    const answers = await answerStore.getAll(kind, attemptId);
+    const db = await openDb();
+    const store = db.transaction(ANSWERS_STORE, 'readwrite').objectStore(ANSWERS_STORE);
+    await Promise.all(answers.map(answer =>
+      promisify(store.delete([answer.kind, answer.attemptId, answer.questionId]))
+    ));
+  },
+};
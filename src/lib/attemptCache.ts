@@ -0,0 +1,28 @@
+/**
+ * Started exams kept on the device so they can be resumed without a connection
+ */
+import { ExamAttemptSession } from '@/types/exam';
+import { ATTEMPTS_BY_EXAM, ATTEMPTS_STORE, withStore } from './offlineDb';
+
+export const attemptCache = {
+  async save(session: ExamAttemptSession): Promise<void> {
+    await withStore(ATTEMPTS_STORE, 'readwrite', store => store.put(session));
+  },
+
+  /**
+   * Most recent cached attempt at an exam
+   */
+  async getForExam(examId: number): Promise<ExamAttemptSession | null> {
+    const sessions = await withStore<ExamAttemptSession[]>(
+      ATTEMPTS_STORE,
+      'readonly',
+      store => store.index(ATTEMPTS_BY_EXAM).getAll(examId)
+    );
+    if (sessions.length === 0) return null;
+    return sessions.reduce((latest, session) => (session.attempt_id > latest.attempt_id ? session : latest));
+  },
+
+  async remove(attemptId: number): Promise<void> {
+    await withStore(ATTEMPTS_STORE, 'readwrite', store => store.delete(attemptId));
+  },
+};
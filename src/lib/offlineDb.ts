@@ -0,0 +1,64 @@
+/**
+ * IndexedDB database backing offline exam and quiz taking
+ */
+
+const DB_NAME = 'stemmentorat_offline';
+const DB_VERSION = 2;
+
+export const ANSWERS_STORE = 'answers';
+export const ATTEMPTS_STORE = 'attempts';
+export const SUBMISSIONS_STORE = 'submissions';
+
+// Index of ANSWERS_STORE by [kind, attemptId]
+export const ANSWERS_BY_ATTEMPT = 'by_attempt';
+
+// Index of ATTEMPTS_STORE by exam id
+export const ATTEMPTS_BY_EXAM = 'by_exam';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const answers = db.createObjectStore(ANSWERS_STORE, {
+            keyPath: ['kind', 'attemptId', 'questionId'],
+          });
+          answers.createIndex(ANSWERS_BY_ATTEMPT, ['kind', 'attemptId']);
+        }
+        if (event.oldVersion < 2) {
+          const attempts = db.createObjectStore(ATTEMPTS_STORE, { keyPath: 'attempt_id' });
+          attempts.createIndex(ATTEMPTS_BY_EXAM, 'exam.id');
+          db.createObjectStore(SUBMISSIONS_STORE, { keyPath: 'attemptId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Run a single request against one object store
+ */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return promisify(run(db.transaction(storeName, mode).objectStore(storeName)));
+};
@@ -0,0 +1,97 @@
+import { UserRole } from '@/types/auth';
+
+/**
+ * Permission catalogue
+ *
+ * The backend sends each user's effective permission set; these keys must
+ * match it. Roles (built-in or custom) are just named permission sets.
+ * Labels and descriptions are under adminRoles.groups and adminRoles.permissions.
+ */
+export const PERMISSION_GROUPS = [
+  {
+    key: 'learning',
+    permissions: [
+      'learning.study',
+      'assessments.take',
+      'assignments.submit',
+      'ai.chat',
+      'guardian.view',
+    ],
+  },
+  {
+    key: 'teaching',
+    permissions: [
+      'content.create',
+      'content.publish',
+      'content.delete',
+      'assessments.manage',
+      'assignments.manage',
+      'submissions.view',
+      'submissions.grade',
+      'grades.release',
+      'lessons.plan',
+      'analytics.view',
+    ],
+  },
+  {
+    key: 'administration',
+    permissions: [
+      'analytics.view_all',
+      'users.manage',
+      'users.delete',
+      'users.impersonate',
+      'roles.manage',
+      'settings.manage',
+      'ai_models.manage',
+    ],
+  },
+] as const;
+
+export type Permission = (typeof PERMISSION_GROUPS)[number]['permissions'][number];
+
+// Used when the backend doesn't send a permission set (older API versions)
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  student: ['learning.study', 'assessments.take', 'assignments.submit', 'ai.chat'],
+  guardian: ['guardian.view'],
+  ta: ['submissions.view', 'submissions.grade'],
+  teacher: [
+    'content.create',
+    'content.publish',
+    'content.delete',
+    'assessments.manage',
+    'assignments.manage',
+    'submissions.view',
+    'submissions.grade',
+    'grades.release',
+    'lessons.plan',
+    'analytics.view',
+    'ai.chat',
+  ],
+  admin: [
+    'analytics.view_all',
+    'users.manage',
+    'users.delete',
+    'users.impersonate',
+    'roles.manage',
+    'settings.manage',
+    'ai_models.manage',
+  ],
+};
+
+// Home dashboard for each built-in role
+export const dashboardPath = (role: string) => {
+  switch (role) {
+    case 'student':
+      return '/student';
+    case 'guardian':
+      return '/guardian';
+    case 'ta':
+      return '/ta';
+    case 'teacher':
+      return '/teacher';
+    case 'admin':
+      return '/admin';
+    default:
+      return '/login';
+  }
+};
@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { isValidCidr, isValidEmailDomain } from '@/utils/networkUtils';
+
+/**
+ * Admin settings schema
+ *
+ * Each section is loaded and saved independently through /settings/{section};
+ * the same schemas validate the AdminSettings form before anything is sent.
+ * Error messages are locale keys under settingsValidation.
+ */
+
+const HOSTNAME = /^([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)*[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/i;
+
+export const systemSettingsSchema = z.object({
+  maintenance_mode: z.boolean(),
+  auto_backup: z.boolean(),
+  email_notifications: z.boolean(),
+  analytics_tracking: z.boolean(),
+  debug_mode: z.boolean(),
+  api_rate_limit: z
+    .number()
+    .int('settingsValidation.wholeNumber')
+    .min(1, 'settingsValidation.rateLimitMin')
+    .max(1_000_000, 'settingsValidation.rateLimitMax'),
+  session_timeout: z
+    .number()
+    .int('settingsValidation.wholeNumber')
+    .min(0, 'settingsValidation.sessionTimeoutMin')
+    .max(24 * 60, 'settingsValidation.sessionTimeoutMax'),
+  max_file_size: z
+    .number()
+    .int('settingsValidation.wholeNumber')
+    .min(1, 'settingsValidation.fileSizeMin')
+    .max(1024, 'settingsValidation.fileSizeMax'),
+});
+
+// Keyed by integration id, value is whether it is enabled
+export const integrationSettingsSchema = z.record(z.string(), z.boolean());
+
+export const emailSettingsSchema = z.object({
+  smtp_server: z
+    .string()
+    .trim()
+    .min(1, 'settingsValidation.smtpServerRequired')
+    .regex(HOSTNAME, 'settingsValidation.invalidHostname'),
+  smtp_port: z
+    .number({ invalid_type_error: 'settingsValidation.portNotNumber' })
+    .int('settingsValidation.portNotWhole')
+    .min(1, 'settingsValidation.portRange')
+    .max(65535, 'settingsValidation.portRange'),
+  smtp_user: z.string().trim().min(1, 'settingsValidation.usernameRequired'),
+  // Write-only: the backend never returns it, and leaving it empty keeps the stored one
+  smtp_password: z.string().optional(),
+  from_name: z.string().trim().min(1, 'settingsValidation.fromNameRequired').max(100, 'settingsValidation.fromNameTooLong'),
+});
+
+export const securitySettingsSchema = z.object({
+  password_min_length: z
+    .number()
+    .int('settingsValidation.wholeNumber')
+    .min(6, 'settingsValidation.passwordLengthMin')
+    .max(128, 'settingsValidation.passwordLengthMax'),
+  mfa_required_roles: z.array(z.string()),
+  session_security: z.enum(['low', 'medium', 'high']),
+  ip_whitelist: z.array(z.string()).superRefine((entries, ctx) => {
+    const invalid = entries.filter(entry => !isValidCidr(entry));
+    if (invalid.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'settingsValidation.invalidCidr',
+        params: { entries: invalid.join(', ') },
+      });
+    }
+  }),
+  allowed_domains: z.array(z.string()).superRefine((domains, ctx) => {
+    const invalid = domains.filter(domain => !isValidEmailDomain(domain));
+    if (invalid.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'settingsValidation.invalidDomain',
+        params: { entries: invalid.join(', ') },
+      });
+    }
+  }),
+});
+
+export const settingsSchemas = {
+  system: systemSettingsSchema,
+  integrations: integrationSettingsSchema,
+  email: emailSettingsSchema,
+  security: securitySettingsSchema,
+};
+
+export type SettingsSection = keyof typeof settingsSchemas;
+
+export type SettingsBySection = {
+  [S in SettingsSection]: z.infer<(typeof settingsSchemas)[S]>;
+};
+
+export interface SettingsError {
+  key: string; // Locale key of the message
+  values?: Record<string, string>; // Interpolated into the message
+}
+
+export type SettingsErrors = Record<string, SettingsError>;
+
+const MESSAGE_PREFIX = 'settingsValidation.';
+
+/**
+ * Validate one section, returning the first error per field
+ */
+export const validateSettings = <S extends SettingsSection>(section: S, value: SettingsBySection[S]): SettingsErrors => {
+  const result = settingsSchemas[section].safeParse(value);
+  if (result.success) return {};
+
+  const errors: SettingsErrors = {};
+  for (const issue of result.error.issues) {
+    const field = String(issue.path[0] ?? '');
+    if (!errors[field]) {
+      errors[field] = {
+        // Checks without a message of their own get zod's English default; use a generic one
+        key: issue.message.startsWith(MESSAGE_PREFIX) ? issue.message : `${MESSAGE_PREFIX}invalid`,
+        values: issue.code === z.ZodIssueCode.custom ? issue.params : undefined,
+      };
+    }
+  }
+  return errors;
+};
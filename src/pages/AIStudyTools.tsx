@@ -26,6 +26,7 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { toast } from 'sonner';
 import api from '@/lib/axios';
+import { RichContent } from '@/components/RichContent';
 
 interface Chapter {
   id: number;
@@ -270,7 +271,7 @@ const AIStudyTools = () => {
                           ? 'bg-primary text-primary-foreground ml-4'
                           : 'bg-muted mr-4'
                       }`}>
-                        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                        <RichContent content={message.content} className="text-sm" />
                         {message.role === 'assistant' && message.confidence !== undefined && (
                           <div className="flex items-center gap-2 mt-2">
                             <Badge
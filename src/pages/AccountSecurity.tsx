@@ -0,0 +1,254 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { QRCodeSVG } from 'qrcode.react';
+import { useAuth } from '@/contexts/AuthContext';
+import { mfaService } from '@/services/mfaService';
+import { TotpEnrollmentResponse } from '@/types/auth';
+import { getErrorDetail } from '@/utils/errorUtils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { ShieldCheck, ShieldAlert, KeyRound, Copy, Download, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+const TOTP_CODE_LENGTH = 6;
+
+type Step = 'idle' | 'enrolling' | 'recovery-codes';
+
+const CodeInput = ({ value, onChange }: { value: string; onChange: (value: string) => void }) => (
+  <InputOTP maxLength={TOTP_CODE_LENGTH} value={value} onChange={onChange}>
+    <InputOTPGroup>
+      {Array.from({ length: TOTP_CODE_LENGTH }, (_, index) => (
+        <InputOTPSlot key={index} index={index} />
+      ))}
+    </InputOTPGroup>
+  </InputOTP>
+);
+
+const AccountSecurity = () => {
+  const { t } = useTranslation();
+  const { user, refreshUser } = useAuth();
+  const [step, setStep] = useState<Step>('idle');
+  const [enrollment, setEnrollment] = useState<TotpEnrollmentResponse | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  if (!user) return null;
+
+  const mustEnroll = user.mfaRequired && !user.mfaEnabled;
+
+  const handleStartEnrollment = async () => {
+    setBusy(true);
+    try {
+      setEnrollment(await mfaService.startTotpEnrollment());
+      setCode('');
+      setStep('enrolling');
+    } catch (error) {
+      console.error('Error starting 2FA enrolment:', error);
+      toast.error(getErrorDetail(error, t('security.enrollFailed')));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConfirmEnrollment = async () => {
+    setBusy(true);
+    try {
+      const response = await mfaService.confirmTotpEnrollment(code);
+      setRecoveryCodes(response.recovery_codes);
+      setEnrollment(null);
+      setCode('');
+      setStep('recovery-codes');
+      toast.success(t('security.enrollSuccess'));
+    } catch (error) {
+      console.error('Error confirming 2FA enrolment:', error);
+      toast.error(getErrorDetail(error, t('auth.mfaInvalidCode')));
+      setCode('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRegenerateCodes = async () => {
+    setBusy(true);
+    try {
+      const response = await mfaService.regenerateRecoveryCodes(code);
+      setRecoveryCodes(response.recovery_codes);
+      setCode('');
+      setStep('recovery-codes');
+    } catch (error) {
+      console.error('Error regenerating recovery codes:', error);
+      toast.error(getErrorDetail(error, t('auth.mfaInvalidCode')));
+      setCode('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setBusy(true);
+    try {
+      await mfaService.disableTotp(code);
+      setCode('');
+      await refreshUser();
+      toast.success(t('security.disableSuccess'));
+    } catch (error) {
+      console.error('Error disabling 2FA:', error);
+      toast.error(getErrorDetail(error, t('auth.mfaInvalidCode')));
+      setCode('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFinish = async () => {
+    setRecoveryCodes([]);
+    setStep('idle');
+    // Picks up mfaEnabled, which also lifts the enrolment redirect
+    await refreshUser();
+  };
+
+  const handleCopyCodes = async () => {
+    await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    toast.success(t('security.codesCopied'));
+  };
+
+  const handleDownloadCodes = () => {
+    const blob = new Blob([recoveryCodes.join('\n') + '\n'], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'stementorat-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="flex-1 space-y-6 p-6 max-w-3xl">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">{t('security.title')}</h1>
+        <p className="text-muted-foreground">{t('security.subtitle')}</p>
+      </div>
+
+      {mustEnroll && (
+        <Alert variant="destructive">
+          <ShieldAlert className="h-4 w-4" />
+          <AlertTitle>{t('security.enrollmentRequired')}</AlertTitle>
+          <AlertDescription>{t('security.enrollmentRequiredDescription')}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="card-shadow">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              {t('security.twoFactor')}
+            </span>
+            <Badge variant={user.mfaEnabled ? 'default' : 'secondary'}>
+              {user.mfaEnabled ? t('security.enabled') : t('security.disabled')}
+            </Badge>
+          </CardTitle>
+          <CardDescription>{t('security.twoFactorDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {step === 'idle' && !user.mfaEnabled && (
+            <Button onClick={handleStartEnrollment} disabled={busy}>
+              {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('security.enable')}
+            </Button>
+          )}
+
+          {step === 'enrolling' && enrollment && (
+            <div className="space-y-4">
+              <p className="text-sm">{t('security.scanQrCode')}</p>
+              <div className="flex justify-center rounded-lg border bg-white p-4 w-fit">
+                <QRCodeSVG value={enrollment.provisioning_uri} size={192} />
+              </div>
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">{t('security.manualEntry')}</p>
+                <code className="block rounded bg-muted px-3 py-2 font-mono text-sm break-all">
+                  {enrollment.secret}
+                </code>
+              </div>
+              <div className="space-y-2">
+                <Label>{t('security.enterCode')}</Label>
+                <CodeInput value={code} onChange={setCode} />
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={handleConfirmEnrollment} disabled={busy || code.length < TOTP_CODE_LENGTH}>
+                  {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {t('security.confirm')}
+                </Button>
+                <Button variant="outline" onClick={() => setStep('idle')} disabled={busy}>
+                  {t('common.cancel')}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {step === 'recovery-codes' && (
+            <div className="space-y-4">
+              <Alert>
+                <KeyRound className="h-4 w-4" />
+                <AlertTitle>{t('security.recoveryCodes')}</AlertTitle>
+                <AlertDescription>{t('security.recoveryCodesDescription')}</AlertDescription>
+              </Alert>
+              <div className="grid grid-cols-2 gap-2 rounded-lg border p-4 font-mono text-sm">
+                {recoveryCodes.map((recoveryCode) => (
+                  <span key={recoveryCode}>{recoveryCode}</span>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={handleCopyCodes}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  {t('security.copy')}
+                </Button>
+                <Button variant="outline" onClick={handleDownloadCodes}>
+                  <Download className="mr-2 h-4 w-4" />
+                  {t('security.download')}
+                </Button>
+                <Button onClick={handleFinish}>{t('security.savedCodes')}</Button>
+              </div>
+            </div>
+          )}
+
+          {step === 'idle' && user.mfaEnabled && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>{t('security.enterCodeToManage')}</Label>
+                <CodeInput value={code} onChange={setCode} />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  onClick={handleRegenerateCodes}
+                  disabled={busy || code.length < TOTP_CODE_LENGTH}
+                >
+                  <KeyRound className="mr-2 h-4 w-4" />
+                  {t('security.regenerateCodes')}
+                </Button>
+                {/* Users whose role requires 2FA cannot turn it off */}
+                {!user.mfaRequired && (
+                  <Button
+                    variant="destructive"
+                    onClick={handleDisable}
+                    disabled={busy || code.length < TOTP_CODE_LENGTH}
+                  >
+                    {t('security.disable')}
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AccountSecurity;
@@ -0,0 +1,274 @@
+import { useState, useEffect, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { KeySquare, Loader2, Plus, Save, Trash2, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import { useRoles, useCreateRole, useUpdateRole, useDeleteRole } from '@/hooks/useRoles';
+import { DEFAULT_ROLE_PERMISSIONS, PERMISSION_GROUPS } from '@/lib/permissions';
+import { UserRole } from '@/types/auth';
+import { Role, RoleInput } from '@/types/roles';
+import { getErrorDetail } from '@/utils/errorUtils';
+
+const BASE_ROLES: UserRole[] = ['student', 'guardian', 'ta', 'teacher', 'admin'];
+
+const EMPTY_ROLE: RoleInput = {
+  name: '',
+  description: '',
+  base_role: 'teacher',
+  permissions: [...DEFAULT_ROLE_PERMISSIONS.teacher],
+};
+
+const roleToForm = (role: Role): RoleInput => ({
+  name: role.name,
+  description: role.description,
+  base_role: role.base_role,
+  permissions: role.permissions,
+});
+
+// Admins must always be able to get back into this page
+const isLocked = (role: Role | null, permission: string) =>
+  !!role?.is_system && role.base_role === 'admin' && permission === 'roles.manage';
+
+const AdminRoles = () => {
+  const { t } = useTranslation();
+  const { data: roles = [], isLoading } = useRoles();
+  const createRole = useCreateRole();
+  const updateRole = useUpdateRole();
+  const deleteRole = useDeleteRole();
+
+  // null while creating a new role
+  const [selectedRoleId, setSelectedRoleId] = useState<number | null>(null);
+  const [form, setForm] = useState<RoleInput>(EMPTY_ROLE);
+
+  const selectedRole = roles.find(role => role.id === selectedRoleId) || null;
+
+  // Select the first role once the list has loaded; later a null selection means "new role"
+  const firstRoleSelectedRef = useRef(false);
+  useEffect(() => {
+    if (firstRoleSelectedRef.current || roles.length === 0) return;
+    firstRoleSelectedRef.current = true;
+    setSelectedRoleId(roles[0].id);
+    setForm(roleToForm(roles[0]));
+  }, [roles]);
+
+  const selectRole = (role: Role) => {
+    setSelectedRoleId(role.id);
+    setForm(roleToForm(role));
+  };
+
+  const startNewRole = () => {
+    setSelectedRoleId(null);
+    setForm(EMPTY_ROLE);
+  };
+
+  const togglePermission = (permission: string, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      permissions: checked
+        ? [...prev.permissions, permission]
+        : prev.permissions.filter(p => p !== permission)
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error(t('adminRoles.nameRequired'));
+      return;
+    }
+
+    const role = { ...form, name: form.name.trim() };
+    try {
+      if (selectedRole) {
+        await updateRole.mutateAsync({ id: selectedRole.id, role });
+        toast.success(t('adminRoles.updated', { name: role.name }));
+      } else {
+        const created = await createRole.mutateAsync(role);
+        setSelectedRoleId(created.id);
+        toast.success(t('adminRoles.created', { name: role.name }));
+      }
+    } catch (error) {
+      console.error('Error saving role:', error);
+      toast.error(getErrorDetail(error, t('adminRoles.saveFailed')));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedRole) return;
+    if (!confirm(t('adminRoles.confirmDelete', { name: selectedRole.name }))) {
+      return;
+    }
+
+    try {
+      await deleteRole.mutateAsync(selectedRole.id);
+      toast.success(t('adminRoles.deleted', { name: selectedRole.name }));
+      startNewRole();
+    } catch (error) {
+      console.error('Error deleting role:', error);
+      toast.error(getErrorDetail(error, t('adminRoles.deleteFailed')));
+    }
+  };
+
+  const isSaving = createRole.isPending || updateRole.isPending;
+
+  if (isLoading) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-6">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">{t('adminRoles.title')}</h1>
+          <p className="text-muted-foreground">{t('adminRoles.subtitle')}</p>
+        </div>
+        <Button onClick={startNewRole}>
+          <Plus className="mr-2 h-4 w-4" />
+          {t('adminRoles.newRole')}
+        </Button>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Role list */}
+        <Card className="card-shadow">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <KeySquare className="h-5 w-5" />
+              {t('adminRoles.roles')}
+            </CardTitle>
+            <CardDescription>
+              {t('adminRoles.rolesDescription')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {roles.map((role) => (
+              <button
+                key={role.id}
+                type="button"
+                onClick={() => selectRole(role)}
+                className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                  role.id === selectedRoleId ? 'border-primary bg-primary/5' : 'hover:bg-muted/30'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">{role.name}</span>
+                  {role.is_system && <Badge variant="secondary">{t('adminRoles.builtIn')}</Badge>}
+                </div>
+                <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                  <Users className="h-3 w-3" />
+                  {t('adminRoles.userCount', { count: role.user_count })}
+                  <span>{t('adminRoles.permissionCount', { count: role.permissions.length })}</span>
+                </div>
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Role editor */}
+        <Card className="card-shadow lg:col-span-2">
+          <CardHeader>
+            <CardTitle>{selectedRole ? t('adminRoles.editRole', { name: selectedRole.name }) : t('adminRoles.newRole')}</CardTitle>
+            <CardDescription>
+              {selectedRole?.is_system
+                ? t('adminRoles.builtInDescription')
+                : t('adminRoles.customDescription')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="roleName">{t('adminRoles.name')}</Label>
+                <Input
+                  id="roleName"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder={t('adminRoles.namePlaceholder')}
+                  disabled={selectedRole?.is_system}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="baseRole">{t('adminRoles.baseRole')}</Label>
+                <Select
+                  value={form.base_role}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, base_role: value as UserRole }))}
+                  disabled={selectedRole?.is_system}
+                >
+                  <SelectTrigger id="baseRole">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BASE_ROLES.map((value) => (
+                      <SelectItem key={value} value={value}>{t(`adminRoles.baseRoles.${value}`)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="roleDescription">{t('adminRoles.description')}</Label>
+              <Textarea
+                id="roleDescription"
+                value={form.description}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                placeholder={t('adminRoles.descriptionPlaceholder')}
+                rows={2}
+              />
+            </div>
+
+            {PERMISSION_GROUPS.map((group) => (
+              <div key={group.key} className="space-y-3">
+                <p className="font-medium">{t(`adminRoles.groups.${group.key}`)}</p>
+                <div className="grid gap-3 md:grid-cols-2">
+                  {group.permissions.map((permission) => (
+                    <div key={permission} className="flex items-start gap-3 p-3 rounded-lg border">
+                      <Checkbox
+                        id={`permission-${permission}`}
+                        checked={form.permissions.includes(permission)}
+                        onCheckedChange={(checked) => togglePermission(permission, checked === true)}
+                        disabled={isLocked(selectedRole, permission)}
+                      />
+                      <div>
+                        <Label htmlFor={`permission-${permission}`} className="font-medium">
+                          {t(`adminRoles.permissions.${permission}.label`)}
+                        </Label>
+                        <p className="text-sm text-muted-foreground">{t(`adminRoles.permissions.${permission}.description`)}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            <div className="flex gap-2 pt-2">
+              <Button className="flex-1" onClick={handleSave} disabled={isSaving}>
+                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                {selectedRole ? t('adminRoles.saveChanges') : t('adminRoles.createRole')}
+              </Button>
+              {selectedRole && !selectedRole.is_system && (
+                <Button variant="destructive" onClick={handleDelete} disabled={deleteRole.isPending}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  {t('adminRoles.delete')}
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AdminRoles;
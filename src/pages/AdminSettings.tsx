@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
@@ -17,83 +17,158 @@ import {
   Shield,
   Bell,
   Server,
-  Save
+  Save,
+  History
 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
 import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useSettingsAuditLog, useSettingsDraft } from '@/hooks/useSettings';
+import { SettingsError } from '@/lib/settingsSchema';
+import { UserRole } from '@/types/auth';
+import { EmailSettings, IntegrationSettings, SecuritySettings, SystemSettings } from '@/types/settings';
+import { parseList } from '@/utils/networkUtils';
+
+// Roles that can be forced to use two-factor authentication
+const MFA_ROLES: { role: UserRole; label: string }[] = [
+  { role: 'admin', label: 'Administrators' },
+  { role: 'teacher', label: 'Teachers' },
+  { role: 'student', label: 'Students' },
+];
 
 interface Integration {
+  id: string;
   name: string;
-  status: boolean;
   description: string;
 }
 
+// Available integrations; only whether each one is enabled is persisted
+const INTEGRATIONS: Integration[] = [
+  { id: 'moodle', name: "Moodle LMS", description: "Learning Management System" },
+  { id: 'gmail', name: "Gmail Integration", description: "Email notifications and reports" },
+  { id: 'zoom', name: "Zoom Meetings", description: "Virtual classroom integration" },
+  { id: 'arduino', name: "Arduino IDE", description: "Code compilation and debugging" },
+  { id: 'matlab', name: "MATLAB Online", description: "Mathematical computations" },
+  { id: 'ltspice', name: "LTspice", description: "Circuit simulation tools" },
+];
+
+const DEFAULT_SYSTEM_SETTINGS: SystemSettings = {
+  maintenance_mode: false,
+  auto_backup: true,
+  email_notifications: true,
+  analytics_tracking: true,
+  debug_mode: false,
+  api_rate_limit: 1000,
+  session_timeout: 30,
+  max_file_size: 50
+};
+
+const DEFAULT_INTEGRATION_SETTINGS: IntegrationSettings = {};
+
+const DEFAULT_EMAIL_SETTINGS: EmailSettings = {
+  smtp_server: 'smtp.gmail.com',
+  smtp_port: 587,
+  smtp_user: 'noreply@stem.edu',
+  from_name: 'STEMentorat System'
+};
+
+const DEFAULT_SECURITY_SETTINGS: SecuritySettings = {
+  password_min_length: 8,
+  mfa_required_roles: [],
+  session_security: 'high',
+  ip_whitelist: [],
+  allowed_domains: ['@stem.edu']
+};
+
+// Number inputs hold NaN while empty so the schema can reject them on save
+const toNumber = (value: string) => (value.trim() === '' ? NaN : Number(value));
+const fromNumber = (value: number) => (Number.isNaN(value) ? '' : value);
+
+const formatAuditValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'On' : 'Off';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  return String(value);
+};
+
+const FieldError = ({ error }: { error?: SettingsError }) => {
+  const { t } = useTranslation();
+  return error ? <p className="text-sm text-destructive">{t(error.key, error.values)}</p> : null;
+};
+
 const AdminSettings = () => {
-  const [systemSettings, setSystemSettings] = useState({
-    maintenanceMode: false,
-    autoBackup: true,
-    emailNotifications: true,
-    analyticsTracking: true,
-    debugMode: false,
-    apiRateLimit: 1000,
-    sessionTimeout: 30,
-    maxFileSize: 50
-  });
-
-  const [integrations, setIntegrations] = useState<Integration[]>([
-    { name: "Moodle LMS", status: true, description: "Learning Management System" },
-    { name: "Gmail Integration", status: true, description: "Email notifications and reports" },
-    { name: "Zoom Meetings", status: false, description: "Virtual classroom integration" },
-    { name: "Arduino IDE", status: true, description: "Code compilation and debugging" },
-    { name: "MATLAB Online", status: false, description: "Mathematical computations" },
-    { name: "LTspice", status: true, description: "Circuit simulation tools" },
-  ]);
-
-  const [emailSettings, setEmailSettings] = useState({
-    smtpServer: 'smtp.gmail.com',
-    smtpPort: '587',
-    smtpUser: 'noreply@stem.edu',
-    smtpPassword: '',
-    fromName: 'STEMentorat System'
-  });
-
-  const [securitySettings, setSecuritySettings] = useState({
-    passwordMinLength: 8,
-    requireTwoFactor: false,
-    sessionSecurity: 'high',
-    ipWhitelist: '',
-    allowedDomains: '@stem.edu'
-  });
-
-  const handleSystemSettingToggle = (setting: string, newState: boolean) => {
-    setSystemSettings(prev => ({
-      ...prev,
-      [setting]: newState
-    }));
-    toast.success(`${setting.replace(/([A-Z])/g, ' $1').toLowerCase()} ${newState ? 'enabled' : 'disabled'}`);
+  const system = useSettingsDraft('system', DEFAULT_SYSTEM_SETTINGS);
+  const integrations = useSettingsDraft('integrations', DEFAULT_INTEGRATION_SETTINGS);
+  const email = useSettingsDraft('email', DEFAULT_EMAIL_SETTINGS);
+  const security = useSettingsDraft('security', DEFAULT_SECURITY_SETTINGS);
+  const { data: auditLog = [], isLoading: auditLoading } = useSettingsAuditLog();
+
+  const systemSettings = system.draft;
+  const emailSettings = email.draft;
+  const securitySettings = security.draft;
+
+  // Lists are edited as free text and parsed on every change
+  const [ipWhitelistText, setIpWhitelistText] = useState('');
+  const [allowedDomainsText, setAllowedDomainsText] = useState('');
+
+  // Only seed the text fields once the saved values arrive, not on every edit
+  const listsSeededRef = useRef(false);
+  useEffect(() => {
+    if (!security.loaded || listsSeededRef.current) return;
+    listsSeededRef.current = true;
+    setIpWhitelistText(security.draft.ip_whitelist.join('\n'));
+    setAllowedDomainsText(security.draft.allowed_domains.join(', '));
+  }, [security.loaded, security.draft]);
+
+  const isSaving = system.isSaving || integrations.isSaving || email.isSaving || security.isSaving;
+  // Saving is only safe against the server's values, not the defaults shown before they load
+  const canSave = system.loaded && email.loaded && security.loaded;
+
+  const handleMfaRoleToggle = async (role: UserRole, required: boolean) => {
+    const requiredRoles = required
+      ? [...securitySettings.mfa_required_roles, role]
+      : securitySettings.mfa_required_roles.filter(r => r !== role);
+
+    if (await security.saveNow({ mfa_required_roles: requiredRoles })) {
+      toast.success(`Two-factor authentication ${required ? 'required' : 'optional'} for ${role}s`);
+    } else {
+      toast.error('Failed to update two-factor policy');
+    }
   };
 
-  const handleIntegrationToggle = (integrationName: string, newState: boolean) => {
-    setIntegrations(prev => 
-      prev.map(integration => 
-        integration.name === integrationName 
-          ? { ...integration, status: newState }
-          : integration
-      )
-    );
-    toast.success(`${integrationName} ${newState ? 'enabled' : 'disabled'}`);
+  const handleSystemSettingToggle = async (setting: keyof SystemSettings, newState: boolean) => {
+    if (await system.saveNow({ [setting]: newState })) {
+      toast.success(`${setting.replace(/_/g, ' ')} ${newState ? 'enabled' : 'disabled'}`);
+    } else {
+      toast.error(`Failed to update ${setting.replace(/_/g, ' ')}`);
+    }
   };
 
-  const handleSaveSettings = () => {
-    toast.success('Settings saved successfully!');
+  const handleIntegrationToggle = async (integration: Integration, newState: boolean) => {
+    if (await integrations.saveNow({ [integration.id]: newState })) {
+      toast.success(`${integration.name} ${newState ? 'enabled' : 'disabled'}`);
+    } else {
+      toast.error(`Failed to update ${integration.name}`);
+    }
   };
 
-  const getIntegrationIcon = (name: string) => {
-    if (name.includes('Moodle')) return <Globe className="h-5 w-5 text-primary" />;
-    if (name.includes('Gmail')) return <Mail className="h-5 w-5 text-primary" />;
-    if (name.includes('Zoom')) return <Video className="h-5 w-5 text-primary" />;
-    if (name.includes('Arduino')) return <Wrench className="h-5 w-5 text-primary" />;
-    if (name.includes('MATLAB')) return <Database className="h-5 w-5 text-primary" />;
-    if (name.includes('LTspice')) return <Zap className="h-5 w-5 text-primary" />;
+  const handleSaveSettings = async () => {
+    const results = await Promise.all([system.save(), email.save(), security.save()]);
+    if (results.every(Boolean)) {
+      toast.success('Settings saved successfully!');
+    } else {
+      toast.error('Some settings could not be saved. Check the highlighted fields.');
+    }
+  };
+
+  const getIntegrationIcon = (id: string) => {
+    if (id === 'moodle') return <Globe className="h-5 w-5 text-primary" />;
+    if (id === 'gmail') return <Mail className="h-5 w-5 text-primary" />;
+    if (id === 'zoom') return <Video className="h-5 w-5 text-primary" />;
+    if (id === 'arduino') return <Wrench className="h-5 w-5 text-primary" />;
+    if (id === 'matlab') return <Database className="h-5 w-5 text-primary" />;
+    if (id === 'ltspice') return <Zap className="h-5 w-5 text-primary" />;
     return <Settings className="h-5 w-5 text-primary" />;
   };
 
@@ -105,7 +180,7 @@ const AdminSettings = () => {
           <h1 className="text-3xl font-bold text-foreground">System Settings</h1>
           <p className="text-muted-foreground">Configure system-wide settings and integrations</p>
         </div>
-        <Button onClick={handleSaveSettings}>
+        <Button onClick={handleSaveSettings} disabled={isSaving || !canSave}>
           <Save className="mr-2 h-4 w-4" />
           Save All Changes
         </Button>
@@ -131,8 +206,8 @@ const AdminSettings = () => {
                   <p className="text-sm text-muted-foreground">Enable system maintenance mode</p>
                 </div>
                 <Switch 
-                  checked={systemSettings.maintenanceMode}
-                  onCheckedChange={(checked) => handleSystemSettingToggle('maintenanceMode', checked)}
+                  checked={systemSettings.maintenance_mode}
+                  onCheckedChange={(checked) => handleSystemSettingToggle('maintenance_mode', checked)}
                 />
               </div>
 
@@ -142,8 +217,8 @@ const AdminSettings = () => {
                   <p className="text-sm text-muted-foreground">Automatic daily data backups</p>
                 </div>
                 <Switch 
-                  checked={systemSettings.autoBackup}
-                  onCheckedChange={(checked) => handleSystemSettingToggle('autoBackup', checked)}
+                  checked={systemSettings.auto_backup}
+                  onCheckedChange={(checked) => handleSystemSettingToggle('auto_backup', checked)}
                 />
               </div>
 
@@ -153,8 +228,8 @@ const AdminSettings = () => {
                   <p className="text-sm text-muted-foreground">Send system notifications via email</p>
                 </div>
                 <Switch 
-                  checked={systemSettings.emailNotifications}
-                  onCheckedChange={(checked) => handleSystemSettingToggle('emailNotifications', checked)}
+                  checked={systemSettings.email_notifications}
+                  onCheckedChange={(checked) => handleSystemSettingToggle('email_notifications', checked)}
                 />
               </div>
 
@@ -164,8 +239,8 @@ const AdminSettings = () => {
                   <p className="text-sm text-muted-foreground">Track user behavior and system usage</p>
                 </div>
                 <Switch 
-                  checked={systemSettings.analyticsTracking}
-                  onCheckedChange={(checked) => handleSystemSettingToggle('analyticsTracking', checked)}
+                  checked={systemSettings.analytics_tracking}
+                  onCheckedChange={(checked) => handleSystemSettingToggle('analytics_tracking', checked)}
                 />
               </div>
 
@@ -175,8 +250,8 @@ const AdminSettings = () => {
                   <p className="text-sm text-muted-foreground">Enable detailed system logging</p>
                 </div>
                 <Switch 
-                  checked={systemSettings.debugMode}
-                  onCheckedChange={(checked) => handleSystemSettingToggle('debugMode', checked)}
+                  checked={systemSettings.debug_mode}
+                  onCheckedChange={(checked) => handleSystemSettingToggle('debug_mode', checked)}
                 />
               </div>
             </CardContent>
@@ -198,12 +273,10 @@ const AdminSettings = () => {
                 <Input 
                   id="apiRateLimit"
                   type="number"
-                  value={systemSettings.apiRateLimit}
-                  onChange={(e) => setSystemSettings(prev => ({
-                    ...prev,
-                    apiRateLimit: parseInt(e.target.value) || 1000
-                  }))}
+                  value={fromNumber(systemSettings.api_rate_limit)}
+                  onChange={(e) => system.update({ api_rate_limit: toNumber(e.target.value) })}
                 />
+                <FieldError error={system.errors.api_rate_limit} />
               </div>
 
               <div className="space-y-2">
@@ -211,12 +284,11 @@ const AdminSettings = () => {
                 <Input 
                   id="sessionTimeout"
                   type="number"
-                  value={systemSettings.sessionTimeout}
-                  onChange={(e) => setSystemSettings(prev => ({
-                    ...prev,
-                    sessionTimeout: parseInt(e.target.value) || 30
-                  }))}
+                  value={fromNumber(systemSettings.session_timeout)}
+                  onChange={(e) => system.update({ session_timeout: toNumber(e.target.value) })}
                 />
+                <FieldError error={system.errors.session_timeout} />
+                <p className="text-xs text-muted-foreground">Idle users are signed out after this long. Set to 0 to disable.</p>
               </div>
 
               <div className="space-y-2">
@@ -224,12 +296,10 @@ const AdminSettings = () => {
                 <Input 
                   id="maxFileSize"
                   type="number"
-                  value={systemSettings.maxFileSize}
-                  onChange={(e) => setSystemSettings(prev => ({
-                    ...prev,
-                    maxFileSize: parseInt(e.target.value) || 50
-                  }))}
+                  value={fromNumber(systemSettings.max_file_size)}
+                  onChange={(e) => system.update({ max_file_size: toNumber(e.target.value) })}
                 />
+                <FieldError error={system.errors.max_file_size} />
               </div>
             </CardContent>
           </Card>
@@ -250,36 +320,35 @@ const AdminSettings = () => {
                 <Input 
                   id="passwordMinLength"
                   type="number"
-                  value={securitySettings.passwordMinLength}
-                  onChange={(e) => setSecuritySettings(prev => ({
-                    ...prev,
-                    passwordMinLength: parseInt(e.target.value) || 8
-                  }))}
+                  value={fromNumber(securitySettings.password_min_length)}
+                  onChange={(e) => security.update({ password_min_length: toNumber(e.target.value) })}
                 />
+                <FieldError error={security.errors.password_min_length} />
               </div>
 
-              <div className="flex items-center justify-between">
+              <div className="space-y-3">
                 <div>
                   <p className="font-medium">Require Two-Factor Authentication</p>
-                  <p className="text-sm text-muted-foreground">Force 2FA for all users</p>
+                  <p className="text-sm text-muted-foreground">Users in these roles must enrol before using the app</p>
                 </div>
-                <Switch 
-                  checked={securitySettings.requireTwoFactor}
-                  onCheckedChange={(checked) => setSecuritySettings(prev => ({
-                    ...prev,
-                    requireTwoFactor: checked
-                  }))}
-                />
+                {MFA_ROLES.map(({ role, label }) => (
+                  <div key={role} className="flex items-center justify-between pl-4">
+                    <span className="text-sm">{label}</span>
+                    <Switch
+                      checked={securitySettings.mfa_required_roles.includes(role)}
+                      onCheckedChange={(checked) => handleMfaRoleToggle(role, checked)}
+                    />
+                  </div>
+                ))}
               </div>
 
               <div className="space-y-2">
                 <Label htmlFor="sessionSecurity">Session Security Level</Label>
                 <Select 
-                  value={securitySettings.sessionSecurity} 
-                  onValueChange={(value) => setSecuritySettings(prev => ({
-                    ...prev,
-                    sessionSecurity: value
-                  }))}
+                  value={securitySettings.session_security} 
+                  onValueChange={(value) => security.update({
+                    session_security: value as SecuritySettings['session_security']
+                  })}
                 >
                   <SelectTrigger>
                     <SelectValue />
@@ -296,13 +365,30 @@ const AdminSettings = () => {
                 <Label htmlFor="allowedDomains">Allowed Email Domains</Label>
                 <Input 
                   id="allowedDomains"
-                  value={securitySettings.allowedDomains}
-                  onChange={(e) => setSecuritySettings(prev => ({
-                    ...prev,
-                    allowedDomains: e.target.value
-                  }))}
+                  value={allowedDomainsText}
+                  onChange={(e) => {
+                    setAllowedDomainsText(e.target.value);
+                    security.update({ allowed_domains: parseList(e.target.value) });
+                  }}
                   placeholder="@stem.edu, @university.edu"
                 />
+                <FieldError error={security.errors.allowed_domains} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="ipWhitelist">IP Whitelist</Label>
+                <Textarea 
+                  id="ipWhitelist"
+                  value={ipWhitelistText}
+                  onChange={(e) => {
+                    setIpWhitelistText(e.target.value);
+                    security.update({ ip_whitelist: parseList(e.target.value) });
+                  }}
+                  placeholder={"10.0.0.0/8\n192.168.1.25"}
+                  rows={3}
+                />
+                <p className="text-xs text-muted-foreground">One IP address or CIDR block per line. Leave empty to allow all addresses.</p>
+                <FieldError error={security.errors.ip_whitelist} />
               </div>
             </CardContent>
           </Card>
@@ -322,11 +408,11 @@ const AdminSettings = () => {
             </CardHeader>
             <CardContent>
               <div className="space-y-6">
-                {integrations.map((integration, index) => (
-                  <div key={index} className="flex items-center justify-between p-4 rounded-lg border">
+                {INTEGRATIONS.map((integration) => (
+                  <div key={integration.id} className="flex items-center justify-between p-4 rounded-lg border">
                     <div className="flex items-center gap-4">
                       <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
-                        {getIntegrationIcon(integration.name)}
+                        {getIntegrationIcon(integration.id)}
                       </div>
                       <div>
                         <p className="font-medium">{integration.name}</p>
@@ -334,8 +420,8 @@ const AdminSettings = () => {
                       </div>
                     </div>
                     <Switch 
-                      checked={integration.status} 
-                      onCheckedChange={(checked) => handleIntegrationToggle(integration.name, checked)}
+                      checked={!!integrations.draft[integration.id]} 
+                      onCheckedChange={(checked) => handleIntegrationToggle(integration, checked)}
                     />
                   </div>
                 ))}
@@ -359,23 +445,20 @@ const AdminSettings = () => {
                   <Label htmlFor="smtpServer">SMTP Server</Label>
                   <Input 
                     id="smtpServer"
-                    value={emailSettings.smtpServer}
-                    onChange={(e) => setEmailSettings(prev => ({
-                      ...prev,
-                      smtpServer: e.target.value
-                    }))}
+                    value={emailSettings.smtp_server}
+                    onChange={(e) => email.update({ smtp_server: e.target.value })}
                   />
+                  <FieldError error={email.errors.smtp_server} />
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="smtpPort">Port</Label>
                   <Input 
                     id="smtpPort"
-                    value={emailSettings.smtpPort}
-                    onChange={(e) => setEmailSettings(prev => ({
-                      ...prev,
-                      smtpPort: e.target.value
-                    }))}
+                    type="number"
+                    value={fromNumber(emailSettings.smtp_port)}
+                    onChange={(e) => email.update({ smtp_port: toNumber(e.target.value) })}
                   />
+                  <FieldError error={email.errors.smtp_port} />
                 </div>
               </div>
 
@@ -383,12 +466,10 @@ const AdminSettings = () => {
                 <Label htmlFor="smtpUser">Username</Label>
                 <Input 
                   id="smtpUser"
-                  value={emailSettings.smtpUser}
-                  onChange={(e) => setEmailSettings(prev => ({
-                    ...prev,
-                    smtpUser: e.target.value
-                  }))}
+                  value={emailSettings.smtp_user}
+                  onChange={(e) => email.update({ smtp_user: e.target.value })}
                 />
+                <FieldError error={email.errors.smtp_user} />
               </div>
 
               <div className="space-y-2">
@@ -396,25 +477,21 @@ const AdminSettings = () => {
                 <Input 
                   id="smtpPassword"
                   type="password"
-                  value={emailSettings.smtpPassword}
-                  onChange={(e) => setEmailSettings(prev => ({
-                    ...prev,
-                    smtpPassword: e.target.value
-                  }))}
+                  value={emailSettings.smtp_password ?? ''}
+                  onChange={(e) => email.update({ smtp_password: e.target.value || undefined })}
                   placeholder="••••••••"
                 />
+                <p className="text-xs text-muted-foreground">Leave empty to keep the current password.</p>
               </div>
 
               <div className="space-y-2">
                 <Label htmlFor="fromName">From Name</Label>
                 <Input 
                   id="fromName"
-                  value={emailSettings.fromName}
-                  onChange={(e) => setEmailSettings(prev => ({
-                    ...prev,
-                    fromName: e.target.value
-                  }))}
+                  value={emailSettings.from_name}
+                  onChange={(e) => email.update({ from_name: e.target.value })}
                 />
+                <FieldError error={email.errors.from_name} />
               </div>
             </CardContent>
           </Card>
@@ -470,6 +547,53 @@ const AdminSettings = () => {
           </Card>
         </div>
       </div>
+
+      <Card className="card-shadow">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Change History
+          </CardTitle>
+          <CardDescription>
+            Who changed which setting, and when
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {auditLoading ? (
+            <p className="text-sm text-muted-foreground">Loading change history...</p>
+          ) : auditLog.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No settings have been changed yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Who</TableHead>
+                  <TableHead>Setting</TableHead>
+                  <TableHead>Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {auditLog.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">{format(new Date(entry.changed_at), 'PPp')}</TableCell>
+                    <TableCell>
+                      <p className="font-medium">{entry.changed_by.name}</p>
+                      <p className="text-xs text-muted-foreground">{entry.changed_by.email}</p>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{entry.section}.{entry.field}</TableCell>
+                    <TableCell className="text-sm">
+                      <span className="text-muted-foreground line-through">{formatAuditValue(entry.old_value)}</span>
+                      {' → '}
+                      <span>{formatAuditValue(entry.new_value)}</span>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 };
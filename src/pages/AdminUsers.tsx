@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -7,6 +9,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
 import {
   Users,
   UserCheck,
@@ -15,10 +18,22 @@ import {
   Edit3,
   Trash2,
   Search,
-  Loader2
+  Loader2,
+  Eye,
+  History,
+  Link2,
+  Accessibility
 } from 'lucide-react';
 import { toast } from 'sonner';
 import api from '@/services/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermission';
+import { Can } from '@/components/Can';
+import { useRoles } from '@/hooks/useRoles';
+import { impersonationService } from '@/services/impersonationService';
+import { ImpersonationSession } from '@/types/auth';
+import { LinkGuardianStudentsDialog } from '@/components/LinkGuardianStudentsDialog';
+import { AccommodationsDialog } from '@/components/AccommodationsDialog';
 
 interface User {
   id: number;
@@ -40,6 +55,11 @@ interface UserCounts {
 
 const AdminUsers = () => {
   const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { user: currentUser, startImpersonation } = useAuth();
+  const { can } = usePermissions();
+  const { data: roles = [] } = useRoles(can('roles.manage'));
+  const roleOptions = roles.length > 0 ? roles.map(role => role.name) : ['student', 'guardian', 'ta', 'teacher', 'admin'];
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [isUserModalOpen, setIsUserModalOpen] = useState(false);
@@ -66,10 +86,28 @@ const AdminUsers = () => {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
 
+  // Impersonation
+  const [isImpersonateModalOpen, setIsImpersonateModalOpen] = useState(false);
+  const [impersonationReason, setImpersonationReason] = useState('');
+  const [impersonating, setImpersonating] = useState(false);
+  const [impersonationSessions, setImpersonationSessions] = useState<ImpersonationSession[]>([]);
+
+  const [isLinkStudentsModalOpen, setIsLinkStudentsModalOpen] = useState(false);
+  const [isAccommodationsModalOpen, setIsAccommodationsModalOpen] = useState(false);
+
   useEffect(() => {
     loadUsers();
+    loadImpersonationSessions();
   }, []);
 
+  const loadImpersonationSessions = async () => {
+    try {
+      setImpersonationSessions(await impersonationService.getSessions());
+    } catch (error) {
+      console.error('Failed to load impersonation history:', error);
+    }
+  };
+
   const loadUsers = async () => {
     try {
       setLoading(true);
@@ -87,6 +125,9 @@ const AdminUsers = () => {
     }
   };
 
+  // Built-in roles are translated; custom roles are shown by name
+  const getRoleLabel = (role: string) => t(`adminUsers.roles.${role}`, role);
+
   const getRoleColor = (role: string) => {
     switch (role) {
       case 'admin': return 'bg-destructive';
@@ -187,6 +228,33 @@ const AdminUsers = () => {
     }
   };
 
+  const handleImpersonate = async () => {
+    if (!selectedUser) return;
+    if (!impersonationReason.trim()) {
+      toast.error(t('impersonation.reasonRequired'));
+      return;
+    }
+
+    setImpersonating(true);
+    const started = await startImpersonation(selectedUser.id, impersonationReason.trim());
+    setImpersonating(false);
+
+    if (!started) {
+      toast.error(t('impersonation.startFailed'));
+      return;
+    }
+
+    setIsImpersonateModalOpen(false);
+    setIsUserModalOpen(false);
+    setImpersonationReason('');
+    navigate('/');
+  };
+
+  // Admins can't be impersonated, and nobody can impersonate themselves
+  const canImpersonate = (userData: User | null) =>
+    can('users.impersonate') &&
+    !!userData && userData.role !== 'admin' && String(userData.id) !== currentUser?.id;
+
   const openEditMode = () => {
     if (selectedUser) {
       setEditFirstName(selectedUser.first_name || '');
@@ -313,7 +381,7 @@ const AdminUsers = () => {
                 </div>
                 <div className="flex items-center gap-4">
                   <Badge className={getRoleColor(userData.role)}>
-                    {t(`adminUsers.roles.${userData.role}`)}
+                    {getRoleLabel(userData.role)}
                   </Badge>
                   <div className="text-right">
                     <div className={`flex items-center gap-1 text-sm ${getStatusColor(userData.status)}`}>
@@ -335,6 +403,45 @@ const AdminUsers = () => {
         </CardContent>
       </Card>
 
+      {/* Impersonation audit log */}
+      <Card className="card-shadow">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            {t('impersonation.historyTitle')}
+          </CardTitle>
+          <CardDescription>
+            {t('impersonation.historyDescription')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {impersonationSessions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('impersonation.noSessions')}</p>
+          ) : (
+            <div className="space-y-3">
+              {impersonationSessions.map((session) => (
+                <div key={session.id} className="flex items-start justify-between gap-4 p-3 rounded-lg border">
+                  <div>
+                    <p className="text-sm">
+                      {t('impersonation.sessionSummary', { admin: session.admin.name, target: session.target.name })}
+                    </p>
+                    <p className="text-sm text-muted-foreground">{session.reason}</p>
+                  </div>
+                  <div className="text-right text-xs text-muted-foreground whitespace-nowrap">
+                    <p>{format(new Date(session.started_at), 'PPp')}</p>
+                    <p>
+                      {session.ended_at
+                        ? t('impersonation.endedAt', { time: format(new Date(session.ended_at), 'p') })
+                        : t('impersonation.inProgress')}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* User Details/Edit Modal */}
       <Dialog open={isUserModalOpen} onOpenChange={(open) => {
         setIsUserModalOpen(open);
@@ -383,9 +490,9 @@ const AdminUsers = () => {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="student">{t('adminUsers.roles.student')}</SelectItem>
-                    <SelectItem value="teacher">{t('adminUsers.roles.teacher')}</SelectItem>
-                    <SelectItem value="admin">{t('adminUsers.roles.admin')}</SelectItem>
+                    {roleOptions.map((role) => (
+                      <SelectItem key={role} value={role}>{getRoleLabel(role)}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -420,7 +527,7 @@ const AdminUsers = () => {
                 <div className="p-4 border rounded-lg">
                   <p className="text-sm text-muted-foreground">{t('adminUsers.role')}</p>
                   <Badge className={getRoleColor(selectedUser?.role || '')}>
-                    {selectedUser?.role && t(`adminUsers.roles.${selectedUser.role}`)}
+                    {selectedUser?.role && getRoleLabel(selectedUser.role)}
                   </Badge>
                 </div>
               </div>
@@ -433,18 +540,56 @@ const AdminUsers = () => {
                 </div>
               </div>
 
+              {selectedUser?.role === 'guardian' && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => setIsLinkStudentsModalOpen(true)}
+                >
+                  <Link2 className="mr-2 h-4 w-4" />
+                  {t('guardian.linkStudents')}
+                </Button>
+              )}
+
+              {selectedUser?.role === 'student' && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => setIsAccommodationsModalOpen(true)}
+                >
+                  <Accessibility className="mr-2 h-4 w-4" />
+                  {t('accommodations.manage')}
+                </Button>
+              )}
+
+              {canImpersonate(selectedUser) && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => {
+                    setImpersonationReason('');
+                    setIsImpersonateModalOpen(true);
+                  }}
+                >
+                  <Eye className="mr-2 h-4 w-4" />
+                  {t('impersonation.viewAsUser')}
+                </Button>
+              )}
+
               <div className="flex gap-2 pt-4">
                 <Button variant="outline" className="flex-1" onClick={openEditMode}>
                   <Edit3 className="mr-2 h-4 w-4" />
                   {t('adminUsers.editUser')}
                 </Button>
-                <Button
-                  variant="destructive"
-                  onClick={() => selectedUser && handleDeleteUser(selectedUser.id)}
-                >
-                  <Trash2 className="mr-2 h-4 w-4" />
-                  {t('adminUsers.remove')}
-                </Button>
+                <Can permission="users.delete">
+                  <Button
+                    variant="destructive"
+                    onClick={() => selectedUser && handleDeleteUser(selectedUser.id)}
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    {t('adminUsers.remove')}
+                  </Button>
+                </Can>
                 <Button variant="outline" onClick={() => setIsUserModalOpen(false)}>
                   {t('common.close')}
                 </Button>
@@ -454,6 +599,59 @@ const AdminUsers = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Impersonation Modal */}
+      <Dialog open={isImpersonateModalOpen} onOpenChange={setIsImpersonateModalOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{t('impersonation.confirmTitle', { name: selectedUser?.name })}</DialogTitle>
+            <DialogDescription>
+              {t('impersonation.confirmDescription')}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="impersonationReason">{t('impersonation.reason')} *</Label>
+              <Textarea
+                id="impersonationReason"
+                value={impersonationReason}
+                onChange={(e) => setImpersonationReason(e.target.value)}
+                placeholder={t('impersonation.reasonPlaceholder')}
+                rows={3}
+              />
+            </div>
+
+            <div className="flex gap-2 pt-4">
+              <Button className="flex-1" onClick={handleImpersonate} disabled={impersonating}>
+                {impersonating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="mr-2 h-4 w-4" />}
+                {t('impersonation.start')}
+              </Button>
+              <Button variant="outline" onClick={() => setIsImpersonateModalOpen(false)}>
+                {t('common.cancel')}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {selectedUser?.role === 'guardian' && (
+        <LinkGuardianStudentsDialog
+          guardianId={selectedUser.id}
+          guardianName={selectedUser.name}
+          students={users.filter(u => u.role === 'student')}
+          open={isLinkStudentsModalOpen}
+          onOpenChange={setIsLinkStudentsModalOpen}
+        />
+      )}
+
+      {selectedUser?.role === 'student' && (
+        <AccommodationsDialog
+          studentId={selectedUser.id}
+          studentName={selectedUser.name}
+          open={isAccommodationsModalOpen}
+          onOpenChange={setIsAccommodationsModalOpen}
+        />
+      )}
+
       {/* Add User Modal */}
       <Dialog open={isAddUserModalOpen} onOpenChange={setIsAddUserModalOpen}>
         <DialogContent className="sm:max-w-lg">
@@ -510,9 +708,9 @@ const AdminUsers = () => {
                   <SelectValue placeholder={t('adminUsers.selectRole')} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="student">{t('adminUsers.roles.student')}</SelectItem>
-                  <SelectItem value="teacher">{t('adminUsers.roles.teacher')}</SelectItem>
-                  <SelectItem value="admin">{t('adminUsers.roles.admin')}</SelectItem>
+                  {roleOptions.map((role) => (
+                    <SelectItem key={role} value={role}>{getRoleLabel(role)}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -23,6 +23,7 @@ import {
 import api from '@/lib/axios';
 import { toast } from 'sonner';
 import { formatScoreAs20 } from '@/utils/scoreUtils';
+import { RichContent } from '@/components/RichContent';
 
 interface LessonPlanDetail {
   id: number;
@@ -592,7 +593,7 @@ export default function ChapterResources() {
               {selectedLesson.introduction && (
                 <div>
                   <h3 className="font-semibold mb-2">Introduction</h3>
-                  <p className="text-muted-foreground whitespace-pre-wrap">{selectedLesson.introduction}</p>
+                  <RichContent content={selectedLesson.introduction} className="text-muted-foreground" />
                 </div>
               )}
 
@@ -600,7 +601,7 @@ export default function ChapterResources() {
               {selectedLesson.main_content && (
                 <div>
                   <h3 className="font-semibold mb-2">Main Content</h3>
-                  <p className="text-muted-foreground whitespace-pre-wrap">{selectedLesson.main_content}</p>
+                  <RichContent content={selectedLesson.main_content} className="text-muted-foreground" />
                 </div>
               )}
 
@@ -618,7 +619,7 @@ export default function ChapterResources() {
                           )}
                         </CardHeader>
                         <CardContent>
-                          <p className="text-sm text-muted-foreground">{activity.description}</p>
+                          <RichContent content={activity.description} className="text-sm text-muted-foreground" />
                         </CardContent>
                       </Card>
                     ))}
@@ -630,7 +631,7 @@ export default function ChapterResources() {
               {selectedLesson.assessment && (
                 <div>
                   <h3 className="font-semibold mb-2">Assessment</h3>
-                  <p className="text-muted-foreground whitespace-pre-wrap">{selectedLesson.assessment}</p>
+                  <RichContent content={selectedLesson.assessment} className="text-muted-foreground" />
                 </div>
               )}
 
@@ -638,7 +639,7 @@ export default function ChapterResources() {
               {selectedLesson.homework && (
                 <div>
                   <h3 className="font-semibold mb-2">Homework</h3>
-                  <p className="text-muted-foreground whitespace-pre-wrap">{selectedLesson.homework}</p>
+                  <RichContent content={selectedLesson.homework} className="text-muted-foreground" />
                 </div>
               )}
 
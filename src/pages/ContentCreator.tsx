@@ -39,6 +39,9 @@ import {
 import { toast } from 'sonner';
 import { useNavigate } from 'react-router-dom';
 import api from '@/lib/axios';
+import { usePermission } from '@/hooks/usePermission';
+import { NumericQuestionForm } from '@/components/NumericQuestionForm';
+import { formatQuantity, formatTolerance } from '@/utils/numericAnswer';
 
 interface Subject {
   id: number;
@@ -63,6 +66,7 @@ interface Resource {
 
 const ContentCreator = () => {
   const navigate = useNavigate();
+  const canPublish = usePermission('content.publish');
 
   // Helper function to extract error message from API responses
   const getErrorMessage = (error: any, defaultMessage: string): string => {
@@ -472,10 +476,11 @@ const ContentCreator = () => {
         shuffle_questions: true,
         show_results_immediately: false,
         strict_mode: true,
-        is_published: true
+        // Without publish rights the exam is saved as a draft for someone else to release
+        is_published: canPublish
       });
 
-      toast.success('Exam created successfully!');
+      toast.success(canPublish ? 'Exam created successfully!' : 'Exam saved as a draft');
 
       // Reset form
       setExamTitle('');
@@ -761,6 +766,19 @@ const ContentCreator = () => {
               </CardContent>
             </Card>
 
+            {/* Hand-written numeric question */}
+            {selectedChapter && (
+              <div className="mt-4">
+                <NumericQuestionForm
+                  chapterId={selectedChapter}
+                  onCreated={() => {
+                    loadQuestionStatistics(selectedChapter);
+                    if (showQuestionViewer) loadQuestions(selectedChapter);
+                  }}
+                />
+              </div>
+            )}
+
             {/* Question Statistics Card */}
             {questionStats && questionStats.total_questions > 0 && (
               <Card className="mt-4">
@@ -801,7 +819,7 @@ const ContentCreator = () => {
 
                   <div>
                     <h4 className="font-semibold mb-2">By Question Type</h4>
-                    <div className="grid gap-2 md:grid-cols-3">
+                    <div className="grid gap-2 md:grid-cols-4">
                       <div className="flex items-center justify-between border rounded p-2">
                         <span className="text-sm">Multiple Choice</span>
                         <Badge>{questionStats.by_question_type?.mcq || 0}</Badge>
@@ -814,6 +832,10 @@ const ContentCreator = () => {
                         <span className="text-sm">Short Answer</span>
                         <Badge>{questionStats.by_question_type?.short_answer || 0}</Badge>
                       </div>
+                      <div className="flex items-center justify-between border rounded p-2">
+                        <span className="text-sm">Numeric</span>
+                        <Badge>{questionStats.by_question_type?.numeric || 0}</Badge>
+                      </div>
                     </div>
                   </div>
 
@@ -930,6 +952,7 @@ const ContentCreator = () => {
                           <SelectItem value="mcq">Multiple Choice</SelectItem>
                           <SelectItem value="true_false">True/False</SelectItem>
                           <SelectItem value="short_answer">Short Answer</SelectItem>
+                          <SelectItem value="numeric">Numeric</SelectItem>
                         </SelectContent>
                       </Select>
                     </div>
@@ -1010,7 +1033,13 @@ const ContentCreator = () => {
                                     ))}
                                   </div>
                                 )}
-                                {question.question_type !== 'mcq' && (
+                                {question.question_type === 'numeric' && question.numeric ? (
+                                  <div className="text-xs text-muted-foreground">
+                                    <strong>Answer:</strong> {formatQuantity(question.numeric.expected_value, question.numeric.unit)}
+                                    {formatTolerance(question.numeric) && ` (${formatTolerance(question.numeric)})`}
+                                    {question.numeric.significant_figures && `, ${question.numeric.significant_figures} significant figures`}
+                                  </div>
+                                ) : question.question_type !== 'mcq' && (
                                   <div className="text-xs text-muted-foreground">
                                     <strong>Answer:</strong> {question.correct_answer}
                                   </div>
@@ -10,9 +10,18 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { FileText, Clock, Target, AlertTriangle, Calendar } from "lucide-react";
+import { FileText, Clock, Target, AlertTriangle, Calendar, LayoutGrid, KeyRound, RefreshCw } from "lucide-react";
 import api from "@/lib/axios";
 import { toast } from "sonner";
+import { ExamBlueprintEditor } from "@/components/ExamBlueprintEditor";
+import { SectionOverrideDraft, SectionOverridesEditor } from "@/components/SectionOverridesEditor";
+import { usePoolAvailability } from "@/hooks/useExamBlueprint";
+import { ExamBlueprint } from "@/types/exam";
+import { EMPTY_BLUEPRINT, blueprintTotal, overdrawnCells } from "@/utils/examBlueprint";
+import { generateAccessCode } from "@/utils/examWindow";
+import { getLocalTimeZone, listTimeZones, toZonedInputValue, zonedTimeToUtc } from "@/utils/timezone";
+
+const TIME_ZONES = listTimeZones();
 
 interface Chapter {
   id: number;
@@ -36,21 +45,35 @@ export default function CreateExam() {
     strict_mode: true,
     available_from: "",
     available_until: "",
+    timezone: getLocalTimeZone(),
+    access_code_enabled: false,
+    access_code: "",
     max_attempts: "1",
     shuffle_questions: true,
+    shuffle_options: true,
     show_results_immediately: false,
     question_count: "30"
   });
+  const [sectionOverrides, setSectionOverrides] = useState<SectionOverrideDraft[]>([]);
+  const [blueprintEnabled, setBlueprintEnabled] = useState(false);
+  const [blueprint, setBlueprint] = useState<ExamBlueprint>(EMPTY_BLUEPRINT);
+  const {
+    data: pool = [],
+    isFetching: poolFetching,
+    isPlaceholderData: poolOutdated,
+  } = usePoolAvailability(blueprintEnabled ? blueprint.chapter_ids : []);
+  // Counts for the previous chapter selection can't tell whether this blueprint fits
+  const poolLoading = blueprintEnabled && (poolFetching || poolOutdated);
 
   useEffect(() => {
     fetchChapters();
-    // Set default dates (today and 7 days from now)
+    // Set default dates (today and 7 days from now), as the clocks in the exam's timezone show them
     const now = new Date();
     const nextWeek = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
     setFormData(prev => ({
       ...prev,
-      available_from: now.toISOString().slice(0, 16),
-      available_until: nextWeek.toISOString().slice(0, 16)
+      available_from: toZonedInputValue(now, prev.timezone),
+      available_until: toZonedInputValue(nextWeek, prev.timezone)
     }));
   }, []);
 
@@ -78,34 +101,74 @@ export default function CreateExam() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!formData.chapter_id || !formData.title || !formData.available_from || !formData.available_until) {
+    const hasChapter = blueprintEnabled ? blueprint.chapter_ids.length > 0 : !!formData.chapter_id;
+    if (!hasChapter || !formData.title || !formData.available_from || !formData.available_until) {
       toast.error(t('validation.fillAllRequired'));
       return;
     }
 
+    const ranges = [formData, ...sectionOverrides];
+    if (ranges.some(range => zonedTimeToUtc(range.available_until, formData.timezone) <= zonedTimeToUtc(range.available_from, formData.timezone))) {
+      toast.error(t('examWindow.closesBeforeOpening'));
+      return;
+    }
+
+    if (formData.access_code_enabled && !formData.access_code.trim()) {
+      toast.error(t('examWindow.accessCodeMissing'));
+      return;
+    }
+
+    if (poolLoading) {
+      toast.error(t('examBlueprint.poolLoading'));
+      return;
+    }
+
+    if (blueprintEnabled && (blueprintTotal(blueprint) === 0 || overdrawnCells(blueprint, pool).length > 0)) {
+      toast.error(t('examBlueprint.invalid'));
+      return;
+    }
+
     setLoading(true);
 
     try {
+      const questionCount = parseInt(formData.question_count);
+      const chapterIds = blueprintEnabled ? blueprint.chapter_ids : [parseInt(formData.chapter_id)];
       const payload = {
         title: formData.title,
         description: formData.description || null,
         exam_type: formData.exam_type,
-        chapter_id: parseInt(formData.chapter_id),
+        // The exam is listed under its first chapter; a blueprint draws from all of them
+        chapter_id: chapterIds[0],
+        chapter_ids: chapterIds,
         time_limit: parseInt(formData.time_limit),
         passing_score: parseFloat(formData.passing_score),
         total_points: parseFloat(formData.total_points),
         strict_mode: formData.strict_mode,
-        available_from: new Date(formData.available_from).toISOString(),
-        available_until: new Date(formData.available_until).toISOString(),
+        available_from: zonedTimeToUtc(formData.available_from, formData.timezone).toISOString(),
+        available_until: zonedTimeToUtc(formData.available_until, formData.timezone).toISOString(),
+        timezone: formData.timezone,
+        section_overrides: sectionOverrides.map(override => ({
+          section_id: parseInt(override.section_id),
+          available_from: zonedTimeToUtc(override.available_from, formData.timezone).toISOString(),
+          available_until: zonedTimeToUtc(override.available_until, formData.timezone).toISOString()
+        })),
+        access_code: formData.access_code_enabled ? formData.access_code.trim().toUpperCase() : null,
         max_attempts: parseInt(formData.max_attempts),
         shuffle_questions: formData.shuffle_questions,
+        shuffle_options: formData.shuffle_options,
         show_results_immediately: formData.show_results_immediately,
-        question_count: parseInt(formData.question_count),
-        questions_config: {
-          beginner: Math.floor(parseInt(formData.question_count) * 0.3),
-          medium: Math.floor(parseInt(formData.question_count) * 0.5),
-          advanced: Math.floor(parseInt(formData.question_count) * 0.2)
-        }
+        // With a blueprint, each student's questions are drawn per cell instead of by a fixed split
+        ...(blueprintEnabled ? {
+          question_count: blueprintTotal(blueprint),
+          blueprint
+        } : {
+          question_count: questionCount,
+          questions_config: {
+            beginner: Math.floor(questionCount * 0.3),
+            medium: Math.floor(questionCount * 0.5),
+            advanced: Math.floor(questionCount * 0.2)
+          }
+        })
       };
 
       await api.post("/exams/", payload);
@@ -184,45 +247,66 @@ export default function CreateExam() {
                 </Select>
               </div>
 
-              {/* Chapter Selection */}
-              <div className="space-y-2">
-                <Label htmlFor="chapter">
-                  {t('common.chapter')} <span className="text-destructive">*</span>
-                </Label>
-                <Select
-                  value={formData.chapter_id}
-                  onValueChange={(value) => setFormData({ ...formData, chapter_id: value })}
-                >
-                  <SelectTrigger id="chapter">
-                    <SelectValue placeholder={t('exams.selectChapter')} />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {chapters.map((chapter) => (
-                      <SelectItem key={chapter.id} value={chapter.id.toString()}>
-                        {chapter.name}
-                        {chapter.subject_name && ` (${chapter.subject_name})`}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-
-              {/* Question Count */}
-              <div className="space-y-2">
-                <Label htmlFor="question_count">{t('exams.numberOfQuestions')}</Label>
-                <Input
-                  id="question_count"
-                  type="number"
-                  value={formData.question_count}
-                  onChange={(e) => setFormData({ ...formData, question_count: e.target.value })}
-                  min="10"
-                  max="100"
-                  required
+              {/* Blueprint */}
+              <div className="flex items-center justify-between space-x-2">
+                <div className="space-y-0.5">
+                  <Label htmlFor="use_blueprint" className="cursor-pointer">
+                    {t('examBlueprint.useBlueprint')}
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    {t('examBlueprint.useBlueprintDescription')}
+                  </p>
+                </div>
+                <Switch
+                  id="use_blueprint"
+                  checked={blueprintEnabled}
+                  onCheckedChange={setBlueprintEnabled}
                 />
-                <p className="text-xs text-muted-foreground">
-                  {t('exams.questionDistribution')}
-                </p>
               </div>
+
+              {!blueprintEnabled && (
+                <>
+                  {/* Chapter Selection */}
+                  <div className="space-y-2">
+                    <Label htmlFor="chapter">
+                      {t('common.chapter')} <span className="text-destructive">*</span>
+                    </Label>
+                    <Select
+                      value={formData.chapter_id}
+                      onValueChange={(value) => setFormData({ ...formData, chapter_id: value })}
+                    >
+                      <SelectTrigger id="chapter">
+                        <SelectValue placeholder={t('exams.selectChapter')} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {chapters.map((chapter) => (
+                          <SelectItem key={chapter.id} value={chapter.id.toString()}>
+                            {chapter.name}
+                            {chapter.subject_name && ` (${chapter.subject_name})`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Question Count */}
+                  <div className="space-y-2">
+                    <Label htmlFor="question_count">{t('exams.numberOfQuestions')}</Label>
+                    <Input
+                      id="question_count"
+                      type="number"
+                      value={formData.question_count}
+                      onChange={(e) => setFormData({ ...formData, question_count: e.target.value })}
+                      min="10"
+                      max="100"
+                      required
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      {t('exams.questionDistribution')}
+                    </p>
+                  </div>
+                </>
+              )}
             </CardContent>
           </Card>
 
@@ -332,6 +416,38 @@ export default function CreateExam() {
                   required
                 />
               </div>
+
+              {/* Timezone */}
+              <div className="space-y-2">
+                <Label htmlFor="timezone">{t('examWindow.timezone')}</Label>
+                <Select
+                  value={formData.timezone}
+                  onValueChange={(value) => setFormData({ ...formData, timezone: value })}
+                >
+                  <SelectTrigger id="timezone">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIME_ZONES.map((zone) => (
+                      <SelectItem key={zone} value={zone}>{zone.replace(/_/g, ' ')}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {t('examWindow.timezoneDescription')}
+                </p>
+              </div>
+
+              {/* Section Overrides */}
+              <div className="space-y-2">
+                <Label>{t('examWindow.sectionOverrides')}</Label>
+                <SectionOverridesEditor
+                  value={sectionOverrides}
+                  onChange={setSectionOverrides}
+                  defaultFrom={formData.available_from}
+                  defaultUntil={formData.available_until}
+                />
+              </div>
             </CardContent>
           </Card>
 
@@ -362,6 +478,53 @@ export default function CreateExam() {
                 />
               </div>
 
+              {/* Access Code */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between space-x-2">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="access_code_enabled" className="cursor-pointer">
+                      {t('examWindow.requireAccessCode')}
+                    </Label>
+                    <p className="text-xs text-muted-foreground">
+                      {t('examWindow.requireAccessCodeDescription')}
+                    </p>
+                  </div>
+                  <Switch
+                    id="access_code_enabled"
+                    checked={formData.access_code_enabled}
+                    onCheckedChange={(checked) => setFormData({
+                      ...formData,
+                      access_code_enabled: checked,
+                      access_code: checked && !formData.access_code ? generateAccessCode() : formData.access_code
+                    })}
+                  />
+                </div>
+                {formData.access_code_enabled && (
+                  <div className="flex gap-2">
+                    <div className="relative flex-1">
+                      <KeyRound className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                      <Input
+                        id="access_code"
+                        value={formData.access_code}
+                        onChange={(e) => setFormData({ ...formData, access_code: e.target.value.toUpperCase() })}
+                        className="pl-9 font-mono tracking-widest"
+                        aria-label={t('examWindow.accessCode')}
+                        maxLength={12}
+                      />
+                    </div>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setFormData({ ...formData, access_code: generateAccessCode() })}
+                      aria-label={t('examWindow.regenerateCode')}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+
               {/* Shuffle Questions */}
               <div className="flex items-center justify-between space-x-2">
                 <div className="space-y-0.5">
@@ -379,6 +542,23 @@ export default function CreateExam() {
                 />
               </div>
 
+              {/* Shuffle Options */}
+              <div className="flex items-center justify-between space-x-2">
+                <div className="space-y-0.5">
+                  <Label htmlFor="shuffle_options" className="cursor-pointer">
+                    {t('exams.shuffleOptions')}
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    {t('exams.shuffleOptionsDescription')}
+                  </p>
+                </div>
+                <Switch
+                  id="shuffle_options"
+                  checked={formData.shuffle_options}
+                  onCheckedChange={(checked) => setFormData({ ...formData, shuffle_options: checked })}
+                />
+              </div>
+
               {/* Show Results Immediately */}
               <div className="flex items-center justify-between space-x-2">
                 <div className="space-y-0.5">
@@ -397,6 +577,22 @@ export default function CreateExam() {
               </div>
             </CardContent>
           </Card>
+
+          {/* Blueprint Card */}
+          {blueprintEnabled && (
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <LayoutGrid className="h-5 w-5" />
+                  {t('examBlueprint.title')}
+                </CardTitle>
+                <CardDescription>{t('examBlueprint.description')}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ExamBlueprintEditor chapters={chapters} value={blueprint} onChange={setBlueprint} />
+              </CardContent>
+            </Card>
+          )}
         </div>
 
         {/* Strict Mode Warning */}
@@ -413,7 +609,7 @@ export default function CreateExam() {
         <div className="flex items-center gap-4 mt-8">
           <Button
             type="submit"
-            disabled={loading}
+            disabled={loading || poolLoading}
             className="flex-1"
             size="lg"
           >
@@ -0,0 +1,270 @@
+import { useState, useEffect } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { toast } from "sonner";
+import { ArrowLeft, CheckCircle, ClipboardCheck, Loader2, Sparkles } from "lucide-react";
+import { RichContent } from "@/components/RichContent";
+import { ShortAnswerGradeCard } from "@/components/ShortAnswerGradeCard";
+import { useGradeAnswer, useShortAnswerGrading, useSuggestAnswerGrade } from "@/hooks/useShortAnswerGrading";
+import { AnswerGradeUpdate } from "@/types/exam";
+import { cn } from "@/lib/utils";
+import { getErrorDetail } from "@/utils/errorUtils";
+
+const answerKey = (questionId: number, attemptId: number) => `${questionId}:${attemptId}`;
+
+export default function ExamGrading() {
+  const { t } = useTranslation();
+  const { examId } = useParams();
+  const navigate = useNavigate();
+  const { data, isLoading, error } = useShortAnswerGrading(Number(examId));
+  const suggestGrade = useSuggestAnswerGrade(Number(examId));
+  const gradeAnswer = useGradeAnswer(Number(examId));
+
+  const [selectedQuestionId, setSelectedQuestionId] = useState<number | null>(null);
+  const [unmarkedOnly, setUnmarkedOnly] = useState(false);
+  // Answers with a request in flight; several cards can be busy at once
+  const [suggesting, setSuggesting] = useState<Set<string>>(new Set());
+  const [saving, setSaving] = useState<Set<string>>(new Set());
+  const [suggestingAll, setSuggestingAll] = useState(false);
+
+  useEffect(() => {
+    if (error) toast.error(getErrorDetail(error, t('shortAnswerGrading.loadFailed')));
+  }, [error, t]);
+
+  useEffect(() => {
+    if (data && selectedQuestionId === null && data.questions.length > 0) {
+      setSelectedQuestionId(data.questions[0].question_id);
+    }
+  }, [data, selectedQuestionId]);
+
+  const markBusy = (setter: typeof setSaving, key: string, busy: boolean) => {
+    setter(prev => {
+      const next = new Set(prev);
+      if (busy) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  const handleSuggest = async (questionId: number, attemptId: number) => {
+    const key = answerKey(questionId, attemptId);
+    markBusy(setSuggesting, key, true);
+    try {
+      await suggestGrade.mutateAsync({ attemptId, questionId });
+    } catch (error) {
+      toast.error(getErrorDetail(error, t('shortAnswerGrading.suggestFailed')));
+    } finally {
+      markBusy(setSuggesting, key, false);
+    }
+  };
+
+  const handleSave = async (questionId: number, attemptId: number, grade: AnswerGradeUpdate) => {
+    const key = answerKey(questionId, attemptId);
+    markBusy(setSaving, key, true);
+    try {
+      await gradeAnswer.mutateAsync({ attemptId, questionId, grade });
+      toast.success(t('shortAnswerGrading.saved'));
+    } catch (error) {
+      toast.error(getErrorDetail(error, t('shortAnswerGrading.saveFailed')));
+    } finally {
+      markBusy(setSaving, key, false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p>{t('shortAnswerGrading.loading')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="container mx-auto py-8 px-4">
+        <Card>
+          <CardContent className="text-center py-12">
+            <p className="text-muted-foreground">{t('shortAnswerGrading.notLoaded')}</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const question = data.questions.find(q => q.question_id === selectedQuestionId) ?? data.questions[0];
+  const attempts = new Map(data.attempts.map(attempt => [attempt.attempt_id, attempt]));
+  const totalAnswers = data.questions.reduce((sum, q) => sum + q.responses.length, 0);
+  const markedAnswers = data.questions.reduce(
+    (sum, q) => sum + q.responses.filter(response => response.points_awarded !== null).length,
+    0
+  );
+  const fullyMarked = data.attempts.filter(attempt => attempt.pending_questions === 0).length;
+  const responses = question
+    ? question.responses.filter(response => !unmarkedOnly || response.points_awarded === null)
+    : [];
+  const unsuggested = question
+    ? question.responses.filter(response => response.points_awarded === null && !response.ai_suggestion && response.answer.trim())
+    : [];
+
+  // One at a time, so a long list doesn't flood the AI service
+  const handleSuggestAll = async () => {
+    if (!question) return;
+    setSuggestingAll(true);
+    for (const response of unsuggested) {
+      await handleSuggest(question.question_id, response.attempt_id);
+    }
+    setSuggestingAll(false);
+  };
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">{t('shortAnswerGrading.title', { title: data.exam_title })}</h1>
+          <p className="text-muted-foreground">
+            {t('shortAnswerGrading.subtitle')}
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => navigate(`/exam-submissions/${examId}`)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          {t('shortAnswerGrading.backToSubmissions')}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">{t('shortAnswerGrading.answersMarked')}</p>
+            <p className="text-2xl font-bold">{markedAnswers} / {totalAnswers}</p>
+            <Progress value={totalAnswers ? (markedAnswers / totalAnswers) * 100 : 0} className="mt-2" />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">{t('shortAnswerGrading.attemptsFullyMarked')}</p>
+            <p className="text-2xl font-bold">{fullyMarked} / {data.attempts.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">{t('shortAnswerGrading.passingScore')}</p>
+            <p className="text-2xl font-bold">{data.passing_score}%</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {data.questions.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <ClipboardCheck className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-muted-foreground">{t('shortAnswerGrading.noQuestions')}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <Card className="lg:col-span-1 h-fit">
+            <CardHeader>
+              <CardTitle className="text-lg">{t('shortAnswerGrading.questions')}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {data.questions.map((q, idx) => {
+                const marked = q.responses.filter(response => response.points_awarded !== null).length;
+                const done = marked === q.responses.length;
+                return (
+                  <button
+                    key={q.question_id}
+                    type="button"
+                    onClick={() => setSelectedQuestionId(q.question_id)}
+                    className={cn(
+                      "w-full rounded-md border p-3 text-left text-sm transition-colors hover:bg-accent",
+                      q.question_id === question?.question_id && "border-primary bg-accent"
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">{t('shortAnswerGrading.questionNumber', { number: idx + 1 })}</span>
+                      {done ? (
+                        <CheckCircle className="h-4 w-4 text-green-600" />
+                      ) : (
+                        <Badge variant="outline">{marked}/{q.responses.length}</Badge>
+                      )}
+                    </div>
+                    <p className="mt-1 line-clamp-2 text-muted-foreground">{q.question_text}</p>
+                  </button>
+                );
+              })}
+            </CardContent>
+          </Card>
+
+          {question && (
+            <div className="lg:col-span-3 space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between gap-2">
+                    <span>{t('shortAnswerGrading.question')}</span>
+                    <Badge variant="secondary">{t('shortAnswerGrading.maxPoints', { points: question.max_points })}</Badge>
+                  </CardTitle>
+                  <RichContent content={question.question_text} className="text-base" />
+                </CardHeader>
+                {question.model_answer && (
+                  <CardContent>
+                    <p className="text-sm font-medium mb-1">{t('shortAnswerGrading.modelAnswer')}</p>
+                    <RichContent content={question.model_answer} className="text-sm text-muted-foreground" />
+                  </CardContent>
+                )}
+              </Card>
+
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center space-x-2">
+                  <Switch id="unmarked_only" checked={unmarkedOnly} onCheckedChange={setUnmarkedOnly} />
+                  <Label htmlFor="unmarked_only" className="cursor-pointer">{t('shortAnswerGrading.unmarkedOnly')}</Label>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleSuggestAll}
+                  disabled={suggestingAll || unsuggested.length === 0}
+                >
+                  {suggestingAll ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sparkles className="h-4 w-4 mr-2" />}
+                  {t('shortAnswerGrading.suggestAll', { count: unsuggested.length })}
+                </Button>
+              </div>
+
+              {responses.length === 0 ? (
+                <Card>
+                  <CardContent className="text-center py-8">
+                    <p className="text-muted-foreground">
+                      {unmarkedOnly ? t('shortAnswerGrading.allMarked') : t('shortAnswerGrading.noAnswers')}
+                    </p>
+                  </CardContent>
+                </Card>
+              ) : (
+                responses.map(response => (
+                  <ShortAnswerGradeCard
+                    key={response.attempt_id}
+                    questionId={question.question_id}
+                    response={response}
+                    maxPoints={question.max_points}
+                    attempt={attempts.get(response.attempt_id)}
+                    suggesting={suggesting.has(answerKey(question.question_id, response.attempt_id))}
+                    saving={saving.has(answerKey(question.question_id, response.attempt_id))}
+                    onSuggest={() => handleSuggest(question.question_id, response.attempt_id)}
+                    onSave={(grade) => handleSave(question.question_id, response.attempt_id, grade)}
+                  />
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
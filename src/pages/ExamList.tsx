@@ -3,10 +3,11 @@ import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Calendar, Clock, AlertTriangle } from "lucide-react";
+import { Calendar, Clock, AlertTriangle, Lock, Timer } from "lucide-react";
 import api from "@/lib/axios";
 import { toast } from "sonner";
-import { format } from "date-fns";
+import { formatCountdown, getExamWindowStatus } from "@/utils/examWindow";
+import { formatZonedDateTime } from "@/utils/timezone";
 
 interface Exam {
   id: number;
@@ -18,18 +19,29 @@ interface Exam {
   strict_mode: boolean;
   available_from: string;
   available_until: string;
+  timezone?: string;
+  section_name?: string | null;
+  access_code_required?: boolean;
   max_attempts: number;
+  attempts_used?: number;
 }
 
 export default function ExamList() {
   const [exams, setExams] = useState<Exam[]>([]);
   const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(Date.now());
   const navigate = useNavigate();
 
   useEffect(() => {
     fetchExams();
   }, []);
 
+  // Drives the countdowns to opening time
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
   const fetchExams = async () => {
     try {
       const response = await api.get("/exams/available");
@@ -80,75 +92,102 @@ export default function ExamList() {
         </Card>
       ) : (
         <div className="space-y-4">
-          {exams.map((exam) => (
-            <Card key={exam.id} className="hover:shadow-lg transition-shadow">
-              <CardHeader>
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <div className="flex items-center gap-3 mb-2">
-                      <CardTitle>{exam.title}</CardTitle>
-                      {getExamTypeBadge(exam.exam_type)}
-                      {exam.strict_mode && (
-                        <Badge variant="destructive" className="flex items-center gap-1">
-                          <AlertTriangle className="h-3 w-3" />
-                          Strict Mode
-                        </Badge>
-                      )}
+          {exams.map((exam) => {
+            const status = getExamWindowStatus(exam, now);
+            return (
+              <Card key={exam.id} className="hover:shadow-lg transition-shadow">
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-3 mb-2">
+                        <CardTitle>{exam.title}</CardTitle>
+                        {getExamTypeBadge(exam.exam_type)}
+                        {exam.strict_mode && (
+                          <Badge variant="destructive" className="flex items-center gap-1">
+                            <AlertTriangle className="h-3 w-3" />
+                            Strict Mode
+                          </Badge>
+                        )}
+                        {exam.access_code_required && (
+                          <Badge variant="outline" className="flex items-center gap-1">
+                            <Lock className="h-3 w-3" />
+                            Access Code
+                          </Badge>
+                        )}
+                      </div>
+                      <CardDescription>{exam.description}</CardDescription>
                     </div>
-                    <CardDescription>{exam.description}</CardDescription>
                   </div>
-                </div>
-              </CardHeader>
+                </CardHeader>
 
-              <CardContent className="space-y-4">
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
-                  <div className="flex items-center gap-2">
-                    <Clock className="h-4 w-4 text-muted-foreground" />
-                    <span>{exam.time_limit} minutes</span>
-                  </div>
-                  <div>
-                    <span className="text-muted-foreground">Passing: </span>
-                    <span className="font-semibold">{exam.passing_score}%</span>
-                  </div>
-                  <div>
-                    <span className="text-muted-foreground">Attempts: </span>
-                    <span className="font-semibold">{exam.max_attempts}</span>
-                  </div>
-                  <div>
-                    <span className="text-muted-foreground">Type: </span>
-                    <span className="font-semibold capitalize">{exam.exam_type.replace('_', ' ')}</span>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                    <div className="flex items-center gap-2">
+                      <Clock className="h-4 w-4 text-muted-foreground" />
+                      <span>{exam.time_limit} minutes</span>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Passing: </span>
+                      <span className="font-semibold">{exam.passing_score}%</span>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Attempts: </span>
+                      <span className="font-semibold">
+                        {exam.attempts_used !== undefined ? `${exam.attempts_used}/${exam.max_attempts}` : exam.max_attempts}
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Type: </span>
+                      <span className="font-semibold capitalize">{exam.exam_type.replace('_', ' ')}</span>
+                    </div>
                   </div>
-                </div>
 
-                <div className="flex items-center justify-between pt-2 border-t">
-                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                    <Calendar className="h-4 w-4" />
-                    <span>
-                      Until {format(new Date(exam.available_until), "MMM d, yyyy HH:mm")}
-                    </span>
-                  </div>
+                  <div className="flex items-center justify-between pt-2 border-t">
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Calendar className="h-4 w-4" />
+                      <span>
+                        {status === 'upcoming'
+                          ? `Opens ${formatZonedDateTime(exam.available_from)}`
+                          : status === 'closed'
+                            ? `Closed ${formatZonedDateTime(exam.available_until)}`
+                            : `Until ${formatZonedDateTime(exam.available_until)}`}
+                        {exam.section_name && ` (${exam.section_name})`}
+                      </span>
+                    </div>
 
-                  <Button onClick={() => navigate(`/exam/${exam.id}`)}>
-                    Start Exam
-                  </Button>
-                </div>
+                    <div className="flex items-center gap-3">
+                      {status === 'upcoming' && (
+                        <Badge variant="secondary" className="flex items-center gap-1 font-mono">
+                          <Timer className="h-3 w-3" />
+                          Opens in {formatCountdown(new Date(exam.available_from).getTime(), now)}
+                        </Badge>
+                      )}
+                      {status === 'no_attempts_left' && (
+                        <Badge variant="secondary">No attempts left</Badge>
+                      )}
+                      <Button onClick={() => navigate(`/exam/${exam.id}`)} disabled={status !== 'open'}>
+                        {status === 'closed' ? "Closed" : "Start Exam"}
+                      </Button>
+                    </div>
+                  </div>
 
-                {exam.strict_mode && (
-                  <div className="bg-yellow-50 dark:bg-yellow-950/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-3">
-                    <div className="flex items-start gap-2">
-                      <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
-                      <div className="text-sm">
-                        <p className="font-semibold text-yellow-800 dark:text-yellow-200">Strict Mode Enabled</p>
-                        <p className="text-yellow-700 dark:text-yellow-300">
-                          Tab switching will be monitored. Full screen required. Violations will be recorded.
-                        </p>
+                  {exam.strict_mode && (
+                    <div className="bg-yellow-50 dark:bg-yellow-950/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-3">
+                      <div className="flex items-start gap-2">
+                        <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
+                        <div className="text-sm">
+                          <p className="font-semibold text-yellow-800 dark:text-yellow-200">Strict Mode Enabled</p>
+                          <p className="text-yellow-700 dark:text-yellow-300">
+                            Tab switching will be monitored. Full screen required. Violations will be recorded.
+                          </p>
+                        </div>
                       </div>
                     </div>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          ))}
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
       )}
     </div>
@@ -9,6 +9,11 @@ import api from "@/lib/axios";
 import { toast } from "sonner";
 import { format } from "date-fns";
 import { formatScoreAs20, percentageTo20 } from "@/utils/scoreUtils";
+import { NumericResultDetails } from "@/components/NumericAnswer";
+import { AnswerText } from "@/components/MathInput";
+import { RichContent } from "@/components/RichContent";
+import { NumericAnswerSpec } from "@/types/question";
+import { DisplayOption, getDisplayOptions, orderLikeAttempt } from "@/utils/attemptShuffle";
 
 interface Answer {
   question_id: number;
@@ -16,6 +21,9 @@ interface Answer {
   student_answer: string;
   correct_answer: string;
   is_correct: boolean;
+  question_type?: string;
+  numeric?: NumericAnswerSpec; // Marking rules of a numeric question
+  options?: Record<string, string> | string[]; // Multiple-choice options, keyed as in the answers
 }
 
 interface ExamResult {
@@ -25,6 +33,8 @@ interface ExamResult {
     exam_type: string;
     passing_score: number;
     strict_mode: boolean;
+    shuffle_questions?: boolean;
+    shuffle_options?: boolean;
   };
   score: number;
   passed: boolean;
@@ -33,6 +43,7 @@ interface ExamResult {
   violations_count: number;
   flagged_for_review: boolean;
   answers: Answer[];
+  question_ids?: number[]; // Every question in the attempt, answered or not
 }
 
 export default function ExamResults() {
@@ -79,6 +90,29 @@ export default function ExamResults() {
   const correctAnswers = result.answers.filter(a => a.is_correct).length;
   const totalQuestions = result.answers.length;
 
+  // Replay the attempt's shuffle so the review matches what the student saw; it
+  // needs the full question list (older API versions don't send it)
+  const shuffleSeed = Number(attemptId);
+  const inAttemptOrder = result.exam.shuffle_questions !== false && !!result.question_ids?.length;
+  const answers = inAttemptOrder
+    ? orderLikeAttempt(result.answers, result.question_ids, shuffleSeed, answer => answer.question_id)
+    : result.answers;
+  const displayOptions = (answer: Answer): DisplayOption[] | null =>
+    answer.options
+      ? getDisplayOptions(answer.options, result.exam.shuffle_options === false ? null : shuffleSeed, answer.question_id)
+      : null;
+
+  // A chosen option with the letter it had on the student's screen
+  const renderAnswer = (value: string, options: DisplayOption[] | null) => {
+    const option = options?.find(candidate => candidate.key === value);
+    if (!option) return <AnswerText answer={value} />;
+    return (
+      <>
+        <span className="font-semibold">{option.label}.</span> <RichContent content={option.value} inline />
+      </>
+    );
+  };
+
   return (
     <div className="container max-w-5xl mx-auto py-8 px-4">
       <div className="mb-8">
@@ -165,49 +199,59 @@ export default function ExamResults() {
       <Card>
         <CardHeader>
           <CardTitle>{t('examResults.questionReview')}</CardTitle>
-          <CardDescription>{t('examResults.reviewDescription')}</CardDescription>
+          <CardDescription>
+            {t('examResults.reviewDescription')}
+            {inAttemptOrder && (
+              <span className="block mt-1">{t('examResults.yourOrderNote')}</span>
+            )}
+          </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          {result.answers.map((answer, idx) => (
-            <div
-              key={idx}
-              className={`border rounded-lg p-4 ${
-                answer.is_correct
-                  ? 'border-green-200 bg-green-50/50 dark:bg-green-950/20'
-                  : 'border-red-200 bg-red-50/50 dark:bg-red-950/20'
-              }`}
-            >
-              <div className="flex items-start gap-3">
-                <div className="mt-1">
-                  {answer.is_correct ? (
-                    <CheckCircle2 className="h-5 w-5 text-green-600" />
-                  ) : (
-                    <XCircle className="h-5 w-5 text-red-600" />
-                  )}
-                </div>
-                <div className="flex-1 space-y-2">
-                  <div className="flex items-center justify-between">
-                    <h4 className="font-semibold">{t('examResults.questionNumber', { number: idx + 1 })}</h4>
-                    <Badge variant={answer.is_correct ? "default" : "destructive"}>
-                      {answer.is_correct ? t('examResults.correct') : t('examResults.incorrect')}
-                    </Badge>
+          {answers.map((answer, idx) => {
+            const options = displayOptions(answer);
+            return (
+              <div
+                key={answer.question_id}
+                className={`border rounded-lg p-4 ${
+                  answer.is_correct
+                    ? 'border-green-200 bg-green-50/50 dark:bg-green-950/20'
+                    : 'border-red-200 bg-red-50/50 dark:bg-red-950/20'
+                }`}
+              >
+                <div className="flex items-start gap-3">
+                  <div className="mt-1">
+                    {answer.is_correct ? (
+                      <CheckCircle2 className="h-5 w-5 text-green-600" />
+                    ) : (
+                      <XCircle className="h-5 w-5 text-red-600" />
+                    )}
                   </div>
-                  <p className="text-sm">{answer.question_text}</p>
-
-                  <div className="space-y-1 text-sm">
-                    <div className={answer.is_correct ? "text-green-700 dark:text-green-300" : "text-red-700 dark:text-red-300"}>
-                      <strong>{t('examResults.yourAnswer')}:</strong> {answer.student_answer}
+                  <div className="flex-1 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <h4 className="font-semibold">{t('examResults.questionNumber', { number: idx + 1 })}</h4>
+                      <Badge variant={answer.is_correct ? "default" : "destructive"}>
+                        {answer.is_correct ? t('examResults.correct') : t('examResults.incorrect')}
+                      </Badge>
                     </div>
-                    {!answer.is_correct && (
-                      <div className="text-green-700 dark:text-green-300">
-                        <strong>{t('examResults.correctAnswer')}:</strong> {answer.correct_answer}
+                    <RichContent content={answer.question_text} className="text-sm" />
+
+                    <div className="space-y-1 text-sm">
+                      <div className={answer.is_correct ? "text-green-700 dark:text-green-300" : "text-red-700 dark:text-red-300"}>
+                        <strong>{t('examResults.yourAnswer')}:</strong> {renderAnswer(answer.student_answer, options)}
                       </div>
-                    )}
+                      {answer.numeric ? (
+                        <NumericResultDetails answer={answer.student_answer} spec={answer.numeric} isCorrect={answer.is_correct} />
+                      ) : !answer.is_correct && (
+                        <div className="text-green-700 dark:text-green-300">
+                          <strong>{t('examResults.correctAnswer')}:</strong> {renderAnswer(answer.correct_answer, options)}
+                        </div>
+                      )}
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </CardContent>
       </Card>
 
@@ -9,6 +9,7 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { toast } from "sonner";
 import { 
   AlertTriangle, 
@@ -23,11 +24,19 @@ import {
   TrendingUp,
   Edit,
   Save,
-  X
+  X,
+  ListOrdered,
+  FlagOff,
+  Accessibility,
+  ClipboardCheck
 } from "lucide-react";
 import api from "@/lib/axios";
 import { formatDistanceToNow } from "date-fns";
 import { formatScoreAs20 } from "@/utils/scoreUtils";
+import { ProctoringReviewDrawer, ReviewedAttempt } from "@/components/ProctoringReviewDrawer";
+import { AccommodationsDialog } from "@/components/AccommodationsDialog";
+import { FlagDecision } from "@/types/proctoring";
+import { AttemptAccommodations } from "@/types/accommodations";
 
 interface ExamSubmission {
   attempt_id: number;
@@ -44,8 +53,34 @@ interface ExamSubmission {
   violations: any[];
   is_flagged: boolean;
   violation_count: number;
+  started_at?: string | null;
+  flag_review?: FlagDecision | null; // Latest teacher decision on the flag
+  accommodations?: AttemptAccommodations | null; // Applied to this attempt
 }
 
+const isFlagged = (submission: ExamSubmission) =>
+  submission.flag_review !== 'cleared' && (submission.is_flagged || submission.violation_count > 0);
+
+// Attempts shown under "Most suspicious"
+const MOST_SUSPICIOUS_LIMIT = 10;
+
+// Rough ranking for review order; a confirmed or cleared flag takes the attempt out of the queue
+const suspicionScore = (submission: ExamSubmission) => {
+  if (submission.flag_review) return 0;
+  return submission.violation_count * 2 + submission.tab_switches + (submission.is_flagged ? 5 : 0);
+};
+
+// What the accommodations changed about an attempt, e.g. why it ran long
+const describeAccommodations = (accommodations: AttemptAccommodations) => {
+  const parts: string[] = [];
+  if (accommodations.time_multiplier > 1) parts.push(`×${accommodations.time_multiplier} time`);
+  if (accommodations.waive_strict_mode) parts.push("strict mode waived");
+  if (accommodations.allow_pause) {
+    parts.push(`${Math.round(accommodations.paused_seconds / 60)} min on breaks`);
+  }
+  return parts;
+};
+
 interface ExamSubmissionsData {
   exam_id: number;
   exam_title: string;
@@ -62,6 +97,8 @@ export default function ExamSubmissions() {
   const [data, setData] = useState<ExamSubmissionsData | null>(null);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState("all");
+  const [reviewedAttempt, setReviewedAttempt] = useState<ReviewedAttempt | null>(null);
+  const [accommodationsStudent, setAccommodationsStudent] = useState<{ id: number; name: string } | null>(null);
   
   // Grade editing state
   const [isGradeDialogOpen, setIsGradeDialogOpen] = useState(false);
@@ -88,6 +125,22 @@ export default function ExamSubmissions() {
   };
 
   const getStatusBadge = (submission: ExamSubmission) => {
+    if (submission.flag_review === 'cleared') {
+      return (
+        <Badge variant="outline" className="flex items-center gap-1">
+          <FlagOff className="h-3 w-3" />
+          Flag cleared
+        </Badge>
+      );
+    }
+    if (submission.flag_review === 'confirmed') {
+      return (
+        <Badge variant="destructive" className="flex items-center gap-1">
+          <Flag className="h-3 w-3" />
+          Flag confirmed
+        </Badge>
+      );
+    }
     if (submission.is_flagged || submission.violation_count > 0) {
       return (
         <Badge variant="destructive" className="flex items-center gap-1">
@@ -196,8 +249,43 @@ export default function ExamSubmissions() {
     }
   };
 
-  const filteredSubmissions = data?.submissions.filter(submission => {
-    if (activeTab === "flagged") return submission.is_flagged || submission.violation_count > 0;
+  const openReview = (submission: ExamSubmission) => {
+    // Older attempts don't report a start time; work it back from the time spent
+    const startedAt = submission.started_at
+      ?? (submission.submitted_at && submission.time_spent
+        ? new Date(new Date(submission.submitted_at).getTime() - submission.time_spent * 1000).toISOString()
+        : null);
+
+    setReviewedAttempt({
+      attemptId: submission.attempt_id,
+      studentName: submission.student_name,
+      startedAt,
+      submittedAt: submission.submitted_at,
+    });
+  };
+
+  const handleFlagReviewed = (attemptId: number, decision: FlagDecision) => {
+    if (!data) return;
+    const updatedSubmissions = data.submissions.map(sub =>
+      sub.attempt_id === attemptId
+        ? { ...sub, flag_review: decision, is_flagged: decision === 'confirmed' }
+        : sub
+    );
+    setData({
+      ...data,
+      submissions: updatedSubmissions,
+      flagged_submissions: updatedSubmissions.filter(isFlagged).length,
+    });
+    setReviewedAttempt(null);
+  };
+
+  const mostSuspicious = (data?.submissions || [])
+    .filter(submission => suspicionScore(submission) > 0)
+    .sort((a, b) => suspicionScore(b) - suspicionScore(a))
+    .slice(0, MOST_SUSPICIOUS_LIMIT);
+
+  const filteredSubmissions = activeTab === "suspicious" ? mostSuspicious : data?.submissions.filter(submission => {
+    if (activeTab === "flagged") return isFlagged(submission);
     if (activeTab === "passed") return submission.passed;
     if (activeTab === "failed") return !submission.passed;
     return true;
@@ -238,9 +326,15 @@ export default function ExamSubmissions() {
               Review student exam submissions and violations
             </p>
           </div>
-          <Button variant="outline" onClick={() => navigate("/teacher")}>
-            Back to Dashboard
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => navigate(`/exam-submissions/${examId}/grading`)}>
+              <ClipboardCheck className="h-4 w-4 mr-2" />
+              Grade Short Answers
+            </Button>
+            <Button variant="outline" onClick={() => navigate("/teacher")}>
+              Back to Dashboard
+            </Button>
+          </div>
         </div>
 
         {/* Exam Info */}
@@ -308,9 +402,10 @@ export default function ExamSubmissions() {
 
       {/* Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="all">All ({data.total_submissions})</TabsTrigger>
           <TabsTrigger value="flagged">Flagged ({data.flagged_submissions})</TabsTrigger>
+          <TabsTrigger value="suspicious">Most Suspicious ({mostSuspicious.length})</TabsTrigger>
           <TabsTrigger value="passed">Passed</TabsTrigger>
           <TabsTrigger value="failed">Failed</TabsTrigger>
         </TabsList>
@@ -332,10 +427,41 @@ export default function ExamSubmissions() {
                             Auto-submitted
                           </Badge>
                         )}
+                        {submission.accommodations && (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Badge variant="secondary" className="flex items-center gap-1">
+                                <Accessibility className="h-3 w-3" />
+                                Accommodations
+                              </Badge>
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              {describeAccommodations(submission.accommodations).join(" · ") || "Profile on file"}
+                            </TooltipContent>
+                          </Tooltip>
+                        )}
                       </CardTitle>
                       <CardDescription>{submission.student_email}</CardDescription>
                     </div>
                     <div className="flex gap-2">
+                      {(data.strict_mode || submission.is_flagged) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openReview(submission)}
+                        >
+                          <ListOrdered className="h-4 w-4 mr-2" />
+                          Review
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setAccommodationsStudent({ id: submission.student_id, name: submission.student_name })}
+                      >
+                        <Accessibility className="h-4 w-4 mr-2" />
+                        Accommodations
+                      </Button>
                       <Button 
                         variant="outline" 
                         size="sm"
@@ -369,6 +495,11 @@ export default function ExamSubmissions() {
                       <span className="font-semibold">
                         {formatTime(submission.time_spent)}
                       </span>
+                      {!!submission.accommodations?.paused_seconds && (
+                        <span className="text-muted-foreground">
+                          {" "}(+{formatTime(submission.accommodations.paused_seconds)} breaks)
+                        </span>
+                      )}
                     </div>
                     <div>
                       <span className="text-muted-foreground">Tab Switches: </span>
@@ -392,26 +523,6 @@ export default function ExamSubmissions() {
                       </span>
                     </div>
                   </div>
-
-                  {/* Violation Details */}
-                  {submission.violations.length > 0 && (
-                    <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
-                      <h4 className="font-semibold text-red-800 mb-2">Violation Details:</h4>
-                      <ul className="space-y-1 text-sm text-red-700">
-                        {submission.violations.map((violation, index) => (
-                          <li key={index} className="flex items-center gap-2">
-                            <AlertTriangle className="h-3 w-3" />
-                            {violation.type}: {violation.description || 'Detected violation'}
-                            {violation.timestamp && (
-                              <span className="text-red-600 ml-2">
-                                ({new Date(violation.timestamp).toLocaleTimeString()})
-                              </span>
-                            )}
-                          </li>
-                        ))}
-                      </ul>
-                    </div>
-                  )}
                 </CardContent>
               </Card>
             ))}
@@ -427,6 +538,21 @@ export default function ExamSubmissions() {
         </TabsContent>
       </Tabs>
 
+      <ProctoringReviewDrawer
+        attempt={reviewedAttempt}
+        onClose={() => setReviewedAttempt(null)}
+        onReviewed={handleFlagReviewed}
+      />
+
+      {accommodationsStudent && (
+        <AccommodationsDialog
+          studentId={accommodationsStudent.id}
+          studentName={accommodationsStudent.name}
+          open
+          onOpenChange={(open) => !open && setAccommodationsStudent(null)}
+        />
+      )}
+
       {/* Grade Edit Dialog */}
       <Dialog open={isGradeDialogOpen} onOpenChange={setIsGradeDialogOpen}>
         <DialogContent className="sm:max-w-md">
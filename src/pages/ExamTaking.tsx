@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
@@ -6,109 +6,165 @@ import { Button } from "@/components/ui/button";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { AlertTriangle, Clock, CheckCircle2 } from "lucide-react";
-import api from "@/lib/axios";
+import { AlertTriangle, Clock, CheckCircle2, CloudOff, Coffee, Loader2, RefreshCw, Timer } from "lucide-react";
 import { toast } from "sonner";
-
-interface Question {
-  id: number;
-  question_text: string;
-  options: Record<string, string> | string[]; // Can be object {"A": "option1"} or array
-  question_type?: string;
-}
-
-interface ExamData {
-  id: number;
-  title: string;
-  strict_mode: boolean;
-  time_limit: number;
-}
+import { useAuth } from "@/contexts/AuthContext";
+import { examService } from "@/services/examService";
+import { useExamTimer } from "@/hooks/useExamTimer";
+import { useAnswerAutosave } from "@/hooks/useAnswerAutosave";
+import { useProctoring } from "@/hooks/useProctoring";
+import { useAttemptPause } from "@/hooks/useAttemptPause";
+import { answerStore } from "@/lib/answerStore";
+import { attemptCache } from "@/lib/attemptCache";
+import { submissionQueue } from "@/services/submissionQueue";
+import { AutosaveIndicator } from "@/components/AutosaveIndicator";
+import { BreakScreen } from "@/components/BreakScreen";
+import { ExamAccessGate } from "@/components/ExamAccessGate";
+import { NumericAnswerInput } from "@/components/NumericAnswer";
+import { ShortAnswerInput } from "@/components/ShortAnswerInput";
+import { RichContent } from "@/components/RichContent";
+import { FlagToggle, QuestionPalette } from "@/components/QuestionPalette";
+import { SubmitSummaryDialog } from "@/components/SubmitSummaryDialog";
+import { useQuestionFlags } from "@/hooks/useQuestionFlags";
+import { ExamAttemptSession, ExamAvailability, ExamData, ExamQuestion, ExamSubmitPayload } from "@/types/exam";
+import { AttemptAccommodations, PauseState } from "@/types/accommodations";
+import { ProctoringEventType } from "@/types/proctoring";
+import { getErrorDetail, isNetworkError } from "@/utils/errorUtils";
+import { getExamWindowStatus } from "@/utils/examWindow";
+import { getDisplayOptions, shuffleQuestionOrder } from "@/utils/attemptShuffle";
 
 export default function ExamTaking() {
   const { examId } = useParams();
   const navigate = useNavigate();
   const { t } = useTranslation();
+  const { setAssessmentActive, impersonation } = useAuth();
   const [exam, setExam] = useState<ExamData | null>(null);
   const [attemptId, setAttemptId] = useState<number | null>(null);
-  const [questions, setQuestions] = useState<Question[]>([]);
+  const [questions, setQuestions] = useState<ExamQuestion[]>([]);
   const [answers, setAnswers] = useState<Record<number, string>>({});
   const [currentQuestion, setCurrentQuestion] = useState(0);
-  const [timeRemaining, setTimeRemaining] = useState(0);
+  const [deadline, setDeadline] = useState<string | null>(null);
+  const [serverTime, setServerTime] = useState<string | null>(null);
+  // Submitted while offline; waiting in the submission queue
+  const [queued, setQueued] = useState(false);
+  const [retrying, setRetrying] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const [violations, setViolations] = useState(0);
-  const [isFullscreen, setIsFullscreen] = useState(false);
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
-
-  // Helper function to convert options to array format
-  const getOptionsArray = (options: Record<string, string> | string[]): Array<{key: string, value: string}> => {
-    if (Array.isArray(options)) {
-      return options.map((opt, idx) => ({ key: String.fromCharCode(65 + idx), value: opt }));
-    }
-    return Object.entries(options).map(([key, value]) => ({ key, value }));
-  };
+  const [showSummary, setShowSummary] = useState(false);
+  const [accommodations, setAccommodations] = useState<AttemptAccommodations | null>(null);
+  // Set when a new attempt can't start straight away: outside the window or behind an access code
+  const [availability, setAvailability] = useState<ExamAvailability | null>(null);
+  const [clockOffset, setClockOffset] = useState(0);
+  const [starting, setStarting] = useState(false);
+  // A student with a strict-mode waiver takes the exam without fullscreen or proctoring
+  const strictMode = !!exam?.strict_mode && !accommodations?.waive_strict_mode;
+  const autosave = useAnswerAutosave('exam', attemptId);
+  const flags = useQuestionFlags('exam', attemptId);
+
+  // Options in this attempt's order; the radio values stay the canonical keys, so answers need no mapping on submit
+  const getOptionsArray = (question: ExamQuestion) =>
+    getDisplayOptions(question.options, exam?.shuffle_options === false ? null : attemptId, question.id);
 
   useEffect(() => {
     startExam();
-    return () => {
-      if (timerRef.current) clearInterval(timerRef.current);
-    };
   }, []);
 
-  // Strict mode monitoring
+  // Hold back session changes from other tabs while the attempt is open
+  useEffect(() => {
+    if (!attemptId) return;
+    setAssessmentActive(true);
+    return () => setAssessmentActive(false);
+  }, [attemptId, setAssessmentActive]);
+
+  // Leave the page once a queued submission has gone through
   useEffect(() => {
-    if (!exam?.strict_mode) return;
+    if (!attemptId) return;
 
-    const handleVisibilityChange = () => {
-      if (document.hidden) {
-        setViolations(prev => prev + 1);
-        toast.error(t('exams.tabSwitchDetected'));
+    return submissionQueue.subscribe((outcome) => {
+      if (outcome.attemptId !== attemptId) return;
+      if (document.fullscreenElement) {
+        document.exitFullscreen();
       }
-    };
+      navigate(outcome.status === 'submitted' ? `/exam-results/${attemptId}` : "/exams");
+    });
+  }, [attemptId, navigate]);
 
-    const handleFullscreenChange = () => {
-      setIsFullscreen(!!document.fullscreenElement);
-      if (!document.fullscreenElement && exam.strict_mode) {
-        setViolations(prev => prev + 1);
-        toast.error(t('exams.fullscreenExited'));
+  // Strict mode starts in fullscreen; leaving it is logged by the proctoring stream
+  useEffect(() => {
+    if (!strictMode || document.fullscreenElement) return;
+
+    document.documentElement.requestFullscreen().catch(() => {
+      toast.error(t('exams.fullscreenRequired'));
+    });
+  }, [strictMode]);
+
+  // Keep the questions on the device in case the connection drops
+  const cacheSession = (session: ExamAttemptSession) => {
+    attemptCache.save(session).catch(error => console.warn("Failed to cache exam:", error));
+    return session;
+  };
+
+  // Resolves to null when the access gate has to be shown first
+  const loadSession = async (): Promise<ExamAttemptSession | null> => {
+    try {
+      // Reattach to an unfinished attempt (e.g. after a reload) before starting a new one
+      const openAttempt = await examService.getOpenAttempt(Number(examId));
+      if (openAttempt) return cacheSession(openAttempt);
+
+      // New attempts only start inside the window, judged by the server's clock
+      const examWindow = await examService.getAvailability(Number(examId));
+      const offset = new Date(examWindow.server_time).getTime() - Date.now();
+      if (examWindow.access_code_required || getExamWindowStatus(examWindow, Date.now() + offset) !== 'open') {
+        setClockOffset(offset);
+        setAvailability(examWindow);
+        return null;
       }
-    };
 
-    document.addEventListener("visibilitychange", handleVisibilityChange);
-    document.addEventListener("fullscreenchange", handleFullscreenChange);
+      return cacheSession(await examService.startAttempt(Number(examId)));
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+
+      const cached = await attemptCache.getForExam(Number(examId)).catch(() => null);
+      if (!cached) throw error;
 
-    // Request fullscreen on strict mode
-    if (exam.strict_mode && !document.fullscreenElement) {
-      document.documentElement.requestFullscreen().catch(() => {
-        toast.error(t('exams.fullscreenRequired'));
-      });
+      toast.warning(t('offlineExam.resumedOffline'));
+      // The cached server time is stale; trust the local clock until the next sync
+      return { ...cached, server_time: undefined, resumed: true };
     }
+  };
 
-    return () => {
-      document.removeEventListener("visibilitychange", handleVisibilityChange);
-      document.removeEventListener("fullscreenchange", handleFullscreenChange);
-    };
-  }, [exam]);
+  const applySession = async (session: ExamAttemptSession) => {
+    setExam(session.exam);
+    setAttemptId(session.attempt_id);
+    // Each student gets their own order, the same on every reload
+    setQuestions(session.exam.shuffle_questions === false
+      ? session.questions
+      : shuffleQuestionOrder(session.questions, session.attempt_id, question => question.id));
+    setAnswers(await answerStore.restore('exam', session.attempt_id, session.saved_answers));
+    // Older API versions only send the time limit
+    setDeadline(session.deadline || new Date(Date.now() + session.time_limit_seconds * 1000).toISOString());
+    setServerTime(session.server_time || null);
+    setAccommodations(session.accommodations ?? null);
+
+    if (await submissionQueue.get(session.attempt_id).catch(() => undefined)) {
+      setQueued(true);
+      return;
+    }
+
+    toast.success(session.resumed ? t('exams.examResumed') : t('exams.examStarted'));
+  };
 
   const startExam = async () => {
+    // Starting or reattaching would change the student's attempt
+    if (impersonation) {
+      toast.error(t('impersonation.attemptBlocked'));
+      navigate("/exams");
+      return;
+    }
+
     try {
-      const response = await api.post(`/exams/${examId}/start`);
-      setExam(response.data.exam);
-      setAttemptId(response.data.attempt_id);
-      setQuestions(response.data.questions);
-      setTimeRemaining(response.data.time_limit_seconds);
-
-      // Start timer
-      timerRef.current = setInterval(() => {
-        setTimeRemaining(prev => {
-          if (prev <= 1) {
-            handleSubmit();
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-
-      toast.success(t('exams.examStarted'));
+      const session = await loadSession();
+      if (session) await applySession(session);
     } catch (error: any) {
       console.error("Error starting exam:", error);
       console.error("Error response:", error.response?.data);
@@ -120,24 +176,53 @@ export default function ExamTaking() {
     }
   };
 
+  // Start from the access gate; a wrong code or a closed window keeps the student there
+  const handleGateStart = async (accessCode?: string) => {
+    setStarting(true);
+    try {
+      const session = cacheSession(await examService.startAttempt(Number(examId), accessCode));
+      setAvailability(null);
+      await applySession(session);
+    } catch (error) {
+      toast.error(getErrorDetail(error, t('examWindow.startFailed')));
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const buildSubmission = (): ExamSubmitPayload => {
+    const formattedAnswers = Object.entries(answers).map(([questionId, answer]) => ({
+      question_id: parseInt(questionId),
+      answer: answer
+    }));
+
+    return {
+      answers: formattedAnswers,
+      tab_switches: violations,
+      violations: [],
+      submitted_at: new Date(serverNow()).toISOString()
+    };
+  };
+
   const handleSubmit = async () => {
-    if (submitting) return;
+    if (submitting || queued) return;
     setSubmitting(true);
-
-    if (timerRef.current) clearInterval(timerRef.current);
+    let payload: ExamSubmitPayload | undefined;
+    // Stays submitting once handed in, so strict mode doesn't flag leaving fullscreen
+    let handedIn = false;
 
     try {
-      // Format answers
-      const formattedAnswers = Object.entries(answers).map(([questionId, answer]) => ({
-        question_id: parseInt(questionId),
-        answer: answer
-      }));
-
-      const response = await api.post(`/exams/attempts/${attemptId}/submit`, {
-        answers: formattedAnswers,
-        tab_switches: violations,
-        violations: []
-      });
+      // Get every answer acknowledged by the server while it still counts before the deadline
+      await autosave.flush();
+      await proctoring.flush();
+      payload = buildSubmission();
+
+      await examService.submitAttempt(attemptId, payload);
+      handedIn = true;
+
+      await autosave.discard();
+      attemptCache.remove(attemptId).catch(() => undefined);
+      flags.clear();
 
       // Exit fullscreen
       if (document.fullscreenElement) {
@@ -146,13 +231,109 @@ export default function ExamTaking() {
 
       toast.success(t('exams.examSubmitted'));
       navigate(`/exam-results/${attemptId}`);
-    } catch (error: any) {
+    } catch (error) {
+      if (payload && !handedIn && isNetworkError(error)) {
+        // Keep the submission and send it when the connection is back
+        try {
+          await submissionQueue.enqueue(attemptId, exam.id, payload);
+        } catch (queueError) {
+          console.error("Error queuing exam submission:", queueError);
+          toast.error(t('offlineExam.queueFailed'));
+          return;
+        }
+        flags.clear();
+        setQueued(true);
+        toast.warning(t('offlineExam.queued'));
+        return;
+      }
+
       console.error("Error submitting exam:", error);
-      toast.error(error.response?.data?.detail || t('exams.failedToSubmit'));
-      setSubmitting(false);
+      toast.error(getErrorDetail(error, t('exams.failedToSubmit')));
+    } finally {
+      if (!handedIn) setSubmitting(false);
+    }
+  };
+
+  const handleRetryQueued = async () => {
+    setRetrying(true);
+    try {
+      await submissionQueue.flush(true);
+    } catch (error) {
+      console.error("Error retrying queued submission:", error);
+      toast.error(t('offlineExam.queueStalled'));
+    } finally {
+      setRetrying(false);
     }
   };
 
+  const handleTimeUp = () => {
+    toast.warning(t('exams.timeUp'));
+    handleSubmit();
+  };
+
+  // The deadline moves back by the length of each break
+  const handlePauseChange = (state: PauseState) => {
+    if (state.deadline) setDeadline(state.deadline);
+    setServerTime(state.server_time);
+  };
+
+  // Mirrors pause.paused; the pause hook needs the timer's server clock, so it comes second
+  const [pausedForTimer, setPausedForTimer] = useState(false);
+  const { timeRemaining, serverNow } = useExamTimer({
+    attemptId,
+    deadline,
+    serverTime,
+    paused: pausedForTimer,
+    onExpire: handleTimeUp,
+  });
+
+  const pause = useAttemptPause({
+    kind: 'exam',
+    attemptId,
+    accommodations,
+    serverNow,
+    onChange: handlePauseChange,
+  });
+
+  useEffect(() => {
+    setPausedForTimer(pause.paused);
+  }, [pause.paused]);
+
+  const handlePause = async () => {
+    try {
+      await pause.pause();
+    } catch (error) {
+      toast.error(getErrorDetail(error, t('accommodations.pauseFailed')));
+    }
+  };
+
+  const handleResume = async () => {
+    try {
+      await pause.resume();
+    } catch (error) {
+      toast.error(getErrorDetail(error, t('accommodations.resumeFailed')));
+    }
+  };
+
+  const handleViolation = (type: ProctoringEventType) => {
+    setViolations(prev => prev + 1);
+    if (type === 'tab_hidden') {
+      toast.error(t('exams.tabSwitchDetected'));
+    } else if (type === 'fullscreen_exit') {
+      toast.error(t('exams.fullscreenExited'));
+    } else {
+      toast.error(t('proctoring.violationDetected', { event: t(`proctoring.events.${type}`) }));
+    }
+  };
+
+  const proctoring = useProctoring({
+    attemptId,
+    enabled: strictMode && !submitting && !queued && !pause.paused,
+    questionId: questions[currentQuestion]?.id,
+    serverNow,
+    onViolation: handleViolation,
+  });
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -164,9 +345,27 @@ export default function ExamTaking() {
       ...prev,
       [questionId]: answer
     }));
+    autosave.saveAnswer(questionId, answer);
   };
 
-  const answeredCount = Object.keys(answers).length;
+  // Clearing a typed answer leaves an empty string behind
+  const answeredIds = new Set(
+    Object.entries(answers).filter(([, answer]) => answer.trim()).map(([questionId]) => Number(questionId))
+  );
+  const answeredCount = answeredIds.size;
+
+  if (availability && !exam) {
+    return (
+      <ExamAccessGate
+        title={availability.exam_title}
+        availability={availability}
+        clockOffset={clockOffset}
+        starting={starting}
+        onStart={handleGateStart}
+        onBack={() => navigate("/exams")}
+      />
+    );
+  }
 
   if (!exam || questions.length === 0) {
     return (
@@ -179,6 +378,29 @@ export default function ExamTaking() {
     );
   }
 
+  if (queued) {
+    return (
+      <div className="min-h-screen bg-background p-4 flex items-center justify-center">
+        <Card className="max-w-lg w-full">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CloudOff className="h-5 w-5 text-orange-600" />
+              {t('offlineExam.queuedTitle')}
+            </CardTitle>
+            <CardDescription>{exam.title}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">{t('offlineExam.queuedDescription')}</p>
+            <Button className="w-full" variant="outline" onClick={handleRetryQueued} disabled={retrying}>
+              {retrying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+              {t('offlineExam.retryNow')}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   const question = questions[currentQuestion];
 
   return (
@@ -190,12 +412,18 @@ export default function ExamTaking() {
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-4">
                 <h1 className="text-xl font-bold">{exam.title}</h1>
-                {exam.strict_mode && (
+                {strictMode && (
                   <Badge variant="destructive" className="flex items-center gap-1">
                     <AlertTriangle className="h-3 w-3" />
                     {t('exams.strictMode')}
                   </Badge>
                 )}
+                {accommodations && accommodations.time_multiplier > 1 && (
+                  <Badge variant="secondary" className="flex items-center gap-1">
+                    <Timer className="h-3 w-3" />
+                    {t('accommodations.extraTimeApplied', { multiplier: accommodations.time_multiplier })}
+                  </Badge>
+                )}
               </div>
 
               <div className="flex items-center gap-6">
@@ -206,6 +434,15 @@ export default function ExamTaking() {
                   </span>
                 </div>
 
+                <AutosaveIndicator status={autosave.status} />
+
+                {accommodations?.allow_pause && !pause.paused && (
+                  <Button variant="outline" size="sm" onClick={handlePause} disabled={!pause.canPause || pause.pending || submitting}>
+                    {pause.pending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Coffee className="h-4 w-4 mr-1" />}
+                    {t('accommodations.takeBreak')}
+                  </Button>
+                )}
+
                 <div className="flex items-center gap-2">
                   <CheckCircle2 className="h-5 w-5 text-muted-foreground" />
                   <span className="text-sm">
@@ -213,7 +450,7 @@ export default function ExamTaking() {
                   </span>
                 </div>
 
-                {exam.strict_mode && violations > 0 && (
+                {strictMode && violations > 0 && (
                   <Badge variant="destructive">
                     {t('exams.violations')}: {violations}
                   </Badge>
@@ -223,82 +460,114 @@ export default function ExamTaking() {
           </CardContent>
         </Card>
 
-        {/* Question */}
-        <Card className="mb-4">
-          <CardHeader>
-            <CardTitle className="flex items-center justify-between">
-              <span>{t('quiz.questionOf', { current: currentQuestion + 1, total: questions.length })}</span>
-              <Badge variant="outline">{answeredCount} / {questions.length} {t('exams.complete')}</Badge>
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-6">
-            <p className="text-lg">{question.question_text}</p>
-
-            <RadioGroup
-              value={answers[question.id] || ""}
-              onValueChange={(value) => handleAnswerChange(question.id, value)}
-            >
-              {getOptionsArray(question.options).map((option) => (
-                <div key={option.key} className="flex items-center space-x-2 border rounded-lg p-4 hover:bg-accent cursor-pointer">
-                  <RadioGroupItem value={option.key} id={`option-${option.key}`} />
-                  <Label htmlFor={`option-${option.key}`} className="flex-1 cursor-pointer">
-                    <span className="font-semibold mr-2">{option.key}.</span>
-                    {option.value}
-                  </Label>
-                </div>
-              ))}
-            </RadioGroup>
-          </CardContent>
-        </Card>
+        {pause.paused ? (
+          <BreakScreen breakRemaining={pause.breakRemaining} pending={pause.pending} onResume={handleResume} />
+        ) : (
+          <>
+            {/* Question */}
+            <Card className="mb-4">
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span>{t('quiz.questionOf', { current: currentQuestion + 1, total: questions.length })}</span>
+                  <div className="flex items-center gap-2">
+                    <FlagToggle flagged={flags.flagged.has(question.id)} onToggle={() => flags.toggle(question.id)} />
+                    <Badge variant="outline">{answeredCount} / {questions.length} {t('exams.complete')}</Badge>
+                  </div>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <RichContent content={question.question_text} className="text-lg" />
+
+                {question.question_type === 'numeric' ? (
+                  <NumericAnswerInput
+                    id={`numeric-${question.id}`}
+                    value={answers[question.id] || ""}
+                    onChange={(value) => handleAnswerChange(question.id, value)}
+                    hint={question.numeric}
+                  />
+                ) : question.question_type === 'short_answer' ? (
+                  <ShortAnswerInput
+                    key={question.id}
+                    id={`short-answer-${question.id}`}
+                    value={answers[question.id] || ""}
+                    onChange={(value) => handleAnswerChange(question.id, value)}
+                  />
+                ) : (
+                  <RadioGroup
+                    value={answers[question.id] || ""}
+                    onValueChange={(value) => handleAnswerChange(question.id, value)}
+                  >
+                    {getOptionsArray(question).map((option) => (
+                      <div key={option.key} className="flex items-center space-x-2 border rounded-lg p-4 hover:bg-accent cursor-pointer">
+                        <RadioGroupItem value={option.key} id={`option-${option.key}`} />
+                        <Label htmlFor={`option-${option.key}`} className="flex-1 cursor-pointer">
+                          <span className="font-semibold mr-2">{option.label}.</span>
+                          <RichContent content={option.value} inline />
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                )}
+              </CardContent>
+            </Card>
 
-        {/* Navigation */}
-        <Card>
-          <CardContent className="p-4">
-            <div className="flex items-center justify-between">
-              <Button
-                variant="outline"
-                onClick={() => setCurrentQuestion(prev => Math.max(0, prev - 1))}
-                disabled={currentQuestion === 0}
-              >
-                {t('exams.previous')}
-              </Button>
-
-              <div className="flex flex-wrap gap-2">
-                {questions.map((_, idx) => (
+            {/* Navigation */}
+            <Card>
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between">
                   <Button
-                    key={idx}
-                    variant={currentQuestion === idx ? "default" : answers[questions[idx].id] ? "secondary" : "outline"}
-                    size="sm"
-                    onClick={() => setCurrentQuestion(idx)}
-                    className="w-10 h-10"
+                    variant="outline"
+                    onClick={() => setCurrentQuestion(prev => Math.max(0, prev - 1))}
+                    disabled={currentQuestion === 0}
                   >
-                    {idx + 1}
+                    {t('exams.previous')}
                   </Button>
-                ))}
-              </div>
 
-              {currentQuestion < questions.length - 1 ? (
-                <Button
-                  onClick={() => setCurrentQuestion(prev => Math.min(questions.length - 1, prev + 1))}
-                >
-                  {t('exams.next')}
-                </Button>
-              ) : (
-                <Button
-                  onClick={handleSubmit}
-                  disabled={submitting}
-                  variant="destructive"
-                  className="min-w-[120px]"
-                >
-                  {submitting ? t('exams.submitting') : t('exams.submitExam')}
-                </Button>
-              )}
-            </div>
-          </CardContent>
-        </Card>
+                  {currentQuestion < questions.length - 1 ? (
+                    <Button
+                      onClick={() => setCurrentQuestion(prev => Math.min(questions.length - 1, prev + 1))}
+                    >
+                      {t('exams.next')}
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={() => setShowSummary(true)}
+                      disabled={submitting || !!impersonation}
+                      variant="destructive"
+                      className="min-w-[120px]"
+                    >
+                      {submitting ? t('exams.submitting') : t('exams.submitExam')}
+                    </Button>
+                  )}
+                </div>
+
+                <div className="mt-4 border-t pt-4">
+                  <QuestionPalette
+                    questionIds={questions.map(q => q.id)}
+                    currentIndex={currentQuestion}
+                    answeredIds={answeredIds}
+                    flaggedIds={flags.flagged}
+                    onSelect={setCurrentQuestion}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        <SubmitSummaryDialog
+          open={showSummary}
+          onOpenChange={setShowSummary}
+          questionIds={questions.map(q => q.id)}
+          answeredIds={answeredIds}
+          flaggedIds={flags.flagged}
+          submitLabel={t('exams.submitExam')}
+          onJump={setCurrentQuestion}
+          onConfirm={handleSubmit}
+        />
 
         {/* Warning for strict mode */}
-        {exam.strict_mode && (
+        {strictMode && (
           <Card className="mt-4 border-yellow-500">
             <CardContent className="p-4">
               <div className="flex items-start gap-2">
@@ -20,6 +20,8 @@ import {
 } from 'lucide-react';
 import { toast } from 'sonner';
 import api from '@/services/api';
+import { Can } from '@/components/Can';
+import { RichContent } from '@/components/RichContent';
 
 interface Subject {
   id: number;
@@ -508,7 +510,7 @@ const FlashcardManager = () => {
                     <div className="flex items-start justify-between">
                       <div className="flex-1 space-y-2">
                         <div className="flex items-center gap-2">
-                          <p className="font-semibold">{card.front_text}</p>
+                          <RichContent content={card.front_text} inline className="font-semibold" />
                           <Badge className={getDifficultyColor(card.difficulty)} variant="secondary">
                             {card.difficulty}
                           </Badge>
@@ -519,18 +521,20 @@ const FlashcardManager = () => {
                             </Badge>
                           )}
                         </div>
-                        <p className="text-sm text-muted-foreground">{card.back_text}</p>
+                        <RichContent content={card.back_text} className="text-sm text-muted-foreground" />
                         {card.explanation && (
-                          <p className="text-xs text-muted-foreground italic">{card.explanation}</p>
+                          <RichContent content={card.explanation} className="text-xs text-muted-foreground italic" />
                         )}
                       </div>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleDeleteFlashcard(card.id)}
-                      >
-                        <Trash2 className="h-4 w-4 text-destructive" />
-                      </Button>
+                      <Can permission="content.delete">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeleteFlashcard(card.id)}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </Can>
                     </div>
                   </Card>
                 ))}
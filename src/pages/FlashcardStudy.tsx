@@ -20,6 +20,7 @@ import {
 } from 'lucide-react';
 import { toast } from 'sonner';
 import api from '@/services/api';
+import { RichContent } from '@/components/RichContent';
 
 interface Flashcard {
   id: number;
@@ -383,12 +384,12 @@ const FlashcardStudy = () => {
             <div className="text-center space-y-4">
               {!isFlipped ? (
                 <>
-                  <h2 className="text-3xl font-bold">{currentCard.front_text}</h2>
+                  <h2 className="text-3xl font-bold"><RichContent content={currentCard.front_text} inline /></h2>
                   <p className="text-muted-foreground">{t('flashcards.clickToReveal')}</p>
                 </>
               ) : (
                 <>
-                  <h2 className="text-3xl font-bold text-primary">{currentCard.back_text}</h2>
+                  <h2 className="text-3xl font-bold text-primary"><RichContent content={currentCard.back_text} inline /></h2>
                   {currentCard.explanation && (
                     <div className="mt-6 p-4 bg-blue-50 dark:bg-blue-950/30 rounded-lg border border-blue-200 dark:border-blue-800 max-w-2xl mx-auto">
                       <div className="flex items-start gap-2">
@@ -397,9 +398,10 @@ const FlashcardStudy = () => {
                           <p className="text-sm font-semibold text-blue-700 dark:text-blue-300 mb-1">
                             {t('flashcards.explanation') || 'Explanation'}
                           </p>
-                          <p className="text-sm text-blue-900 dark:text-blue-100 leading-relaxed">
-                            {currentCard.explanation}
-                          </p>
+                          <RichContent
+                            content={currentCard.explanation}
+                            className="text-sm text-blue-900 dark:text-blue-100 leading-relaxed"
+                          />
                         </div>
                       </div>
                     </div>
@@ -5,12 +5,15 @@ import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
 import { Slider } from '@/components/ui/slider';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
+import { ExamBlueprint } from '@/types/exam';
+import { BLOOM_LEVELS, QUESTION_DIFFICULTIES, getCellCount } from '@/utils/examBlueprint';
 import {
   Brain,
   Target,
@@ -40,11 +43,8 @@ interface AdaptiveExamResult {
     avg_score: number | null;
     attempts_count: number;
   };
-  distribution: {
-    bloom_levels: Record<string, number>;
-    difficulties: Record<string, number>;
-  };
-  chapter_name: string;
+  // Drawn the same way as a teacher's blueprint, with the counts weighted towards weak areas
+  blueprint: ExamBlueprint;
   total_questions: number;
   duration_minutes: number;
 }
@@ -60,7 +60,7 @@ const bloomLevelLabels: Record<string, string> = {
 
 const difficultyLabels: Record<string, string> = {
   beginner: 'Beginner',
-  intermediate: 'Intermediate',
+  medium: 'Medium',
   advanced: 'Advanced',
 };
 
@@ -68,7 +68,7 @@ export const GenerateAdaptiveExam = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
 
-  const [selectedChapterId, setSelectedChapterId] = useState<number | null>(null);
+  const [chapterIds, setChapterIds] = useState<number[]>([]);
   const [numQuestions, setNumQuestions] = useState<number>(30);
   const [durationMinutes, setDurationMinutes] = useState<number>(60);
   const [generatedExam, setGeneratedExam] = useState<AdaptiveExamResult | null>(null);
@@ -88,12 +88,12 @@ export const GenerateAdaptiveExam = () => {
   // Generate adaptive exam mutation
   const generateMutation = useMutation({
     mutationFn: async () => {
-      if (!selectedChapterId) throw new Error('No chapter selected');
+      if (chapterIds.length === 0) throw new Error('No chapter selected');
       const token = localStorage.getItem('access_token');
       const response = await axios.post(
         `${API_URL}/exams/generate-adaptive`,
         {
-          chapter_id: selectedChapterId,
+          chapter_ids: chapterIds,
           num_questions: numQuestions,
           duration_minutes: durationMinutes,
         },
@@ -117,11 +117,16 @@ export const GenerateAdaptiveExam = () => {
     },
   });
 
+  const toggleChapter = (chapterId: number, checked: boolean) => {
+    setChapterIds(ids => checked ? [...ids, chapterId] : ids.filter(id => id !== chapterId));
+    setGeneratedExam(null);
+  };
+
   const handleGenerate = () => {
-    if (!selectedChapterId) {
+    if (chapterIds.length === 0) {
       toast({
         title: 'Error',
-        description: 'Please select a chapter first',
+        description: 'Please select at least one chapter first',
         variant: 'destructive',
       });
       return;
@@ -130,10 +135,10 @@ export const GenerateAdaptiveExam = () => {
   };
 
   const handleStartExam = () => {
-    if (generatedExam && selectedChapterId) {
+    if (generatedExam && chapterIds.length > 0) {
       // Navigate to exam page with generated questions
       // This would integrate with existing exam flow
-      navigate(`/exam/adaptive/${selectedChapterId}`);
+      navigate(`/exam/adaptive?chapters=${chapterIds.join(',')}`);
     }
   };
 
@@ -164,24 +169,25 @@ export const GenerateAdaptiveExam = () => {
           <CardContent className="space-y-6">
             {/* Chapter Selection */}
             <div className="space-y-2">
-              <Label htmlFor="chapter">Select Chapter</Label>
-              <Select
-                value={selectedChapterId?.toString() || ''}
-                onValueChange={(value) => setSelectedChapterId(parseInt(value))}
-                disabled={chaptersLoading}
-              >
-                <SelectTrigger id="chapter">
-                  <SelectValue placeholder="Choose a chapter..." />
-                </SelectTrigger>
-                <SelectContent>
+              <Label>Select Chapters</Label>
+              <ScrollArea className="h-40 rounded-md border p-3">
+                <div className="space-y-2">
                   {chapters.map((chapter) => (
-                    <SelectItem key={chapter.id} value={chapter.id.toString()}>
-                      {chapter.name}
-                      {chapter.subject_name && ` (${chapter.subject_name})`}
-                    </SelectItem>
+                    <div key={chapter.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`adaptive-chapter-${chapter.id}`}
+                        checked={chapterIds.includes(chapter.id)}
+                        onCheckedChange={(checked) => toggleChapter(chapter.id, checked === true)}
+                        disabled={chaptersLoading}
+                      />
+                      <Label htmlFor={`adaptive-chapter-${chapter.id}`} className="cursor-pointer text-sm font-normal">
+                        {chapter.name}
+                        {chapter.subject_name && <span className="text-muted-foreground"> ({chapter.subject_name})</span>}
+                      </Label>
+                    </div>
                   ))}
-                </SelectContent>
-              </Select>
+                </div>
+              </ScrollArea>
             </div>
 
             {/* Number of Questions */}
@@ -225,7 +231,7 @@ export const GenerateAdaptiveExam = () => {
             {/* Generate Button */}
             <Button
               onClick={handleGenerate}
-              disabled={!selectedChapterId || generateMutation.isPending}
+              disabled={chapterIds.length === 0 || generateMutation.isPending}
               className="w-full"
               size="lg"
             >
@@ -351,37 +357,32 @@ export const GenerateAdaptiveExam = () => {
                     <BarChart3 className="h-4 w-4" />
                     Question Distribution
                   </h3>
-                  <div className="space-y-3">
-                    <div>
-                      <p className="text-sm text-muted-foreground mb-2">
-                        By Bloom Level:
-                      </p>
-                      <div className="space-y-1">
-                        {Object.entries(generatedExam.distribution.bloom_levels)
-                          .filter(([_, count]) => count > 0)
-                          .map(([level, count]) => (
-                            <div key={level} className="flex items-center justify-between text-sm">
-                              <span>{bloomLevelLabels[level] || level}</span>
-                              <Badge variant="secondary">{count}</Badge>
-                            </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b">
+                          <th className="py-2 text-left font-medium">Bloom Level</th>
+                          {QUESTION_DIFFICULTIES.map((diff) => (
+                            <th key={diff} className="px-2 py-2 text-center font-medium">{difficultyLabels[diff]}</th>
                           ))}
-                      </div>
-                    </div>
-                    <div>
-                      <p className="text-sm text-muted-foreground mb-2">
-                        By Difficulty:
-                      </p>
-                      <div className="space-y-1">
-                        {Object.entries(generatedExam.distribution.difficulties)
-                          .filter(([_, count]) => count > 0)
-                          .map(([diff, count]) => (
-                            <div key={diff} className="flex items-center justify-between text-sm">
-                              <span>{difficultyLabels[diff] || diff}</span>
-                              <Badge variant="secondary">{count}</Badge>
-                            </div>
-                          ))}
-                      </div>
-                    </div>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {BLOOM_LEVELS.map((level) => (
+                          <tr key={level} className="border-b last:border-0">
+                            <td className="py-2">{bloomLevelLabels[level]}</td>
+                            {QUESTION_DIFFICULTIES.map((diff) => {
+                              const count = getCellCount(generatedExam.blueprint, level, diff);
+                              return (
+                                <td key={diff} className="px-2 py-2 text-center">
+                                  {count > 0 ? <Badge variant="secondary">{count}</Badge> : <span className="text-muted-foreground">–</span>}
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
                   </div>
                 </div>
 
@@ -19,10 +19,16 @@ import {
   FileCheck,
   Download,
   Sparkles,
+  Hourglass,
+  Send,
 } from 'lucide-react';
 import api from '@/services/api';
 import { toast } from 'sonner';
 import { useTranslation } from 'react-i18next';
+import { usePermission } from '@/hooks/usePermission';
+import { taService } from '@/services/taService';
+import { GradeStatus } from '@/types/ta';
+import { getErrorDetail } from '@/utils/errorUtils';
 
 interface Submission {
   id: number;
@@ -38,6 +44,8 @@ interface Submission {
   feedback: string | null;
   is_flagged: boolean;
   plagiarism_score: number | null;
+  grade_status?: GradeStatus;
+  graded_by_name?: string | null;
 }
 
 interface Assignment {
@@ -52,12 +60,15 @@ const GradeSubmission: React.FC = () => {
   const { t } = useTranslation();
   const { submissionId } = useParams<{ submissionId: string }>();
   const navigate = useNavigate();
+  // Without release rights (e.g. TAs) grades are saved as provisional
+  const canRelease = usePermission('grades.release');
 
   const [submission, setSubmission] = useState<Submission | null>(null);
   const [assignment, setAssignment] = useState<Assignment | null>(null);
   const [loading, setLoading] = useState(true);
   const [grading, setGrading] = useState(false);
   const [aiGrading, setAiGrading] = useState(false);
+  const [releasing, setReleasing] = useState(false);
 
   const [grade, setGrade] = useState<string>('');
   const [feedback, setFeedback] = useState<string>('');
@@ -179,7 +190,7 @@ const GradeSubmission: React.FC = () => {
         feedback: feedback.trim() || null,
       });
 
-      toast.success(t('submissions.gradeSuccess'));
+      toast.success(canRelease ? t('submissions.gradeSuccess') : t('ta.provisionalGradeSaved'));
       navigate(`/teacher/assignment/${assignment?.id}/submissions`);
     } catch (error: any) {
       toast.error(error.response?.data?.detail || t('submissions.gradeError'));
@@ -188,6 +199,19 @@ const GradeSubmission: React.FC = () => {
     }
   };
 
+  const handleReleaseGrade = async () => {
+    try {
+      setReleasing(true);
+      await taService.releaseGrade(Number(submissionId));
+      toast.success(t('ta.gradeReleased'));
+      await loadData();
+    } catch (error) {
+      toast.error(getErrorDetail(error, t('ta.releaseFailed')));
+    } finally {
+      setReleasing(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="container mx-auto p-6">
@@ -204,6 +228,7 @@ const GradeSubmission: React.FC = () => {
   if (!submission || !assignment) return null;
 
   const isAlreadyGraded = submission.grade !== null;
+  const isProvisional = isAlreadyGraded && submission.grade_status === 'provisional';
 
   return (
     <div className="container mx-auto p-6 max-w-4xl space-y-6">
@@ -221,7 +246,20 @@ const GradeSubmission: React.FC = () => {
             {assignment.title} • {assignment.subject_name}
           </p>
         </div>
-        {isAlreadyGraded && (
+        {isProvisional ? (
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className="border-warning text-warning text-lg py-2 px-4">
+              <Hourglass className="w-4 h-4 mr-1" />
+              {t('ta.provisional')}
+            </Badge>
+            {canRelease && (
+              <Button onClick={handleReleaseGrade} disabled={releasing}>
+                <Send className="w-4 h-4 mr-2" />
+                {t('ta.releaseGrade')}
+              </Button>
+            )}
+          </div>
+        ) : isAlreadyGraded && (
           <Badge className="bg-green-500 text-lg py-2 px-4">
             <CheckCircle className="w-4 h-4 mr-1" />
             {t('submissions.alreadyGraded')}
@@ -229,6 +267,13 @@ const GradeSubmission: React.FC = () => {
         )}
       </div>
 
+      {isProvisional && submission.graded_by_name && (
+        <Alert>
+          <Hourglass className="h-4 w-4" />
+          <AlertDescription>{t('ta.gradedBy', { name: submission.graded_by_name })}</AlertDescription>
+        </Alert>
+      )}
+
       {/* Plagiarism Warning Alert */}
       {submission.is_flagged && submission.plagiarism_score && submission.plagiarism_score > 70 && (
         <Alert variant="destructive">
@@ -417,6 +462,13 @@ const GradeSubmission: React.FC = () => {
                 </AlertDescription>
               </Alert>
             )}
+
+            {!canRelease && (
+              <Alert>
+                <Hourglass className="h-4 w-4" />
+                <AlertDescription>{t('ta.gradeWillBeProvisional')}</AlertDescription>
+              </Alert>
+            )}
           </CardContent>
 
           <CardFooter className="flex justify-end gap-2">
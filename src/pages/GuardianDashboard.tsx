@@ -0,0 +1,309 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import PersonalizedHeader from '@/components/PersonalizedHeader';
+import { ChapterMasteryList } from '@/components/ChapterMasteryList';
+import {
+  AlertCircle,
+  Bell,
+  Calendar,
+  CheckCircle2,
+  Clipboard,
+  FileCheck,
+  Loader2,
+  MessagesSquare,
+  Target,
+  TrendingUp,
+  XCircle
+} from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  useDigestPreference,
+  useLinkedStudents,
+  useStudentOverview,
+  useUpdateDigestPreference
+} from '@/hooks/useGuardian';
+import { formatScoreAs20 } from '@/utils/scoreUtils';
+import { getErrorDetail } from '@/utils/errorUtils';
+
+const GuardianDashboard = () => {
+  const { t } = useTranslation();
+  const { data: students = [], isLoading: studentsLoading } = useLinkedStudents();
+  const [studentId, setStudentId] = useState<number | null>(null);
+  const { data: overview, isLoading: overviewLoading, isError } = useStudentOverview(studentId);
+  const { data: digest } = useDigestPreference();
+  const updateDigest = useUpdateDigestPreference();
+
+  // Show the first linked student once the list has loaded
+  useEffect(() => {
+    if (studentId === null && students.length > 0) {
+      setStudentId(students[0].id);
+    }
+  }, [students, studentId]);
+
+  useEffect(() => {
+    if (isError) {
+      toast.error(t('guardian.loadFailed'));
+    }
+  }, [isError, t]);
+
+  const handleDigestChange = async (weeklyDigest: boolean) => {
+    try {
+      await updateDigest.mutateAsync({ weekly_digest: weeklyDigest });
+      toast.success(weeklyDigest ? t('guardian.digestEnabled') : t('guardian.digestDisabled'));
+    } catch (error) {
+      toast.error(getErrorDetail(error, t('guardian.digestUpdateFailed')));
+    }
+  };
+
+  if (studentsLoading) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-6">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const progress = overview?.progress || [];
+  const upcoming = overview?.upcoming_assignments || [];
+  const examResults = overview?.exam_results || [];
+  const feedback = overview?.feedback || [];
+  const averageScore = progress.length > 0
+    ? progress.reduce((sum, chapter) => sum + chapter.average_score, 0) / progress.length
+    : null;
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      <PersonalizedHeader />
+
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        {students.length > 1 ? (
+          <div className="space-y-1">
+            <Label htmlFor="linkedStudent">{t('guardian.viewing')}</Label>
+            <Select
+              value={studentId?.toString() || ''}
+              onValueChange={(value) => setStudentId(Number(value))}
+            >
+              <SelectTrigger id="linkedStudent" className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {students.map((student) => (
+                  <SelectItem key={student.id} value={student.id.toString()}>{student.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ) : students.length === 1 ? (
+          <p className="text-muted-foreground">{t('guardian.viewingStudent', { name: students[0].name })}</p>
+        ) : (
+          <span />
+        )}
+
+        <div className="flex items-center gap-3 p-3 rounded-lg border bg-background">
+          <Bell className="h-4 w-4 text-muted-foreground" />
+          <div>
+            <Label htmlFor="weeklyDigest">{t('guardian.weeklyDigest')}</Label>
+            <p className="text-xs text-muted-foreground">{t('guardian.weeklyDigestDescription')}</p>
+          </div>
+          <Switch
+            id="weeklyDigest"
+            checked={!!digest?.weekly_digest}
+            onCheckedChange={handleDigestChange}
+            disabled={!digest || updateDigest.isPending}
+          />
+        </div>
+      </div>
+
+      {students.length === 0 ? (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{t('guardian.noLinkedStudents')}</AlertDescription>
+        </Alert>
+      ) : overviewLoading || !overview ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          {/* Stats */}
+          <div className="grid gap-4 md:grid-cols-3">
+            <Card className="card-shadow">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardDescription>{t('progress.overallAverage')}</CardDescription>
+                <TrendingUp className="h-4 w-4 text-primary" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold">
+                  {averageScore !== null ? `${averageScore.toFixed(1)}%` : 'N/A'}
+                </div>
+              </CardContent>
+            </Card>
+            <Card className="card-shadow">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardDescription>{t('guardian.upcomingAssignments')}</CardDescription>
+                <Clipboard className="h-4 w-4 text-info" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold">{upcoming.filter(a => !a.submitted).length}</div>
+              </CardContent>
+            </Card>
+            <Card className="card-shadow">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardDescription>{t('guardian.examsPassed')}</CardDescription>
+                <FileCheck className="h-4 w-4 text-success" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold">
+                  {examResults.filter(r => r.passed).length}/{examResults.length}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Tabs defaultValue="progress" className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="progress">{t('progress.chapterProgress')}</TabsTrigger>
+              <TabsTrigger value="assignments">{t('guardian.upcomingAssignments')}</TabsTrigger>
+              <TabsTrigger value="exams">{t('guardian.examResults')}</TabsTrigger>
+              <TabsTrigger value="feedback">{t('guardian.feedback')}</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="progress">
+              <Card className="card-shadow">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Target className="h-5 w-5" />
+                    {t('progress.chapterByChapterProgress')}
+                  </CardTitle>
+                  <CardDescription>{t('progress.performanceAcrossTopics')}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChapterMasteryList progress={progress} emptyMessage={t('guardian.noProgress')} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="assignments">
+              <Card className="card-shadow">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Calendar className="h-5 w-5" />
+                    {t('guardian.upcomingAssignments')}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {upcoming.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">{t('guardian.noUpcomingAssignments')}</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {upcoming.map((assignment) => (
+                        <div key={assignment.id} className="flex items-center justify-between gap-4 p-4 rounded-lg border">
+                          <div>
+                            <p className="font-medium">{assignment.title}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {assignment.subject_name && `${assignment.subject_name} • `}
+                              {t('guardian.due', { date: format(new Date(assignment.due_date), 'PPp') })}
+                            </p>
+                          </div>
+                          <Badge variant={assignment.submitted ? 'secondary' : 'outline'}>
+                            {assignment.submitted ? t('guardian.submitted') : t('guardian.notSubmitted')}
+                          </Badge>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="exams">
+              <Card className="card-shadow">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <FileCheck className="h-5 w-5" />
+                    {t('guardian.examResults')}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {examResults.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">{t('guardian.noExamResults')}</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {examResults.map((result) => (
+                        <div key={result.attempt_id} className="flex items-center justify-between gap-4 p-4 rounded-lg border">
+                          <div>
+                            <p className="font-medium">{result.exam_title}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {format(new Date(result.completed_at), 'PP')}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-3">
+                            <span className="text-lg font-bold">{formatScoreAs20(result.score)}</span>
+                            {result.passed ? (
+                              <Badge className="bg-green-500">
+                                <CheckCircle2 className="h-3 w-3 mr-1" />
+                                {t('guardian.passed')}
+                              </Badge>
+                            ) : (
+                              <Badge variant="destructive">
+                                <XCircle className="h-3 w-3 mr-1" />
+                                {t('guardian.failed')}
+                              </Badge>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="feedback">
+              <Card className="card-shadow">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <MessagesSquare className="h-5 w-5" />
+                    {t('guardian.feedback')}
+                  </CardTitle>
+                  <CardDescription>{t('guardian.feedbackDescription')}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {feedback.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">{t('guardian.noFeedback')}</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {feedback.map((item) => (
+                        <div key={item.id} className="p-4 rounded-lg border space-y-1">
+                          <div className="flex items-center justify-between gap-2">
+                            <p className="font-medium">
+                              {[item.subject_name, item.chapter_name].filter(Boolean).join(' • ')}
+                            </p>
+                            <span className="text-xs text-muted-foreground">
+                              {format(new Date(item.created_at), 'PP')}
+                            </span>
+                          </div>
+                          <p className="text-sm text-muted-foreground">{item.summary}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GuardianDashboard;
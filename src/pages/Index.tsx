@@ -18,6 +18,12 @@ const Index = () => {
         case 'student':
           navigate('/student');
           break;
+        case 'guardian':
+          navigate('/guardian');
+          break;
+        case 'ta':
+          navigate('/ta');
+          break;
         case 'teacher':
           navigate('/teacher');
           break;
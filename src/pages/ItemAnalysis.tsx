@@ -0,0 +1,284 @@
+import { useState, useEffect } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { toast } from "sonner";
+import { AlertTriangle, ArrowLeft, BarChart3, CheckCircle2, Clock, Pencil, Users } from "lucide-react";
+import { RichContent } from "@/components/RichContent";
+import { useItemAnalysis } from "@/hooks/useItemAnalysis";
+import { AssessmentKind } from "@/types/itemAnalysis";
+import { cn } from "@/lib/utils";
+import { getErrorDetail } from "@/utils/errorUtils";
+import { ItemFlag, ItemStatistics, MIN_RESPONSES_FOR_FLAGS } from "@/utils/itemAnalysis";
+
+type SortOrder = "position" | "discrimination" | "difficulty";
+
+// Flags shown as destructive badges; the rest are warnings
+const DESTRUCTIVE_FLAGS: ItemFlag[] = ["negative_discrimination", "possible_miskey"];
+
+const formatSeconds = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return mins > 0 ? `${mins}m ${secs.toString().padStart(2, "0")}s` : `${secs}s`;
+};
+
+const discriminationClass = (value: number | null) => {
+  if (value === null) return "text-muted-foreground";
+  if (value < 0) return "text-red-600";
+  if (value < 0.2) return "text-yellow-600";
+  return "text-green-600";
+};
+
+export default function ItemAnalysis() {
+  const { t } = useTranslation();
+  const { kind: kindParam, assessmentId } = useParams();
+  const navigate = useNavigate();
+  const kind: AssessmentKind = kindParam === "quiz" ? "quiz" : "exam";
+  const { data, items, isLoading, error } = useItemAnalysis(kind, Number(assessmentId));
+
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [sortOrder, setSortOrder] = useState<SortOrder>("position");
+
+  useEffect(() => {
+    if (error) toast.error(getErrorDetail(error, t('itemAnalysis.loadFailed')));
+  }, [error, t]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p>{t('itemAnalysis.loading')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="container mx-auto py-8 px-4">
+        <Card>
+          <CardContent className="text-center py-12">
+            <p className="text-muted-foreground">{t('itemAnalysis.notLoaded')}</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const negativeCount = items.filter(item => item.flags.includes("negative_discrimination")).length;
+  const flaggedCount = items.filter(item => item.flags.length > 0).length;
+  const difficulties = items.map(item => item.difficulty).filter((value): value is number => value !== null);
+  const meanDifficulty = difficulties.length
+    ? difficulties.reduce((sum, value) => sum + value, 0) / difficulties.length
+    : null;
+
+  // Items without a value sort last
+  const sortValue = (item: ItemStatistics) => {
+    if (sortOrder === "discrimination") return item.discrimination ?? Infinity;
+    if (sortOrder === "difficulty") return item.difficulty ?? Infinity;
+    return item.position;
+  };
+  const visibleItems = items
+    .filter(item => !flaggedOnly || item.flags.length > 0)
+    .sort((a, b) => sortValue(a) - sortValue(b));
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-5xl">
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">{t('itemAnalysis.title', { title: data.title })}</h1>
+          <p className="text-muted-foreground">
+            {kind === "exam" ? t('itemAnalysis.subtitleExam') : t('itemAnalysis.subtitleQuiz')}
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => navigate(-1)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          {t('common.back')}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">{t('itemAnalysis.attemptsAnalysed')}</p>
+                <p className="text-2xl font-bold">{data.attempts.length}</p>
+              </div>
+              <Users className="h-8 w-8 text-blue-500" />
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">{t('itemAnalysis.meanDifficulty')}</p>
+                <p className="text-2xl font-bold">
+                  {meanDifficulty === null ? "—" : `${Math.round(meanDifficulty * 100)}%`}
+                </p>
+              </div>
+              <BarChart3 className="h-8 w-8 text-green-500" />
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">{t('itemAnalysis.questionsFlagged')}</p>
+                <p className="text-2xl font-bold">{flaggedCount} / {items.length}</p>
+              </div>
+              <AlertTriangle className="h-8 w-8 text-red-500" />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {negativeCount > 0 && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            {t('itemAnalysis.negativeAlert', { count: negativeCount })}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {data.attempts.length < MIN_RESPONSES_FOR_FLAGS && (
+        <Alert className="mb-6">
+          <AlertDescription>
+            {t('itemAnalysis.tooFewAttempts', { count: MIN_RESPONSES_FOR_FLAGS })}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex items-center space-x-2">
+          <Switch id="flagged_only" checked={flaggedOnly} onCheckedChange={setFlaggedOnly} />
+          <Label htmlFor="flagged_only" className="cursor-pointer">{t('itemAnalysis.flaggedOnly')}</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="sort_order" className="text-sm text-muted-foreground">{t('itemAnalysis.sortBy')}</Label>
+          <Select value={sortOrder} onValueChange={(value) => setSortOrder(value as SortOrder)}>
+            <SelectTrigger id="sort_order" className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="position">{t('itemAnalysis.sort.position')}</SelectItem>
+              <SelectItem value="discrimination">{t('itemAnalysis.sort.discrimination')}</SelectItem>
+              <SelectItem value="difficulty">{t('itemAnalysis.sort.difficulty')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {visibleItems.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <p className="text-muted-foreground">
+              {flaggedOnly ? t('itemAnalysis.noneFlagged') : t('itemAnalysis.noQuestions')}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {visibleItems.map(item => (
+            <Card
+              key={item.question.id}
+              className={cn(item.flags.includes("negative_discrimination") && "border-red-500")}
+            >
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1 space-y-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="outline" className="font-mono">Q{item.position}</Badge>
+                      <Badge variant="outline">{item.question.question_type}</Badge>
+                      {item.flags.map(flag => (
+                        <Tooltip key={flag}>
+                          <TooltipTrigger asChild>
+                            <Badge variant={DESTRUCTIVE_FLAGS.includes(flag) ? "destructive" : "secondary"} className="cursor-help">
+                              {t(`itemAnalysis.flags.${flag}`)}
+                            </Badge>
+                          </TooltipTrigger>
+                          <TooltipContent className="max-w-xs">{t(`itemAnalysis.flagDescriptions.${flag}`)}</TooltipContent>
+                        </Tooltip>
+                      ))}
+                    </div>
+                    <CardTitle className="text-base font-normal leading-relaxed">
+                      <RichContent content={item.question.question_text} inline />
+                    </CardTitle>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate(`/teacher/questions/${item.question.chapter_id}?edit=${item.question.id}`)}
+                  >
+                    <Pencil className="h-4 w-4 mr-2" />
+                    {t('itemAnalysis.editQuestion')}
+                  </Button>
+                </div>
+                <CardDescription className="grid grid-cols-2 md:grid-cols-4 gap-4 pt-2 text-sm">
+                  <span>
+                    {t('itemAnalysis.difficulty')}{" "}
+                    <span className="font-semibold text-foreground">
+                      {item.difficulty === null ? "—" : item.difficulty.toFixed(2)}
+                    </span>
+                  </span>
+                  <span>
+                    {t('itemAnalysis.discrimination')}{" "}
+                    <span className={cn("font-semibold", discriminationClass(item.discrimination))}>
+                      {item.discrimination === null ? "—" : item.discrimination.toFixed(2)}
+                    </span>
+                  </span>
+                  <span>
+                    {t('itemAnalysis.responses')}{" "}
+                    <span className="font-semibold text-foreground">{item.responses}</span>
+                    {item.omitted > 0 && ` ${t('itemAnalysis.blank', { count: item.omitted })}`}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Clock className="h-3 w-3" />
+                    {t('itemAnalysis.avgTime')}{" "}
+                    <span className="font-semibold text-foreground">
+                      {item.averageTime === null ? "—" : formatSeconds(item.averageTime)}
+                    </span>
+                  </span>
+                </CardDescription>
+              </CardHeader>
+
+              {item.distractors.length > 0 && (
+                <CardContent className="space-y-2">
+                  {item.distractors.map(distractor => (
+                    <div key={distractor.key} className="space-y-1">
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="w-6 font-semibold">{distractor.key}.</span>
+                        <RichContent content={distractor.text} inline className="flex-1" />
+                        {distractor.isCorrect && <CheckCircle2 className="h-4 w-4 text-green-600" />}
+                        <span className="w-20 text-right text-muted-foreground">
+                          {distractor.count} ({Math.round(distractor.proportion * 100)}%)
+                        </span>
+                      </div>
+                      <div className="ml-8 h-2 rounded-full bg-muted">
+                        <div
+                          className={cn("h-2 rounded-full", distractor.isCorrect ? "bg-green-500" : "bg-slate-400")}
+                          style={{ width: `${distractor.proportion * 100}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              )}
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -29,11 +29,14 @@ import {
   CheckCircle,
   AlertCircle,
   Download,
+  Sigma,
 } from 'lucide-react';
 import api from '@/services/api';
 import { toast } from 'sonner';
-import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermission';
 import { useTranslation } from 'react-i18next';
+import { MathInput } from '@/components/MathInput';
+import { RichContent } from '@/components/RichContent';
 
 interface Assignment {
   id: number;
@@ -105,8 +108,9 @@ const LabReportEditor: React.FC = () => {
   const { t } = useTranslation();
   const { assignmentId, labReportId } = useParams<{ assignmentId?: string; labReportId?: string }>();
   const navigate = useNavigate();
-  const { user } = useAuth();
-  const isTeacherView = !!labReportId && user?.role === 'teacher';
+  const { can } = usePermissions();
+  // Graders (teachers and TAs) open submitted reports read-only
+  const isTeacherView = !!labReportId && can('submissions.view');
 
   const [assignment, setAssignment] = useState<Assignment | null>(null);
   const [labReport, setLabReport] = useState<LabReport | null>(null);
@@ -117,6 +121,10 @@ const LabReportEditor: React.FC = () => {
   const [regeneratingSection, setRegeneratingSection] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('fullreport');
   const [editMode, setEditMode] = useState<{ [key: string]: boolean }>({});
+  const [formulaSection, setFormulaSection] = useState<string | null>(null);
+  const [formulaLatex, setFormulaLatex] = useState('');
+  // Last caret position in each section's editor, where a formula is inserted
+  const cursorPositions = useRef<{ [key: string]: number }>({});
   const [showSubmitDialog, setShowSubmitDialog] = useState(false);
 
   // Generation inputs - Pre-filled with examples
@@ -254,6 +262,23 @@ const LabReportEditor: React.FC = () => {
     }
   };
 
+  const handleInsertFormula = () => {
+    if (!labReport || !formulaSection || !formulaLatex.trim()) return;
+
+    const sectionKey = formulaSection as keyof LabReportData;
+    const text = String(labReport.report_data[sectionKey] ?? '');
+    const position = Math.min(cursorPositions.current[formulaSection] ?? text.length, text.length);
+    const formula = `$${formulaLatex.trim()}$`;
+
+    setLabReport({
+      ...labReport,
+      report_data: { ...labReport.report_data, [sectionKey]: text.slice(0, position) + formula + text.slice(position) },
+    });
+    cursorPositions.current[formulaSection] = position + formula.length;
+    setFormulaSection(null);
+    setFormulaLatex('');
+  };
+
   const formatContent = (content: any) => {
     // Format equipment/components as tables
     if (Array.isArray(content) && content.length > 0 && 'no' in content[0]) {
@@ -289,7 +314,7 @@ const LabReportEditor: React.FC = () => {
     if (content && typeof content === 'object' && 'description' in content) {
       return (
         <div className="space-y-4">
-          <p className="whitespace-pre-wrap">{content.description}</p>
+          <RichContent content={content.description} />
           {content.tables && content.tables.length > 0 && (
             <div className="space-y-3">
               {content.tables.map((table: any, idx: number) => (
@@ -377,7 +402,7 @@ const LabReportEditor: React.FC = () => {
 
     // Default: string or JSON
     if (typeof content === 'string') {
-      return <p className="whitespace-pre-wrap">{content}</p>;
+      return <RichContent content={content} />;
     }
 
     return (
@@ -441,6 +466,9 @@ const LabReportEditor: React.FC = () => {
                   }
                   setLabReport({ ...labReport!, report_data: newData });
                 }}
+                onSelect={(e) => {
+                  cursorPositions.current[sectionKey] = e.currentTarget.selectionStart;
+                }}
                 rows={10}
                 className="font-mono text-sm"
                 readOnly={isReadOnly}
@@ -455,6 +483,16 @@ const LabReportEditor: React.FC = () => {
                   {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
                   Save Changes
                 </Button>
+                {typeof content === 'string' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setFormulaSection(sectionKey)}
+                  >
+                    <Sigma className="h-4 w-4 mr-1" />
+                    Insert Formula
+                  </Button>
+                )}
                 <Button
                   variant="outline"
                   size="sm"
@@ -877,6 +915,29 @@ const LabReportEditor: React.FC = () => {
       )}
       </div>
 
+      {/* Formula Editor Dialog */}
+      <Dialog open={formulaSection !== null} onOpenChange={(open) => !open && setFormulaSection(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Insert Formula</DialogTitle>
+            <DialogDescription>
+              Build the formula visually or type it as ASCII math. It is added at the cursor as inline LaTeX.
+            </DialogDescription>
+          </DialogHeader>
+          {formulaSection && (
+            <MathInput id="lab-report-formula" value={formulaLatex} onChange={setFormulaLatex} />
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormulaSection(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleInsertFormula} disabled={!formulaLatex.trim()}>
+              Insert
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Submit Confirmation Dialog */}
       <Dialog open={showSubmitDialog} onOpenChange={setShowSubmitDialog}>
         <DialogContent>
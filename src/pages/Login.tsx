@@ -6,10 +6,14 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import LanguageSwitcher from '@/components/LanguageSwitcher';
-import { GraduationCap, Loader2 } from 'lucide-react';
+import MfaChallenge from '@/components/MfaChallenge';
+import { GraduationCap, Loader2, Clock, Building2 } from 'lucide-react';
 import { toast } from 'sonner';
+import { tokenStorage } from '@/services/tokenStorage';
+import { ssoService } from '@/services/ssoService';
 
 const Login = () => {
   const { t } = useTranslation();
@@ -17,9 +21,16 @@ const Login = () => {
   const [password, setPassword] = useState('');
   const [emailError, setEmailError] = useState('');
   const [passwordError, setPasswordError] = useState('');
-  const { login, isLoading } = useAuth();
+  const [ssoRedirecting, setSsoRedirecting] = useState(false);
+  const { login, isLoading, sessionExpired, mfaPending } = useAuth();
   const navigate = useNavigate();
 
+  // After an expired session, go back to where the user was; otherwise home
+  // redirects to the appropriate dashboard
+  const navigateAfterLogin = () => {
+    navigate(tokenStorage.consumeReturnTo() || '/');
+  };
+
   const validateForm = (): boolean => {
     let isValid = true;
     
@@ -55,16 +66,26 @@ const Login = () => {
       return;
     }
     
-    const success = await login(email, password);
-    if (success) {
+    const status = await login(email, password);
+    if (status === 'success') {
       toast.success(t('auth.loginSuccess'));
-      // Navigate to home page, which will redirect to appropriate dashboard
-      navigate('/');
-    } else {
+      navigateAfterLogin();
+    } else if (status === 'error') {
       toast.error(t('auth.loginError'));
     }
   };
 
+  const handleSsoLogin = async () => {
+    setSsoRedirecting(true);
+    try {
+      await ssoService.beginLogin();
+    } catch (error) {
+      console.error('SSO redirect failed:', error);
+      toast.error(t('auth.ssoUnavailable'));
+      setSsoRedirecting(false);
+    }
+  };
+
   const quickLogin = async (userType: string, email: string) => {
     setEmail(email);
     setPassword('password');
@@ -73,12 +94,11 @@ const Login = () => {
     
     // Auto-submit after a short delay
     setTimeout(async () => {
-      const success = await login(email, 'password');
-      if (success) {
+      const status = await login(email, 'password');
+      if (status === 'success') {
         toast.success(`Logged in as ${userType}!`);
-        // Navigate to home page, which will redirect to appropriate dashboard
-        navigate('/');
-      } else {
+        navigateAfterLogin();
+      } else if (status === 'error') {
         toast.error('Quick login failed');
       }
     }, 300);
@@ -104,73 +124,120 @@ const Login = () => {
           <p className="text-muted-foreground">Your AI-Powered Learning Assistant</p>
         </div>
 
+        {/* Second factor step */}
+        {mfaPending && (
+          <MfaChallenge
+            onVerified={() => {
+              toast.success(t('auth.loginSuccess'));
+              navigateAfterLogin();
+            }}
+          />
+        )}
+
         {/* Login Form */}
-        <Card className="card-shadow">
-          <CardHeader className="space-y-1">
-            <CardTitle className="text-2xl font-semibold">{t('auth.signIn')}</CardTitle>
-            <CardDescription>
-              {t('auth.enterEmail')}
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <form id="login-form" onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="email">{t('common.email')}</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder={t('auth.enterEmail')}
-                  value={email}
-                  onChange={(e) => {
-                    setEmail(e.target.value);
-                    if (emailError) setEmailError('');
-                  }}
-                  required
-                  className={`h-10 ${emailError ? 'border-destructive' : ''}`}
-                />
-                {emailError && (
-                  <p className="text-sm text-destructive mt-1">{emailError}</p>
-                )}
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="password">{t('common.password')}</Label>
-                <Input
-                  id="password"
-                  type="password"
-                  placeholder={t('auth.enterPassword')}
-                  value={password}
-                  onChange={(e) => {
-                    setPassword(e.target.value);
-                    if (passwordError) setPasswordError('');
-                  }}
-                  required
-                  className={`h-10 ${passwordError ? 'border-destructive' : ''}`}
-                />
-                {passwordError && (
-                  <p className="text-sm text-destructive mt-1">{passwordError}</p>
-                )}
-              </div>
-              <Button type="submit" className="w-full h-10" disabled={isLoading}>
-                {isLoading ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    {t('common.loading')}
-                  </>
-                ) : (
-                  t('auth.signIn')
-                )}
-              </Button>
-            </form>
+        {!mfaPending && (
+          <Card className="card-shadow">
+            <CardHeader className="space-y-1">
+              <CardTitle className="text-2xl font-semibold">{t('auth.signIn')}</CardTitle>
+              <CardDescription>
+                {t('auth.enterEmail')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {sessionExpired && (
+                <Alert>
+                  <Clock className="h-4 w-4" />
+                  <AlertTitle>{t('auth.sessionExpired')}</AlertTitle>
+                  <AlertDescription>{t('auth.sessionExpiredDescription')}</AlertDescription>
+                </Alert>
+              )}
+              <form id="login-form" onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="email">{t('common.email')}</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder={t('auth.enterEmail')}
+                    value={email}
+                    onChange={(e) => {
+                      setEmail(e.target.value);
+                      if (emailError) setEmailError('');
+                    }}
+                    required
+                    className={`h-10 ${emailError ? 'border-destructive' : ''}`}
+                  />
+                  {emailError && (
+                    <p className="text-sm text-destructive mt-1">{emailError}</p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password">{t('common.password')}</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder={t('auth.enterPassword')}
+                    value={password}
+                    onChange={(e) => {
+                      setPassword(e.target.value);
+                      if (passwordError) setPasswordError('');
+                    }}
+                    required
+                    className={`h-10 ${passwordError ? 'border-destructive' : ''}`}
+                  />
+                  {passwordError && (
+                    <p className="text-sm text-destructive mt-1">{passwordError}</p>
+                  )}
+                </div>
+                <Button type="submit" className="w-full h-10" disabled={isLoading}>
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      {t('common.loading')}
+                    </>
+                  ) : (
+                    t('auth.signIn')
+                  )}
+                </Button>
+              </form>
 
-            {/* Register Link */}
-            <div className="text-center text-sm">
-              <span className="text-muted-foreground">{t('auth.noAccount')} </span>
-              <Link to="/register" className="text-primary hover:underline font-medium">
-                {t('auth.signUp')}
-              </Link>
-            </div>
-          </CardContent>
-        </Card>
+              {/* Institution single sign-on */}
+              {ssoService.isEnabled() && (
+                <>
+                  <div className="relative">
+                    <div className="absolute inset-0 flex items-center">
+                      <span className="w-full border-t" />
+                    </div>
+                    <div className="relative flex justify-center text-xs uppercase">
+                      <span className="bg-card px-2 text-muted-foreground">{t('auth.or')}</span>
+                    </div>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full h-10"
+                    onClick={handleSsoLogin}
+                    disabled={isLoading || ssoRedirecting}
+                  >
+                    {ssoRedirecting ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Building2 className="mr-2 h-4 w-4" />
+                    )}
+                    {t('auth.signInWithSso')}
+                  </Button>
+                </>
+              )}
+
+              {/* Register Link */}
+              <div className="text-center text-sm">
+                <span className="text-muted-foreground">{t('auth.noAccount')} </span>
+                <Link to="/register" className="text-primary hover:underline font-medium">
+                  {t('auth.signUp')}
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        )}
 
         {/* Features */}
         <div className="text-center text-sm text-muted-foreground">
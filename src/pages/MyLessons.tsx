@@ -22,6 +22,8 @@ import {
 import api from '@/lib/axios';
 import { toast } from 'sonner';
 import { useTranslation } from 'react-i18next';
+import { Can } from '@/components/Can';
+import { RichContent } from '@/components/RichContent';
 
 interface LessonPlan {
   id: number;
@@ -217,14 +219,16 @@ export default function MyLessons() {
                       <Copy className="h-4 w-4 mr-1" />
                       Duplicate
                     </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleDelete(lesson.id)}
-                      className="text-destructive"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    <Can permission="content.delete">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(lesson.id)}
+                        className="text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </Can>
                   </div>
                 </div>
               </CardHeader>
@@ -276,7 +280,7 @@ export default function MyLessons() {
                 {selectedLesson.introduction && (
                   <div>
                     <h3 className="font-semibold text-lg mb-3">Introduction</h3>
-                    <p className="text-muted-foreground whitespace-pre-wrap">{selectedLesson.introduction}</p>
+                    <RichContent content={selectedLesson.introduction} className="text-muted-foreground" />
                   </div>
                 )}
 
@@ -284,7 +288,7 @@ export default function MyLessons() {
                 {selectedLesson.main_content && (
                   <div>
                     <h3 className="font-semibold text-lg mb-3">Main Content</h3>
-                    <p className="text-muted-foreground whitespace-pre-wrap">{selectedLesson.main_content}</p>
+                    <RichContent content={selectedLesson.main_content} className="text-muted-foreground" />
                   </div>
                 )}
 
@@ -299,7 +303,7 @@ export default function MyLessons() {
                             <CardTitle className="text-base">{activity.title}</CardTitle>
                           </CardHeader>
                           <CardContent>
-                            <p className="text-sm text-muted-foreground">{activity.description}</p>
+                            <RichContent content={activity.description} className="text-sm text-muted-foreground" />
                             <p className="text-xs text-muted-foreground mt-2">Duration: {activity.duration} min</p>
                           </CardContent>
                         </Card>
@@ -312,7 +316,7 @@ export default function MyLessons() {
                 {selectedLesson.assessment && (
                   <div>
                     <h3 className="font-semibold text-lg mb-3">Assessment</h3>
-                    <p className="text-muted-foreground whitespace-pre-wrap">{selectedLesson.assessment}</p>
+                    <RichContent content={selectedLesson.assessment} className="text-muted-foreground" />
                   </div>
                 )}
 
@@ -320,7 +324,7 @@ export default function MyLessons() {
                 {selectedLesson.homework && (
                   <div>
                     <h3 className="font-semibold text-lg mb-3">Homework</h3>
-                    <p className="text-muted-foreground whitespace-pre-wrap">{selectedLesson.homework}</p>
+                    <RichContent content={selectedLesson.homework} className="text-muted-foreground" />
                   </div>
                 )}
 
@@ -9,6 +9,10 @@ import { CheckCircle2, XCircle, Clock, Trophy, TrendingUp, Sparkles } from "luci
 import api from "@/lib/axios";
 import { toast } from "sonner";
 import { formatScoreAs20, percentageTo20, getScoreColorClass } from "@/utils/scoreUtils";
+import { NumericResultDetails } from "@/components/NumericAnswer";
+import { AnswerText } from "@/components/MathInput";
+import { RichContent } from "@/components/RichContent";
+import { NumericAnswerSpec } from "@/types/question";
 
 interface QuizResult {
   attempt_id: number;
@@ -24,6 +28,8 @@ interface QuizResult {
     correct_answer: string;
     explanation?: string;
     time_spent: number;
+    question_type?: string;
+    numeric?: NumericAnswerSpec; // Marking rules of a numeric question
   }>;
 }
 
@@ -203,19 +209,19 @@ export default function QuizResults() {
 
               <div className="ml-7 space-y-2">
                 {answer.question_text && (
-                  <div className="text-sm font-medium text-foreground">
-                    {answer.question_text}
-                  </div>
+                  <RichContent content={answer.question_text} className="text-sm font-medium text-foreground" />
                 )}
 
                 <div className="text-sm">
                   <span className="font-medium">{t('quiz.yourAnswer')}:</span>{" "}
                   <span className={answer.is_correct ? "text-green-700" : "text-red-700"}>
-                    {answer.answer || t('quiz.notAnswered')}
+                    {answer.answer ? <AnswerText answer={answer.answer} /> : t('quiz.notAnswered')}
                   </span>
                 </div>
 
-                {!answer.is_correct && (
+                {answer.numeric ? (
+                  <NumericResultDetails answer={answer.answer} spec={answer.numeric} isCorrect={answer.is_correct} />
+                ) : !answer.is_correct && (
                   <div className="text-sm">
                     <span className="font-medium">{t('quiz.correctAnswer')}:</span>{" "}
                     <span className="text-green-700">{answer.correct_answer}</span>
@@ -8,8 +8,24 @@ import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { toast } from "sonner";
-import { Clock, CheckCircle, XCircle, TrendingUp, Sparkles, AlertTriangle } from "lucide-react";
+import { Clock, XCircle, TrendingUp, Sparkles, AlertTriangle, Coffee, Loader2, Timer } from "lucide-react";
 import api from "@/lib/axios";
+import { useAuth } from "@/contexts/AuthContext";
+import { useAnswerAutosave } from "@/hooks/useAnswerAutosave";
+import { useAttemptPause } from "@/hooks/useAttemptPause";
+import { answerStore } from "@/lib/answerStore";
+import { AutosaveIndicator } from "@/components/AutosaveIndicator";
+import { BreakScreen } from "@/components/BreakScreen";
+import { NumericAnswerInput } from "@/components/NumericAnswer";
+import { ShortAnswerInput } from "@/components/ShortAnswerInput";
+import { RichContent } from "@/components/RichContent";
+import { FlagToggle, QuestionPalette } from "@/components/QuestionPalette";
+import { SubmitSummaryDialog } from "@/components/SubmitSummaryDialog";
+import { useQuestionFlags } from "@/hooks/useQuestionFlags";
+import { SavedAnswer } from "@/types/exam";
+import { AttemptAccommodations, PauseState } from "@/types/accommodations";
+import { NumericQuestionHint } from "@/types/question";
+import { getErrorDetail } from "@/utils/errorUtils";
 
 interface Question {
   id: number;
@@ -18,6 +34,7 @@ interface Question {
   difficulty: string;
   bloom_level: string;
   options?: { [key: string]: string };
+  numeric?: NumericQuestionHint; // Only for numeric questions
 }
 
 interface Quiz {
@@ -34,6 +51,8 @@ interface QuizStartResponse {
   attempt_id: number;
   quiz: Quiz;
   questions: Question[];
+  saved_answers?: SavedAnswer[]; // Present when an ongoing attempt is resumed
+  accommodations?: AttemptAccommodations | null;
 }
 
 interface Answer {
@@ -46,6 +65,7 @@ export default function QuizTaking() {
   const { t } = useTranslation();
   const { chapterId } = useParams();
   const navigate = useNavigate();
+  const { setAssessmentActive, impersonation } = useAuth();
 
   const [loading, setLoading] = useState(true);
   const [quiz, setQuiz] = useState<Quiz | null>(null);
@@ -58,10 +78,53 @@ export default function QuizTaking() {
   const [elapsedTime, setElapsedTime] = useState(0);
   const [submitting, setSubmitting] = useState(false);
   const [warningsShown, setWarningsShown] = useState<Set<number>>(new Set());
+  const [showSummary, setShowSummary] = useState(false);
+  const [accommodations, setAccommodations] = useState<AttemptAccommodations | null>(null);
+  const autosave = useAnswerAutosave('quiz', attemptId);
+  const flags = useQuestionFlags('quiz', attemptId);
+
+  // Extra-time accommodations scale the quiz's limit
+  const timeLimitSeconds = quiz?.time_limit
+    ? Math.round(quiz.time_limit * 60 * (accommodations?.time_multiplier ?? 1))
+    : null;
+
+  // Time on the current question does not run during a break
+  const handlePauseChange = (state: PauseState) => {
+    if (state.paused_at) {
+      setQuestionTimes(recordQuestionTime());
+    } else {
+      setQuestionStartTime(Date.now());
+    }
+  };
+
+  const pause = useAttemptPause({ kind: 'quiz', attemptId, accommodations, onChange: handlePauseChange });
+
+  const handlePause = async () => {
+    try {
+      await pause.pause();
+    } catch (error) {
+      toast.error(getErrorDetail(error, t('accommodations.pauseFailed')));
+    }
+  };
+
+  const handleResume = async () => {
+    try {
+      await pause.resume();
+    } catch (error) {
+      toast.error(getErrorDetail(error, t('accommodations.resumeFailed')));
+    }
+  };
 
   // Fetch quiz and start attempt
   useEffect(() => {
     const fetchQuiz = async () => {
+      // Starting or resuming would change the student's attempt
+      if (impersonation) {
+        toast.error(t('impersonation.attemptBlocked'));
+        navigate("/subjects");
+        return;
+      }
+
       try {
         // Get quizzes for this chapter
         const response = await api.get(`/quizzes/chapter/${chapterId}`);
@@ -80,6 +143,9 @@ export default function QuizTaking() {
         setQuiz(startResponse.data.quiz);
         setAttemptId(startResponse.data.attempt_id);
         setQuestions(startResponse.data.questions);
+        setAccommodations(startResponse.data.accommodations ?? null);
+        const restored = await answerStore.restore('quiz', startResponse.data.attempt_id, startResponse.data.saved_answers);
+        setAnswers(new Map(Object.entries(restored).map(([questionId, answer]) => [Number(questionId), answer])));
         setQuestionStartTime(Date.now());
         setLoading(false);
       } catch (error: any) {
@@ -90,22 +156,30 @@ export default function QuizTaking() {
     };
 
     fetchQuiz();
-  }, [chapterId, navigate, t]);
+  }, [chapterId, impersonation, navigate, t]);
+
+  // Hold back session changes from other tabs while the attempt is open
+  useEffect(() => {
+    if (!attemptId) return;
+    setAssessmentActive(true);
+    return () => setAssessmentActive(false);
+  }, [attemptId, setAssessmentActive]);
 
-  // Timer for quiz duration
+  // Timer for quiz duration, stopped during a break
   useEffect(() => {
+    if (pause.paused) return;
+
     const timer = setInterval(() => {
       setElapsedTime((prev) => prev + 1);
     }, 1000);
 
     return () => clearInterval(timer);
-  }, []);
+  }, [pause.paused]);
 
   // Check time limit and show warnings
   useEffect(() => {
-    if (quiz?.time_limit) {
-      const totalSeconds = quiz.time_limit * 60;
-      const remaining = totalSeconds - elapsedTime;
+    if (timeLimitSeconds) {
+      const remaining = timeLimitSeconds - elapsedTime;
       
       // Auto-submit when time is up
       if (remaining <= 0) {
@@ -147,7 +221,7 @@ export default function QuizTaking() {
         setWarningsShown(newWarnings);
       }
     }
-  }, [elapsedTime, quiz, warningsShown]);
+  }, [elapsedTime, timeLimitSeconds, warningsShown]);
 
   const currentQuestion = questions[currentQuestionIndex];
 
@@ -155,33 +229,26 @@ export default function QuizTaking() {
     const newAnswers = new Map(answers);
     newAnswers.set(currentQuestion.id, value);
     setAnswers(newAnswers);
+    autosave.saveAnswer(currentQuestion.id, value);
   };
 
-  const handleNext = () => {
-    // Record time spent on this question
+  // Time spent on each question, including the visit in progress; revisits add up
+  const recordQuestionTime = () => {
     const timeSpent = Math.floor((Date.now() - questionStartTime) / 1000);
     const newTimes = new Map(questionTimes);
-    newTimes.set(currentQuestion.id, timeSpent);
-    setQuestionTimes(newTimes);
-
-    if (currentQuestionIndex < questions.length - 1) {
-      setCurrentQuestionIndex(currentQuestionIndex + 1);
-      setQuestionStartTime(Date.now());
-    }
+    newTimes.set(currentQuestion.id, (questionTimes.get(currentQuestion.id) || 0) + timeSpent);
+    return newTimes;
   };
 
-  const handlePrevious = () => {
-    if (currentQuestionIndex > 0) {
-      setCurrentQuestionIndex(currentQuestionIndex - 1);
-      setQuestionStartTime(Date.now());
-    }
+  const goToQuestion = (index: number) => {
+    if (index < 0 || index >= questions.length || index === currentQuestionIndex) return;
+    setQuestionTimes(recordQuestionTime());
+    setCurrentQuestionIndex(index);
+    setQuestionStartTime(Date.now());
   };
 
   const handleSubmit = async () => {
-    // Record time for last question
-    const timeSpent = Math.floor((Date.now() - questionStartTime) / 1000);
-    const finalTimes = new Map(questionTimes);
-    finalTimes.set(currentQuestion.id, timeSpent);
+    const finalTimes = recordQuestionTime();
 
     // Build answers array
     const answersArray: Answer[] = questions.map((q) => ({
@@ -190,15 +257,6 @@ export default function QuizTaking() {
       time_spent: finalTimes.get(q.id) || 0,
     }));
 
-    // Check if all questions are answered
-    const unanswered = answersArray.filter((a) => !a.answer).length;
-    if (unanswered > 0) {
-      const confirm = window.confirm(
-        t('quizTaking.unansweredQuestions', { count: unanswered })
-      );
-      if (!confirm) return;
-    }
-
     setSubmitting(true);
 
     try {
@@ -206,6 +264,8 @@ export default function QuizTaking() {
         answers: answersArray,
       });
 
+      await autosave.discard();
+      flags.clear();
       toast.success(t('quizTaking.submitted'));
       navigate(`/quiz-results/${attemptId}`, { state: { result: response.data } });
     } catch (error: any) {
@@ -223,9 +283,8 @@ export default function QuizTaking() {
 
   // Calculate time remaining if there's a time limit
   const getTimeRemaining = () => {
-    if (!quiz?.time_limit) return null;
-    const totalSeconds = quiz.time_limit * 60;
-    const remaining = totalSeconds - elapsedTime;
+    if (!timeLimitSeconds) return null;
+    const remaining = timeLimitSeconds - elapsedTime;
     return Math.max(0, remaining);
   };
 
@@ -249,6 +308,8 @@ export default function QuizTaking() {
   }
 
   const progress = ((currentQuestionIndex + 1) / questions.length) * 100;
+  // Clearing a typed answer leaves an empty string behind
+  const answeredIds = new Set(Array.from(answers).filter(([, answer]) => answer.trim()).map(([questionId]) => questionId));
 
   return (
     <div className="container max-w-4xl mx-auto py-8 px-4">
@@ -259,18 +320,33 @@ export default function QuizTaking() {
               <CardTitle>{quiz.title}</CardTitle>
               <CardDescription>{quiz.description}</CardDescription>
             </div>
-            <div className={`flex items-center gap-2 ${isTimeCritical ? 'text-red-600' : isTimeRunningOut ? 'text-orange-600' : 'text-muted-foreground'}`}>
-              <Clock className={`h-4 w-4 ${isTimeCritical || isTimeRunningOut ? 'animate-pulse' : ''}`} />
-              {quiz.time_limit ? (
-                <div className="flex items-center gap-2">
-                  <span className="font-mono text-lg">
-                    {formatTime(timeRemaining || 0)}
-                  </span>
-                  <span className="text-xs">remaining</span>
-                </div>
-              ) : (
-                <span className="font-mono">{formatTime(elapsedTime)}</span>
+            <div className="flex items-center gap-4">
+              {accommodations && accommodations.time_multiplier > 1 && (
+                <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Timer className="h-3 w-3" />
+                  {t('accommodations.extraTimeApplied', { multiplier: accommodations.time_multiplier })}
+                </span>
+              )}
+              {accommodations?.allow_pause && !pause.paused && (
+                <Button variant="outline" size="sm" onClick={handlePause} disabled={!pause.canPause || pause.pending || submitting}>
+                  {pause.pending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Coffee className="h-4 w-4 mr-1" />}
+                  {t('accommodations.takeBreak')}
+                </Button>
               )}
+              <AutosaveIndicator status={autosave.status} />
+              <div className={`flex items-center gap-2 ${isTimeCritical ? 'text-red-600' : isTimeRunningOut ? 'text-orange-600' : 'text-muted-foreground'}`}>
+                <Clock className={`h-4 w-4 ${isTimeCritical || isTimeRunningOut ? 'animate-pulse' : ''}`} />
+                {timeLimitSeconds ? (
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-lg">
+                      {formatTime(timeRemaining || 0)}
+                    </span>
+                    <span className="text-xs">remaining</span>
+                  </div>
+                ) : (
+                  <span className="font-mono">{formatTime(elapsedTime)}</span>
+                )}
+              </div>
             </div>
           </div>
 
@@ -279,21 +355,27 @@ export default function QuizTaking() {
               <span>
                 {t('quizTaking.questionOf', { current: currentQuestionIndex + 1, total: questions.length })}
               </span>
-              <span className="capitalize">
-                {currentQuestion.difficulty} • {currentQuestion.bloom_level}
-              </span>
+              <div className="flex items-center gap-2">
+                <span className="capitalize">
+                  {currentQuestion.difficulty} • {currentQuestion.bloom_level}
+                </span>
+                <FlagToggle
+                  flagged={flags.flagged.has(currentQuestion.id)}
+                  onToggle={() => flags.toggle(currentQuestion.id)}
+                />
+              </div>
             </div>
             <Progress value={progress} />
             
             {/* Time Progress Bar */}
-            {quiz.time_limit && (
+            {!!timeLimitSeconds && (
               <div className="space-y-1">
                 <div className="flex justify-between text-xs text-muted-foreground">
                   <span>Time Progress</span>
-                  <span>{Math.round((elapsedTime / (quiz.time_limit * 60)) * 100)}% used</span>
+                  <span>{Math.round((elapsedTime / timeLimitSeconds) * 100)}% used</span>
                 </div>
                 <Progress 
-                  value={(elapsedTime / (quiz.time_limit * 60)) * 100} 
+                  value={(elapsedTime / timeLimitSeconds) * 100} 
                   className={`h-2 ${isTimeCritical ? 'bg-red-100' : isTimeRunningOut ? 'bg-orange-100' : ''}`}
                 />
               </div>
@@ -332,93 +414,111 @@ export default function QuizTaking() {
           )}
         </CardHeader>
 
-        <CardContent className="space-y-6">
-          <div className="min-h-[200px]">
-            <h3 className="text-lg font-semibold mb-4">
-              {currentQuestion.question_text}
-            </h3>
-
-            {currentQuestion.options && (
-              <RadioGroup
-                value={answers.get(currentQuestion.id) || ""}
-                onValueChange={handleAnswerChange}
-                className="space-y-3"
-              >
-                {Object.entries(currentQuestion.options).map(([key, value]) => (
-                  <div
-                    key={key}
-                    className="flex items-center space-x-2 border rounded-lg p-4 hover:bg-accent cursor-pointer"
+        {!pause.paused && (
+          <>
+            <CardContent className="space-y-6">
+              <div className="min-h-[200px]">
+                <h3 className="text-lg font-semibold mb-4">
+                  <RichContent content={currentQuestion.question_text} inline />
+                </h3>
+
+                {currentQuestion.question_type === 'numeric' && (
+                  <NumericAnswerInput
+                    id={`numeric-${currentQuestion.id}`}
+                    value={answers.get(currentQuestion.id) || ""}
+                    onChange={handleAnswerChange}
+                    hint={currentQuestion.numeric}
+                  />
+                )}
+
+                {currentQuestion.question_type === 'short_answer' && (
+                  <ShortAnswerInput
+                    key={currentQuestion.id}
+                    id={`short-answer-${currentQuestion.id}`}
+                    value={answers.get(currentQuestion.id) || ""}
+                    onChange={handleAnswerChange}
+                  />
+                )}
+
+                {currentQuestion.options && (
+                  <RadioGroup
+                    value={answers.get(currentQuestion.id) || ""}
+                    onValueChange={handleAnswerChange}
+                    className="space-y-3"
                   >
-                    <RadioGroupItem value={key} id={`option-${key}`} />
-                    <Label
-                      htmlFor={`option-${key}`}
-                      className="flex-1 cursor-pointer"
-                    >
-                      <span className="font-semibold mr-2">{key}.</span>
-                      {value}
-                    </Label>
-                  </div>
-                ))}
-              </RadioGroup>
-            )}
-          </div>
+                    {Object.entries(currentQuestion.options).map(([key, value]) => (
+                      <div
+                        key={key}
+                        className="flex items-center space-x-2 border rounded-lg p-4 hover:bg-accent cursor-pointer"
+                      >
+                        <RadioGroupItem value={key} id={`option-${key}`} />
+                        <Label
+                          htmlFor={`option-${key}`}
+                          className="flex-1 cursor-pointer"
+                        >
+                          <span className="font-semibold mr-2">{key}.</span>
+                          <RichContent content={value} inline />
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                )}
+              </div>
 
-          {/* Question Navigator */}
-          <div className="border-t pt-4">
-            <p className="text-sm text-muted-foreground mb-2">{t('quizTaking.jumpToQuestion')}</p>
-            <div className="flex flex-wrap gap-2">
-              {questions.map((q, index) => {
-                const isAnswered = answers.has(q.id);
-                const isCurrent = index === currentQuestionIndex;
-
-                return (
-                  <Button
-                    key={q.id}
-                    variant={isCurrent ? "default" : isAnswered ? "secondary" : "outline"}
-                    size="sm"
-                    onClick={() => {
-                      const timeSpent = Math.floor((Date.now() - questionStartTime) / 1000);
-                      const newTimes = new Map(questionTimes);
-                      newTimes.set(currentQuestion.id, timeSpent);
-                      setQuestionTimes(newTimes);
-                      setCurrentQuestionIndex(index);
-                      setQuestionStartTime(Date.now());
-                    }}
-                    className="w-10 h-10 relative"
-                  >
-                    {index + 1}
-                    {isAnswered && !isCurrent && (
-                      <CheckCircle className="absolute -top-1 -right-1 h-3 w-3 text-green-500" />
-                    )}
-                  </Button>
-                );
-              })}
-            </div>
-          </div>
-        </CardContent>
-
-        <CardFooter className="flex justify-between">
-          <Button
-            variant="outline"
-            onClick={handlePrevious}
-            disabled={currentQuestionIndex === 0}
-          >
-            {t('quizTaking.previous')}
-          </Button>
-
-          <div className="text-sm text-muted-foreground">
-            {t('quizTaking.answeredCount', { answered: answers.size, total: questions.length })}
-          </div>
+              {/* Question Navigator */}
+              <div className="border-t pt-4">
+                <p className="text-sm text-muted-foreground mb-2">{t('quizTaking.jumpToQuestion')}</p>
+                <QuestionPalette
+                  questionIds={questions.map(q => q.id)}
+                  currentIndex={currentQuestionIndex}
+                  answeredIds={answeredIds}
+                  flaggedIds={flags.flagged}
+                  onSelect={goToQuestion}
+                />
+              </div>
+            </CardContent>
 
-          {currentQuestionIndex < questions.length - 1 ? (
-            <Button onClick={handleNext}>{t('quizTaking.next')}</Button>
-          ) : (
-            <Button onClick={handleSubmit} disabled={submitting}>
-              {submitting ? t('quizTaking.submitting') : t('quizTaking.submitQuiz')}
-            </Button>
-          )}
-        </CardFooter>
+            <CardFooter className="flex justify-between">
+              <Button
+                variant="outline"
+                onClick={() => goToQuestion(currentQuestionIndex - 1)}
+                disabled={currentQuestionIndex === 0}
+              >
+                {t('quizTaking.previous')}
+              </Button>
+
+              <div className="text-sm text-muted-foreground">
+                {t('quizTaking.answeredCount', { answered: answeredIds.size, total: questions.length })}
+              </div>
+
+              {currentQuestionIndex < questions.length - 1 ? (
+                <Button onClick={() => goToQuestion(currentQuestionIndex + 1)}>{t('quizTaking.next')}</Button>
+              ) : (
+                <Button onClick={() => setShowSummary(true)} disabled={submitting || !!impersonation}>
+                  {submitting ? t('quizTaking.submitting') : t('quizTaking.submitQuiz')}
+                </Button>
+              )}
+            </CardFooter>
+          </>
+        )}
       </Card>
+
+      {pause.paused && (
+        <div className="mt-4">
+          <BreakScreen breakRemaining={pause.breakRemaining} pending={pause.pending} onResume={handleResume} />
+        </div>
+      )}
+
+      <SubmitSummaryDialog
+        open={showSummary}
+        onOpenChange={setShowSummary}
+        questionIds={questions.map(q => q.id)}
+        answeredIds={answeredIds}
+        flaggedIds={flags.flagged}
+        submitLabel={t('quizTaking.submitQuiz')}
+        onJump={goToQuestion}
+        onConfirm={handleSubmit}
+      />
     </div>
   );
 }
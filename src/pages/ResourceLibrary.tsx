@@ -13,6 +13,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermission';
 import {
   Library,
   Video,
@@ -80,6 +81,7 @@ const difficultyColors: Record<string, string> = {
 
 export const ResourceLibrary = () => {
   const { user } = useAuth();
+  const { can } = usePermissions();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -264,7 +266,7 @@ export const ResourceLibrary = () => {
               Access learning materials: videos, PDFs, slides, and audio files
             </p>
           </div>
-          {user?.role === 'teacher' && (
+          {can('content.create') && (
             <Dialog open={isUploadOpen} onOpenChange={setIsUploadOpen}>
               <DialogTrigger asChild>
                 <Button>
@@ -571,7 +573,7 @@ export const ResourceLibrary = () => {
                     <Download className="h-4 w-4 mr-2" />
                     Download
                   </Button>
-                  {user?.role === 'teacher' && resource.uploaded_by === user.id && (
+                  {can('content.delete') && resource.uploaded_by === user.id && (
                     <Button
                       variant="destructive"
                       size="sm"
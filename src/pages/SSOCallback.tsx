@@ -0,0 +1,70 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useLocation, Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { tokenStorage } from '@/services/tokenStorage';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+const SSOCallback = () => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { loginWithSso } = useAuth();
+  const [failed, setFailed] = useState(false);
+  // The authorization code is single-use, so never process it twice
+  const handledRef = useRef(false);
+
+  useEffect(() => {
+    if (handledRef.current) return;
+    handledRef.current = true;
+
+    const completeLogin = async () => {
+      const status = await loginWithSso(location.search);
+      if (status === 'success') {
+        toast.success(t('auth.loginSuccess'));
+        navigate(tokenStorage.consumeReturnTo() || '/', { replace: true });
+      } else if (status === 'mfa_required') {
+        // The login page asks for the second factor, then goes on to the return URL
+        navigate('/login', { replace: true });
+      } else {
+        setFailed(true);
+      }
+    };
+
+    completeLogin();
+  }, [location.search, loginWithSso, navigate, t]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/5 to-info/5 p-4">
+      <Card className="w-full max-w-md text-center card-shadow">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold">
+            {failed ? t('auth.ssoFailed') : t('auth.ssoCompleting')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {failed ? (
+            <>
+              <div className="flex justify-center">
+                <AlertTriangle className="h-8 w-8 text-destructive" />
+              </div>
+              <p className="text-muted-foreground">{t('auth.ssoFailedDescription')}</p>
+              <Button asChild>
+                <Link to="/login">{t('auth.backToLogin')}</Link>
+              </Button>
+            </>
+          ) : (
+            <div className="flex justify-center">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SSOCallback;
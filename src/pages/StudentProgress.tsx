@@ -2,7 +2,6 @@ import { useState, useEffect } from "react";
 import { useTranslation } from "react-i18next";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import PersonalizedHeader from "@/components/PersonalizedHeader";
 import {
@@ -10,16 +9,8 @@ import {
 } from "lucide-react";
 import api from "@/lib/axios";
 import { toast } from "sonner";
-
-interface ChapterProgress {
-  chapter_id: number;
-  chapter_name: string;
-  average_score: number;
-  total_questions_attempted: number;
-  bloom_progress: Record<string, number>;
-  difficulty_progress: Record<string, number>;
-  mastery_level: number;
-}
+import { ChapterMasteryList, MasteryBadge } from "@/components/ChapterMasteryList";
+import { ChapterProgress } from "@/types/progress";
 
 interface Feedback {
   id: number;
@@ -69,13 +60,6 @@ export default function StudentProgress() {
     return "text-red-600 dark:text-red-400";
   };
 
-  const getMasteryBadge = (level: number) => {
-    if (level >= 80) return <Badge className="bg-green-500">{t('progress.masteryExpert')}</Badge>;
-    if (level >= 60) return <Badge className="bg-blue-500">{t('progress.masteryProficient')}</Badge>;
-    if (level >= 40) return <Badge className="bg-yellow-500">{t('progress.masteryDeveloping')}</Badge>;
-    return <Badge variant="outline">{t('progress.masteryBeginner')}</Badge>;
-  };
-
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -144,7 +128,7 @@ export default function StudentProgress() {
           <CardContent>
             <div className="text-2xl font-bold">
               {progress.length > 0
-                ? getMasteryBadge(progress.reduce((sum, p) => sum + p.mastery_level, 0) / progress.length)
+                ? <MasteryBadge level={progress.reduce((sum, p) => sum + p.mastery_level, 0) / progress.length} />
                 : "N/A"}
             </div>
           </CardContent>
@@ -169,34 +153,7 @@ export default function StudentProgress() {
               <CardDescription>{t('progress.performanceAcrossTopics')}</CardDescription>
             </CardHeader>
             <CardContent>
-              {progress.length === 0 ? (
-                <div className="text-center py-12">
-                  <Brain className="h-16 w-16 mx-auto mb-4 text-muted-foreground opacity-50" />
-                  <p className="text-muted-foreground">
-                    {t('progress.noQuizzesYet')}
-                  </p>
-                </div>
-              ) : (
-                <div className="space-y-4">
-                  {progress.map((chapter) => (
-                    <div key={chapter.chapter_id} className="space-y-2 p-4 border rounded-lg hover:bg-accent/50 transition-colors">
-                      <div className="flex items-center justify-between">
-                        <h4 className="font-medium">{chapter.chapter_name}</h4>
-                        <div className="flex items-center gap-2">
-                          <span className={`text-2xl font-bold ${getScoreColor(chapter.average_score)}`}>
-                            {chapter.average_score.toFixed(1)}%
-                          </span>
-                          {getMasteryBadge(chapter.mastery_level)}
-                        </div>
-                      </div>
-                      <Progress value={chapter.average_score} className="h-2" />
-                      <p className="text-xs text-muted-foreground">
-                        {t('progress.questionsAttempted', { count: chapter.total_questions_attempted })}
-                      </p>
-                    </div>
-                  ))}
-                </div>
-              )}
+              <ChapterMasteryList progress={progress} />
             </CardContent>
           </Card>
         </TabsContent>
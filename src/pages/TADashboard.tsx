@@ -0,0 +1,136 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import PersonalizedHeader from '@/components/PersonalizedHeader';
+import { AlertCircle, Calendar, ClipboardList, FileCheck, Hourglass, Loader2, TestTube } from 'lucide-react';
+import { toast } from 'sonner';
+import { taService } from '@/services/taService';
+import { TAAssignmentQueue } from '@/types/ta';
+
+const TADashboard = () => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [queues, setQueues] = useState<TAAssignmentQueue[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadQueues = async () => {
+      try {
+        setLoading(true);
+        setQueues(await taService.getMyQueues());
+      } catch (error) {
+        console.error('Failed to load grading queues:', error);
+        toast.error(t('ta.loadFailed'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadQueues();
+  }, [t]);
+
+  const totalPending = queues.reduce((total, queue) => total + queue.pending_count, 0);
+  const totalProvisional = queues.reduce((total, queue) => total + queue.provisional_count, 0);
+
+  if (loading) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-6">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      <PersonalizedHeader />
+
+      {/* Stats */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card className="card-shadow">
+          <CardHeader className="pb-2">
+            <CardDescription>{t('ta.assignedAssignments')}</CardDescription>
+            <CardTitle className="text-3xl">{queues.length}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card className="card-shadow">
+          <CardHeader className="pb-2">
+            <CardDescription>{t('ta.toGrade')}</CardDescription>
+            <CardTitle className="text-3xl text-primary">{totalPending}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card className="card-shadow">
+          <CardHeader className="pb-2">
+            <CardDescription>{t('ta.awaitingRelease')}</CardDescription>
+            <CardTitle className="text-3xl text-warning">{totalProvisional}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      {/* Grading queues */}
+      <Card className="card-shadow">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            {t('ta.gradingQueues')}
+          </CardTitle>
+          <CardDescription>{t('ta.gradingQueuesDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {queues.length === 0 ? (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{t('ta.noAssignments')}</AlertDescription>
+            </Alert>
+          ) : (
+            <div className="space-y-3">
+              {queues.map((queue) => (
+                <div
+                  key={queue.id}
+                  className="flex items-center justify-between gap-4 p-4 rounded-lg border hover:bg-muted/30 transition-colors"
+                >
+                  <div className="space-y-1">
+                    <p className="font-medium flex items-center gap-2">
+                      {queue.requires_lab_report && <TestTube className="h-4 w-4 text-green-500" />}
+                      {queue.title}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {queue.subject_name} • {queue.chapter_name}
+                    </p>
+                    {queue.due_date && (
+                      <p className="text-xs text-muted-foreground flex items-center gap-1">
+                        <Calendar className="h-3 w-3" />
+                        {t('ta.due', { date: format(new Date(queue.due_date), 'PP') })}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <Badge variant={queue.pending_count > 0 ? 'default' : 'secondary'}>
+                      <FileCheck className="h-3 w-3 mr-1" />
+                      {t('ta.pendingCount', { count: queue.pending_count, total: queue.total_submissions })}
+                    </Badge>
+                    {queue.provisional_count > 0 && (
+                      <Badge variant="outline">
+                        <Hourglass className="h-3 w-3 mr-1" />
+                        {t('ta.provisionalCount', { count: queue.provisional_count })}
+                      </Badge>
+                    )}
+                    <Button size="sm" onClick={() => navigate(`/teacher/assignment/${queue.id}/submissions`)}>
+                      {t('ta.openQueue')}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TADashboard;
@@ -13,7 +13,8 @@ import {
   Eye,
   Edit,
   Trash2,
-  ExternalLink
+  ExternalLink,
+  BarChart3
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { useNavigate } from 'react-router-dom';
@@ -216,6 +217,14 @@ const TeacherContentHistory = () => {
                         <Eye className="h-4 w-4 mr-2" />
                         View
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => navigate(`/teacher/item-analysis/quiz/${quiz.id}`)}
+                      >
+                        <BarChart3 className="h-4 w-4 mr-2" />
+                        Item Analysis
+                      </Button>
                     </div>
                   </div>
                 </CardHeader>
@@ -273,6 +282,14 @@ const TeacherContentHistory = () => {
                         <Eye className="h-4 w-4 mr-2" />
                         View
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => navigate(`/teacher/item-analysis/exam/${exam.id}`)}
+                      >
+                        <BarChart3 className="h-4 w-4 mr-2" />
+                        Item Analysis
+                      </Button>
                     </div>
                   </div>
                 </CardHeader>
@@ -13,7 +13,8 @@ import {
   Eye, 
   Plus,
   FileCheck,
-  TrendingUp
+  TrendingUp,
+  BarChart3
 } from "lucide-react";
 import api from "@/lib/axios";
 import { toast } from "sonner";
@@ -223,6 +224,14 @@ export default function TeacherExams() {
                       <Eye className="h-4 w-4 mr-2" />
                       View Submissions
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => navigate(`/teacher/item-analysis/exam/${exam.id}`)}
+                    >
+                      <BarChart3 className="h-4 w-4 mr-2" />
+                      Item Analysis
+                    </Button>
                   </div>
                 </div>
               </CardHeader>
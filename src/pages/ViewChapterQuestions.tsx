@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -14,10 +14,16 @@ import {
   Lightbulb,
   AlertCircle,
   Loader2,
-  Filter
+  Filter,
+  Pencil
 } from "lucide-react";
 import api from '@/services/api';
 import { toast } from 'sonner';
+import { NumericAnswerSpec } from '@/types/question';
+import { formatQuantity, formatTolerance } from '@/utils/numericAnswer';
+import { RichContent } from '@/components/RichContent';
+import { QuestionEditDialog } from '@/components/QuestionEditDialog';
+import { QuestionUpdate } from '@/types/question';
 
 interface Question {
   id: number;
@@ -28,6 +34,7 @@ interface Question {
   options: { [key: string]: string };
   correct_answer: string;
   explanation_text: string;
+  numeric?: NumericAnswerSpec;
 }
 
 interface Chapter {
@@ -39,6 +46,8 @@ interface Chapter {
 export default function ViewChapterQuestions() {
   const { chapterId } = useParams<{ chapterId: string }>();
   const navigate = useNavigate();
+  // ?edit=<question id> opens that question for editing, e.g. from item analysis
+  const [searchParams, setSearchParams] = useSearchParams();
   const [loading, setLoading] = useState(true);
   const [questions, setQuestions] = useState<Question[]>([]);
   const [chapter, setChapter] = useState<Chapter | null>(null);
@@ -52,6 +61,17 @@ export default function ViewChapterQuestions() {
     loadQuestions();
   }, [chapterId]);
 
+  const editId = Number(searchParams.get('edit'));
+  const editingQuestion = (editId && questions.find(q => q.id === editId)) || null;
+
+  const setEditing = (questionId: number | null) => {
+    setSearchParams(questionId ? { edit: String(questionId) } : {}, { replace: true });
+  };
+
+  const handleQuestionSaved = (questionId: number, changes: QuestionUpdate) => {
+    setQuestions(prev => prev.map(q => (q.id === questionId ? { ...q, ...changes, options: changes.options ?? {} } : q)));
+  };
+
   const loadQuestions = async () => {
     try {
       setLoading(true);
@@ -168,9 +188,13 @@ export default function ViewChapterQuestions() {
                     </Badge>
                   </div>
                   <CardTitle className="text-base font-normal leading-relaxed">
-                    {question.question_text}
+                    <RichContent content={question.question_text} inline />
                   </CardTitle>
                 </div>
+                <Button variant="ghost" size="sm" onClick={() => setEditing(question.id)}>
+                  <Pencil className="mr-2 h-4 w-4" />
+                  Edit
+                </Button>
               </div>
             </CardHeader>
             <CardContent>
@@ -195,7 +219,7 @@ export default function ViewChapterQuestions() {
                         }`}>
                           {key}
                         </div>
-                        <span className="flex-1">{value}</span>
+                        <RichContent content={value} inline className="flex-1" />
                         {isCorrect && (
                           <CheckCircle2 className="h-5 w-5 text-green-500 flex-shrink-0" />
                         )}
@@ -205,6 +229,20 @@ export default function ViewChapterQuestions() {
                 })}
               </div>
 
+              {/* Numeric answer */}
+              {question.numeric && (
+                <div className="mb-4 p-3 rounded-lg border-2 bg-green-50 border-green-500 dark:bg-green-950 dark:border-green-500 text-sm">
+                  <span className="font-semibold">Expected answer: </span>
+                  <span className="font-mono">{formatQuantity(question.numeric.expected_value, question.numeric.unit)}</span>
+                  {formatTolerance(question.numeric) && (
+                    <span className="text-muted-foreground"> ({formatTolerance(question.numeric)})</span>
+                  )}
+                  {question.numeric.significant_figures && (
+                    <span className="text-muted-foreground">, {question.numeric.significant_figures} significant figures</span>
+                  )}
+                </div>
+              )}
+
               {/* Explanation */}
               {question.explanation_text && (
                 <div className="mt-4 p-4 bg-blue-50 dark:bg-blue-950 rounded-lg border border-blue-200 dark:border-blue-800">
@@ -214,9 +252,7 @@ export default function ViewChapterQuestions() {
                       <p className="font-semibold text-blue-900 dark:text-blue-100 text-sm mb-1">
                         Explanation
                       </p>
-                      <p className="text-sm text-blue-800 dark:text-blue-200">
-                        {question.explanation_text}
-                      </p>
+                      <RichContent content={question.explanation_text} className="text-sm text-blue-800 dark:text-blue-200" />
                     </div>
                   </div>
                 </div>
@@ -341,6 +377,7 @@ export default function ViewChapterQuestions() {
                   <SelectItem value="mcq">Multiple Choice (MCQ)</SelectItem>
                   <SelectItem value="true_false">True/False</SelectItem>
                   <SelectItem value="short_answer">Short Answer</SelectItem>
+                  <SelectItem value="numeric">Numeric</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -398,6 +435,12 @@ export default function ViewChapterQuestions() {
           {renderQuestionsList(getFilteredQuestions(advancedQuestions))}
         </TabsContent>
       </Tabs>
+
+      <QuestionEditDialog
+        question={editingQuestion}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSaved={handleQuestionSaved}
+      />
     </div>
   );
 }
@@ -24,10 +24,19 @@ import {
   Award,
   TestTube,
   Sparkles,
+  Hourglass,
+  UserPlus,
+  Send,
 } from 'lucide-react';
 import api from '@/services/api';
 import { toast } from 'sonner';
 import { useTranslation } from 'react-i18next';
+import { usePermissions } from '@/hooks/usePermission';
+import { Can } from '@/components/Can';
+import { AssignTeachingAssistantsDialog } from '@/components/AssignTeachingAssistantsDialog';
+import { taService } from '@/services/taService';
+import { GradeStatus } from '@/types/ta';
+import { getErrorDetail } from '@/utils/errorUtils';
 
 interface Submission {
   id: number;
@@ -42,6 +51,8 @@ interface Submission {
   feedback: string | null;
   is_flagged: boolean;
   plagiarism_score: number | null;
+  grade_status?: GradeStatus;
+  graded_by_name?: string | null;
 }
 
 interface LabReport {
@@ -56,6 +67,7 @@ interface LabReport {
   submission_id?: number;
   grade?: number | null;
   feedback?: string | null;
+  grade_status?: GradeStatus;
 }
 
 interface Assignment {
@@ -72,6 +84,11 @@ const ViewSubmissions: React.FC = () => {
   const { t } = useTranslation();
   const { assignmentId } = useParams<{ assignmentId: string }>();
   const navigate = useNavigate();
+  const { can } = usePermissions();
+  // Graders who don't manage assignments (TAs) come from their grading queues
+  const managesAssignments = can('assignments.manage');
+  const [showTADialog, setShowTADialog] = useState(false);
+  const [releasing, setReleasing] = useState(false);
   const [submissions, setSubmissions] = useState<Submission[]>([]);
   const [labReports, setLabReports] = useState<LabReport[]>([]);
   const [assignment, setAssignment] = useState<Assignment | null>(null);
@@ -147,7 +164,28 @@ const ViewSubmissions: React.FC = () => {
     }
   };
 
+  const handleReleaseGrades = async () => {
+    try {
+      setReleasing(true);
+      const released = await taService.releaseGrades(Number(assignmentId));
+      toast.success(t('ta.gradesReleased', { count: released }));
+      loadData();
+    } catch (error) {
+      toast.error(getErrorDetail(error, t('ta.releaseFailed')));
+    } finally {
+      setReleasing(false);
+    }
+  };
+
   const getSubmissionStatus = (submission: Submission) => {
+    if (submission.grade !== null && submission.grade_status === 'provisional') {
+      return (
+        <Badge variant="outline" className="border-warning text-warning" title={submission.graded_by_name || undefined}>
+          <Hourglass className="w-3 h-3 mr-1" />
+          {t('ta.provisional')}: {submission.grade}/{assignment?.max_score}
+        </Badge>
+      );
+    }
     if (submission.grade !== null) {
       return (
         <Badge className="bg-green-500">
@@ -189,6 +227,7 @@ const ViewSubmissions: React.FC = () => {
 
   const gradedCount = submissions.filter((s) => s.grade !== null).length;
   const pendingCount = submissions.filter((s) => s.grade === null).length;
+  const provisionalCount = submissions.filter((s) => s.grade !== null && s.grade_status === 'provisional').length;
 
   // Filter and sort submissions
   const getFilteredAndSortedSubmissions = () => {
@@ -216,22 +255,46 @@ const ViewSubmissions: React.FC = () => {
   return (
     <div className="container mx-auto p-6 max-w-6xl space-y-6">
       {/* Back Button */}
-      <Button variant="ghost" onClick={() => navigate('/assignments')}>
+      <Button variant="ghost" onClick={() => navigate(managesAssignments ? '/assignments' : '/ta')}>
         <ArrowLeft className="w-4 h-4 mr-2" />
-        {t('assignments.backToAssignments')}
+        {managesAssignments ? t('assignments.backToAssignments') : t('ta.backToQueues')}
       </Button>
 
       {/* Header */}
-      <div>
-        <h1 className="text-3xl font-bold flex items-center gap-3">
-          <FileText className="w-8 h-8 text-purple-500" />
-          {t('submissions.viewSubmissions')} "{assignment.title}"
-        </h1>
-        <p className="text-gray-600 dark:text-gray-400 mt-2">
-          {assignment.subject_name} • {assignment.chapter_name}
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-3">
+            <FileText className="w-8 h-8 text-purple-500" />
+            {t('submissions.viewSubmissions')} "{assignment.title}"
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            {assignment.subject_name} • {assignment.chapter_name}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Can permission="assignments.manage">
+            <Button variant="outline" onClick={() => setShowTADialog(true)}>
+              <UserPlus className="w-4 h-4 mr-2" />
+              {t('ta.assignAssistants')}
+            </Button>
+          </Can>
+          {can('grades.release') && provisionalCount > 0 && (
+            <Button onClick={handleReleaseGrades} disabled={releasing}>
+              <Send className="w-4 h-4 mr-2" />
+              {t('ta.releaseGrades', { count: provisionalCount })}
+            </Button>
+          )}
+        </div>
       </div>
 
+      {/* TA grades aren't visible to students until released */}
+      {provisionalCount > 0 && !can('grades.release') && (
+        <Alert>
+          <Hourglass className="h-4 w-4" />
+          <AlertDescription>{t('ta.provisionalNotice', { count: provisionalCount })}</AlertDescription>
+        </Alert>
+      )}
+
       {/* Stats */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <Card>
@@ -434,7 +497,12 @@ const ViewSubmissions: React.FC = () => {
                                   </p>
                                 </div>
                               )}
-                              {labReport.grade !== null && labReport.grade !== undefined ? (
+                              {labReport.grade !== null && labReport.grade !== undefined && labReport.grade_status === 'provisional' ? (
+                                <Badge variant="outline" className="border-warning text-warning">
+                                  <Hourglass className="w-3 h-3 mr-1" />
+                                  {t('ta.provisional')}: {labReport.grade}/{assignment?.max_score || 100}
+                                </Badge>
+                              ) : labReport.grade !== null && labReport.grade !== undefined ? (
                                 <Badge className="bg-green-500">
                                   <Award className="w-3 h-3 mr-1" />
                                   {t('submissions.graded')} {labReport.grade}/{assignment?.max_score || 100}
@@ -551,6 +619,12 @@ const ViewSubmissions: React.FC = () => {
         </Card>
       )}
 
+      <AssignTeachingAssistantsDialog
+        assignmentId={assignment.id}
+        open={showTADialog}
+        onOpenChange={setShowTADialog}
+      />
+
       {/* AI Grading Confirmation Dialog */}
       <Dialog open={showAIGradeDialog} onOpenChange={setShowAIGradeDialog}>
         <DialogContent>
@@ -0,0 +1,49 @@
+import { isAxiosError } from 'axios';
+import api from './api';
+import { AccommodationProfile, AccommodationProfileUpdate, PauseState } from '@/types/accommodations';
+
+export type TimedAssessmentKind = 'exam' | 'quiz';
+
+const attemptPath = (kind: TimedAssessmentKind, attemptId: number) =>
+  `/${kind === 'exam' ? 'exams' : 'quizzes'}/attempts/${attemptId}`;
+
+export const accommodationService = {
+  /**
+   * A student's accommodations profile (teachers and admins)
+   * @returns null when the student has none
+   */
+  async getProfile(studentId: number): Promise<AccommodationProfile | null> {
+    try {
+      const response = await api.get<AccommodationProfile>(`/accommodations/students/${studentId}`);
+      return response.data;
+    } catch (error) {
+      if (isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  async saveProfile(studentId: number, profile: AccommodationProfileUpdate): Promise<AccommodationProfile> {
+    const response = await api.put<AccommodationProfile>(`/accommodations/students/${studentId}`, profile);
+    return response.data;
+  },
+
+  async removeProfile(studentId: number): Promise<void> {
+    await api.delete(`/accommodations/students/${studentId}`);
+  },
+
+  /**
+   * Start a rest break; the server refuses it when the student has no pause
+   * accommodation or the break budget is used up
+   */
+  async pauseAttempt(kind: TimedAssessmentKind, attemptId: number): Promise<PauseState> {
+    const response = await api.post<PauseState>(`${attemptPath(kind, attemptId)}/pause`);
+    return response.data;
+  },
+
+  async resumeAttempt(kind: TimedAssessmentKind, attemptId: number): Promise<PauseState> {
+    const response = await api.post<PauseState>(`${attemptPath(kind, attemptId)}/resume`);
+    return response.data;
+  },
+};
@@ -1,7 +1,12 @@
-import axios from 'axios';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { TokenResponse } from '@/types/auth';
+import { tokenStorage } from './tokenStorage';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://api.stementorat.com';
 
+// Endpoints that must never trigger a refresh (they are the refresh flow itself)
+const AUTH_ENDPOINTS = ['/auth/login', '/auth/refresh', '/auth/mfa/verify', '/auth/sso/login', '/auth/logout'];
+
 // Create axios instance with default config
 export const api = axios.create({
   baseURL: API_BASE_URL,
@@ -10,10 +15,123 @@ export const api = axios.create({
   },
 });
 
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  _retry?: boolean;
+}
+
+// Single in-flight refresh shared by every request that fails with 401
+let refreshPromise: Promise<string> | null = null;
+
+// Registered by AuthContext so an expired session resets React state
+let sessionExpiredHandler: (() => void) | null = null;
+
+export const setSessionExpiredHandler = (handler: (() => void) | null) => {
+  sessionExpiredHandler = handler;
+};
+
+// Registered by AuthContext: the impersonation token expired or was revoked
+let impersonationEndedHandler: (() => void) | null = null;
+
+export const setImpersonationEndedHandler = (handler: (() => void) | null) => {
+  impersonationEndedHandler = handler;
+};
+
+// Registered by AuthContext to explain why a request was not sent
+let blockedRequestHandler: (() => void) | null = null;
+
+export const setBlockedRequestHandler = (handler: (() => void) | null) => {
+  blockedRequestHandler = handler;
+};
+
+// Impersonation is view-only: anything but a read is refused client-side (the
+// backend enforces the same rule on the scoped token). Even starting an attempt
+// would use up one of the student's attempts and start their clock.
+const READ_ONLY_METHODS = ['get', 'head', 'options'];
+
+// POSTs that only read, e.g. previews and searches
+const IMPERSONATION_ALLOWED_ENDPOINTS = ['/exams/blueprint/preview', '/test-rag/search'];
+
+const isBlockedWhileImpersonating = (method = 'get', url = '') =>
+  !READ_ONLY_METHODS.includes(method.toLowerCase()) &&
+  !IMPERSONATION_ALLOWED_ENDPOINTS.includes(url.split('?')[0]);
+
+export const IMPERSONATION_BLOCKED = 'ERR_BLOCKED_WHILE_IMPERSONATING';
+
+// Name of the Web Lock that serialises refreshes across tabs
+const REFRESH_LOCK_NAME = 'stemmentorat-token-refresh';
+
+const requestRefresh = async (): Promise<string> => {
+  const refreshToken = tokenStorage.getRefreshToken();
+  if (!refreshToken) {
+    throw new Error('No refresh token available');
+  }
+
+  // Plain axios so this request bypasses the interceptors below
+  const response = await axios.post<TokenResponse>(`${API_BASE_URL}/auth/refresh`, {
+    refresh_token: refreshToken,
+  });
+  tokenStorage.setTokens(response.data.access_token, response.data.refresh_token);
+  return response.data.access_token;
+};
+
+// Tabs share one refresh token; with rotation only one of them may spend it
+const withCrossTabLock = <T>(task: () => Promise<T>): Promise<T> =>
+  navigator.locks ? (navigator.locks.request(REFRESH_LOCK_NAME, task) as Promise<T>) : task();
+
+/**
+ * Exchange the stored refresh token for a new access token.
+ *
+ * Concurrent callers share the same promise, so only one refresh request is
+ * sent no matter how many calls failed at once. Other tabs pick up the new
+ * token from shared storage.
+ */
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    const staleToken = tokenStorage.getAccessToken();
+
+    refreshPromise = withCrossTabLock(async () => {
+      // Another tab may have refreshed while this one waited for the lock
+      const currentToken = tokenStorage.getAccessToken();
+      if (currentToken && currentToken !== staleToken) {
+        return currentToken;
+      }
+      return requestRefresh();
+    }).finally(() => {
+      refreshPromise = null;
+    });
+  }
+
+  return refreshPromise;
+};
+
+const expireSession = () => {
+  // Remember where the user was so they can pick up there after signing in
+  if (window.location.pathname !== '/login') {
+    tokenStorage.setReturnTo(window.location.pathname + window.location.search);
+  }
+  tokenStorage.clear();
+
+  if (sessionExpiredHandler) {
+    sessionExpiredHandler();
+  } else {
+    window.location.href = '/login';
+  }
+};
+
+const isAuthEndpoint = (url?: string) =>
+  !!url && AUTH_ENDPOINTS.some((endpoint) => url.includes(endpoint));
+
 // Request interceptor to add auth token
 api.interceptors.request.use(
   (config) => {
-    const token = localStorage.getItem('access_token');
+    if (tokenStorage.isImpersonating() && isBlockedWhileImpersonating(config.method, config.url)) {
+      blockedRequestHandler?.();
+      return Promise.reject(
+        new AxiosError('This action is disabled while impersonating a user', IMPERSONATION_BLOCKED, config)
+      );
+    }
+
+    const token = tokenStorage.getAccessToken();
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -24,17 +142,38 @@ api.interceptors.request.use(
   }
 );
 
-// Response interceptor to handle errors
+// Response interceptor: refresh the token once and replay the failed request
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      // Token expired or invalid - clear auth data
-      localStorage.removeItem('access_token');
-      localStorage.removeItem('stemmentorat_user');
-      window.location.href = '/login';
+  async (error: AxiosError) => {
+    const originalRequest = error.config as RetriableRequestConfig | undefined;
+
+    if (
+      error.response?.status !== 401 ||
+      !originalRequest ||
+      originalRequest._retry ||
+      isAuthEndpoint(originalRequest.url)
+    ) {
+      return Promise.reject(error);
+    }
+
+    // Scoped tokens cannot be refreshed; drop back to the admin's own session
+    if (tokenStorage.isImpersonating()) {
+      tokenStorage.stopImpersonation();
+      impersonationEndedHandler?.();
+      return Promise.reject(error);
+    }
+
+    originalRequest._retry = true;
+
+    try {
+      const token = await refreshAccessToken();
+      originalRequest.headers.Authorization = `Bearer ${token}`;
+      return api(originalRequest);
+    } catch (refreshError) {
+      expireSession();
+      return Promise.reject(error);
     }
-    return Promise.reject(error);
   }
 );
 
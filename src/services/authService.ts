@@ -1,28 +1,58 @@
-import api from './api';
-import { LoginRequest, RegisterRequest, TokenResponse, UserResponse } from '@/types/auth';
+import api, { refreshAccessToken } from './api';
+import { tokenStorage } from './tokenStorage';
+import {
+  LoginRequest,
+  RegisterRequest,
+  TokenResponse,
+  UserResponse,
+  MfaChallengeResponse,
+  MfaVerifyRequest,
+} from '@/types/auth';
+
+export interface LoginResult {
+  mfaRequired: boolean;
+  mfaToken?: string; // Set when a second factor is required
+  token?: string;
+  user?: UserResponse;
+}
 
 export const authService = {
-  async login(email: string, password: string): Promise<{ token: string; user: UserResponse }> {
+  async login(email: string, password: string): Promise<LoginResult> {
     // Backend uses OAuth2PasswordRequestForm which expects username field
     const formData = new URLSearchParams();
     formData.append('username', email);
     formData.append('password', password);
 
-    const response = await api.post<TokenResponse>('/auth/login', formData, {
+    const response = await api.post<TokenResponse | MfaChallengeResponse>('/auth/login', formData, {
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
       },
     });
 
-    const token = response.data.access_token;
+    // Second factor needed before the backend hands out tokens
+    if ('mfa_required' in response.data && response.data.mfa_required) {
+      return { mfaRequired: true, mfaToken: response.data.mfa_token };
+    }
+
+    return this.completeLogin(response.data as TokenResponse);
+  },
+
+  async verifyMfa(data: MfaVerifyRequest): Promise<LoginResult> {
+    const response = await api.post<TokenResponse>('/auth/mfa/verify', data);
+    return this.completeLogin(response.data);
+  },
 
-    // Store token
-    localStorage.setItem('access_token', token);
+  async completeLogin(tokens: TokenResponse): Promise<LoginResult> {
+    const token = tokens.access_token;
+
+    // Store tokens (refresh token is used to silently renew the session)
+    tokenStorage.setTokens(token, tokens.refresh_token);
 
     // Get user info
     const userResponse = await api.get<UserResponse>('/auth/me');
 
     return {
+      mfaRequired: false,
       token,
       user: userResponse.data,
     };
@@ -38,14 +68,31 @@ export const authService = {
     return response.data;
   },
 
+  async refresh(): Promise<string> {
+    return refreshAccessToken();
+  },
+
   logout() {
-    localStorage.removeItem('access_token');
-    localStorage.removeItem('stemmentorat_user');
+    const accessToken = tokenStorage.getAccessToken();
+    const refreshToken = tokenStorage.getRefreshToken();
+    tokenStorage.clear();
+
+    // Best-effort revocation so the refresh token cannot be reused. The tokens
+    // are already cleared, so the request carries the old access token itself.
+    if (refreshToken) {
+      api.post(
+        '/auth/logout',
+        { refresh_token: refreshToken },
+        accessToken ? { headers: { Authorization: `Bearer ${accessToken}` } } : undefined,
+      ).catch(() => undefined);
+    }
   },
 };
 
 // Named exports for convenience
 export const login = authService.login.bind(authService);
+export const verifyMfa = authService.verifyMfa.bind(authService);
 export const register = authService.register.bind(authService);
 export const getCurrentUser = authService.getCurrentUser.bind(authService);
+export const refresh = authService.refresh.bind(authService);
 export const logout = authService.logout.bind(authService);
@@ -0,0 +1,121 @@
+import { isAxiosError } from 'axios';
+import api from './api';
+import {
+  AnswerGradeUpdate,
+  AttemptClock,
+  AttemptGradeSummary,
+  BlueprintSampleQuestion,
+  ClassSection,
+  ExamAttemptSession,
+  ExamAvailability,
+  ExamBlueprint,
+  ExamSubmitPayload,
+  GradeSuggestion,
+  SavedAnswer,
+  ShortAnswerGradingData,
+} from '@/types/exam';
+
+export const examService = {
+  /**
+   * The student's unfinished attempt at an exam, if any
+   * @returns The attempt with its saved answers, or null when there is none to resume
+   */
+  async getOpenAttempt(examId: number): Promise<ExamAttemptSession | null> {
+    try {
+      const response = await api.get<ExamAttemptSession>(`/exams/${examId}/attempts/open`);
+      return { ...response.data, resumed: true };
+    } catch (error) {
+      if (isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * The student's window, attempts and access code requirement for an exam
+   */
+  async getAvailability(examId: number): Promise<ExamAvailability> {
+    const response = await api.get<ExamAvailability>(`/exams/${examId}/availability`);
+    return response.data;
+  },
+
+  /**
+   * Start a new attempt; the server refuses it outside the window, without
+   * attempts left or with a wrong access code
+   */
+  async startAttempt(examId: number, accessCode?: string): Promise<ExamAttemptSession> {
+    const response = await api.post<ExamAttemptSession>(
+      `/exams/${examId}/start`,
+      accessCode ? { access_code: accessCode } : undefined
+    );
+    return response.data;
+  },
+
+  /**
+   * Server time and the attempt's current deadline, used to correct the local countdown
+   */
+  async getClock(attemptId: number): Promise<AttemptClock> {
+    const response = await api.get<AttemptClock>(`/exams/attempts/${attemptId}/clock`);
+    return response.data;
+  },
+
+  /**
+   * Autosave answers to an open attempt; later calls overwrite earlier ones per question
+   */
+  async saveAnswers(attemptId: number, answers: SavedAnswer[]): Promise<void> {
+    await api.put(`/exams/attempts/${attemptId}/answers`, { answers });
+  },
+
+  /**
+   * Submit an attempt
+   *
+   * A submission that arrives after the deadline (e.g. from the offline queue)
+   * is graded on the answers the server's autosave acknowledged before the
+   * deadline; answers in the payload that it never saw in time are ignored.
+   */
+  async submitAttempt(attemptId: number, payload: ExamSubmitPayload) {
+    const response = await api.post(`/exams/attempts/${attemptId}/submit`, payload);
+    return response.data;
+  },
+
+  /**
+   * Draw one instance of a blueprint the way a student's exam would be drawn, without saving it
+   */
+  async previewBlueprint(blueprint: ExamBlueprint): Promise<BlueprintSampleQuestion[]> {
+    const response = await api.post<BlueprintSampleQuestion[]>('/exams/blueprint/preview', blueprint);
+    return response.data;
+  },
+
+  /**
+   * Class sections the signed-in teacher can schedule exams for
+   */
+  async getSections(): Promise<ClassSection[]> {
+    const response = await api.get<ClassSection[]>('/exams/sections');
+    return response.data;
+  },
+
+  /**
+   * Short-answer questions of an exam with every student's answer, for marking question by question
+   */
+  async getShortAnswerGrading(examId: number): Promise<ShortAnswerGradingData> {
+    const response = await api.get<ShortAnswerGradingData>(`/exams/${examId}/grading/short-answers`);
+    return response.data;
+  },
+
+  /**
+   * Ask the AI for a mark and rationale against the question's model answer; nothing is saved as a grade
+   */
+  async suggestAnswerGrade(attemptId: number, questionId: number): Promise<GradeSuggestion> {
+    const response = await api.post<GradeSuggestion>(`/exams/attempts/${attemptId}/answers/${questionId}/ai-suggest`);
+    return response.data;
+  },
+
+  /**
+   * Mark one answer, partial credit allowed; the server recalculates the attempt total and pass/fail
+   */
+  async gradeAnswer(attemptId: number, questionId: number, grade: AnswerGradeUpdate): Promise<AttemptGradeSummary> {
+    const response = await api.put<AttemptGradeSummary>(`/exams/attempts/${attemptId}/answers/${questionId}/grade`, grade);
+    return response.data;
+  },
+};
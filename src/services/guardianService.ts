@@ -0,0 +1,45 @@
+import api from './api';
+import { GuardianDigestPreference, GuardianStudentOverview, LinkedStudent } from '@/types/guardian';
+
+export const guardianService = {
+  /**
+   * Students linked to the signed-in guardian
+   */
+  async getLinkedStudents(): Promise<LinkedStudent[]> {
+    const response = await api.get<LinkedStudent[]>('/guardian/students');
+    return response.data;
+  },
+
+  /**
+   * Read-only progress, feedback, due dates and exam results for one linked student
+   */
+  async getStudentOverview(studentId: number): Promise<GuardianStudentOverview> {
+    const response = await api.get<GuardianStudentOverview>(`/guardian/students/${studentId}/overview`);
+    return response.data;
+  },
+
+  async getDigestPreference(): Promise<GuardianDigestPreference> {
+    const response = await api.get<GuardianDigestPreference>('/guardian/digest');
+    return response.data;
+  },
+
+  async updateDigestPreference(preference: GuardianDigestPreference): Promise<GuardianDigestPreference> {
+    const response = await api.put<GuardianDigestPreference>('/guardian/digest', preference);
+    return response.data;
+  },
+
+  /**
+   * Students linked to a guardian account (admin only)
+   */
+  async getGuardianStudents(guardianId: number): Promise<LinkedStudent[]> {
+    const response = await api.get<LinkedStudent[]>(`/admin/guardians/${guardianId}/students`);
+    return response.data;
+  },
+
+  async setGuardianStudents(guardianId: number, studentIds: number[]): Promise<LinkedStudent[]> {
+    const response = await api.put<LinkedStudent[]>(`/admin/guardians/${guardianId}/students`, {
+      student_ids: studentIds,
+    });
+    return response.data;
+  },
+};
@@ -0,0 +1,30 @@
+import api from './api';
+import { ImpersonationSession, ImpersonationStartResponse } from '@/types/auth';
+
+/**
+ * Admin impersonation ("view as user")
+ *
+ * The backend issues a short-lived token scoped to the target user and records
+ * every session, with the admin's reason, in its audit log.
+ */
+export const impersonationService = {
+  async start(userId: number, reason: string): Promise<ImpersonationStartResponse> {
+    const response = await api.post<ImpersonationStartResponse>('/admin/impersonation', {
+      user_id: userId,
+      reason,
+    });
+    return response.data;
+  },
+
+  /**
+   * Must be called with the admin's own token, after the scoped one is dropped
+   */
+  async end(sessionId: number): Promise<void> {
+    await api.post(`/admin/impersonation/${sessionId}/end`);
+  },
+
+  async getSessions(limit = 20): Promise<ImpersonationSession[]> {
+    const response = await api.get<ImpersonationSession[]>('/admin/impersonation/sessions', { params: { limit } });
+    return response.data;
+  },
+};
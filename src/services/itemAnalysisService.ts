@@ -0,0 +1,15 @@
+import api from './api';
+import { AssessmentKind, ItemResponseData } from '@/types/itemAnalysis';
+
+const assessmentPath = (kind: AssessmentKind, assessmentId: number) =>
+  `/${kind === 'exam' ? 'exams' : 'quizzes'}/${assessmentId}`;
+
+export const itemAnalysisService = {
+  /**
+   * Every submitted attempt's answers, scores and per-question times for an exam or quiz
+   */
+  async getItemResponses(kind: AssessmentKind, assessmentId: number): Promise<ItemResponseData> {
+    const response = await api.get<ItemResponseData>(`${assessmentPath(kind, assessmentId)}/item-responses`);
+    return response.data;
+  },
+};
@@ -0,0 +1,34 @@
+import api from './api';
+import { TotpConfirmResponse, TotpEnrollmentResponse } from '@/types/auth';
+
+/**
+ * Two-factor authentication (TOTP) enrolment
+ *
+ * Which roles must enrol is part of the security settings (see settingsService).
+ */
+export const mfaService = {
+  /**
+   * Start enrolment: the backend generates a secret that stays pending until confirmed
+   */
+  async startTotpEnrollment(): Promise<TotpEnrollmentResponse> {
+    const response = await api.post<TotpEnrollmentResponse>('/auth/mfa/totp/enroll');
+    return response.data;
+  },
+
+  /**
+   * Confirm enrolment with a code from the authenticator app; returns one-time recovery codes
+   */
+  async confirmTotpEnrollment(code: string): Promise<TotpConfirmResponse> {
+    const response = await api.post<TotpConfirmResponse>('/auth/mfa/totp/confirm', { code });
+    return response.data;
+  },
+
+  async regenerateRecoveryCodes(code: string): Promise<TotpConfirmResponse> {
+    const response = await api.post<TotpConfirmResponse>('/auth/mfa/recovery-codes', { code });
+    return response.data;
+  },
+
+  async disableTotp(code: string): Promise<void> {
+    await api.post('/auth/mfa/totp/disable', { code });
+  },
+};
@@ -0,0 +1,49 @@
+import api from './api';
+import {
+  AnswerChangeEvent,
+  FlagReview,
+  FlagReviewRequest,
+  ProctoringEvent,
+  ProctoringTimelineEvent,
+} from '@/types/proctoring';
+
+export const proctoringService = {
+  /**
+   * Append a batch of events to an attempt's proctoring log
+   */
+  async sendEvents(attemptId: number, events: ProctoringEvent[]): Promise<void> {
+    await api.post(`/exams/attempts/${attemptId}/proctoring-events`, { events });
+  },
+
+  /**
+   * Full event log of an attempt, oldest first
+   */
+  async getTimeline(attemptId: number): Promise<ProctoringTimelineEvent[]> {
+    const response = await api.get<ProctoringTimelineEvent[]>(`/exams/attempts/${attemptId}/proctoring-events`);
+    return response.data;
+  },
+
+  /**
+   * Every autosaved answer of an attempt, oldest first
+   */
+  async getAnswerHistory(attemptId: number): Promise<AnswerChangeEvent[]> {
+    const response = await api.get<AnswerChangeEvent[]>(`/exams/attempts/${attemptId}/answer-history`);
+    return response.data;
+  },
+
+  /**
+   * Past flag decisions on an attempt, newest first
+   */
+  async getFlagReviews(attemptId: number): Promise<FlagReview[]> {
+    const response = await api.get<FlagReview[]>(`/exams/attempts/${attemptId}/flag-reviews`);
+    return response.data;
+  },
+
+  /**
+   * Confirm or clear the integrity flag of an attempt
+   */
+  async reviewFlag(attemptId: number, review: FlagReviewRequest): Promise<FlagReview> {
+    const response = await api.post<FlagReview>(`/exams/attempts/${attemptId}/flag-reviews`, review);
+    return response.data;
+  },
+};
@@ -0,0 +1,30 @@
+import api from './api';
+import { NumericQuestionCreate, QuestionUpdate } from '@/types/question';
+import { PoolAvailability } from '@/types/exam';
+
+export const questionService = {
+  /**
+   * Add a hand-written numeric question to a chapter's question bank
+   */
+  async createNumericQuestion(question: NumericQuestionCreate): Promise<{ id: number }> {
+    const response = await api.post<{ id: number }>('/questions/', question);
+    return response.data;
+  },
+
+  /**
+   * Question counts per Bloom level and difficulty across chapters; empty cells may be left out
+   */
+  async getPoolAvailability(chapterIds: number[]): Promise<PoolAvailability[]> {
+    const response = await api.get<PoolAvailability[]>('/questions/pool-availability', {
+      params: { chapter_ids: chapterIds.join(',') },
+    });
+    return response.data;
+  },
+
+  /**
+   * Correct the text, options, answer key or explanation of a question in the bank
+   */
+  async updateQuestion(questionId: number, question: QuestionUpdate): Promise<void> {
+    await api.put(`/questions/${questionId}`, question);
+  },
+};
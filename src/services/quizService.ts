@@ -0,0 +1,11 @@
+import api from './api';
+import { SavedAnswer } from '@/types/exam';
+
+export const quizService = {
+  /**
+   * Autosave answers to an open quiz attempt; later calls overwrite earlier ones per question
+   */
+  async saveAnswers(attemptId: number, answers: SavedAnswer[]): Promise<void> {
+    await api.put(`/quizzes/attempts/${attemptId}/answers`, { answers });
+  },
+};
@@ -0,0 +1,23 @@
+import api from './api';
+import { Role, RoleInput } from '@/types/roles';
+
+export const roleService = {
+  async getRoles(): Promise<Role[]> {
+    const response = await api.get<Role[]>('/admin/roles');
+    return response.data;
+  },
+
+  async createRole(role: RoleInput): Promise<Role> {
+    const response = await api.post<Role>('/admin/roles', role);
+    return response.data;
+  },
+
+  async updateRole(id: number, role: Partial<RoleInput>): Promise<Role> {
+    const response = await api.patch<Role>(`/admin/roles/${id}`, role);
+    return response.data;
+  },
+
+  async deleteRole(id: number): Promise<void> {
+    await api.delete(`/admin/roles/${id}`);
+  },
+};
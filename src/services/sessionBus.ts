@@ -0,0 +1,65 @@
+import { User } from '@/types/auth';
+
+/**
+ * Session bus
+ *
+ * Broadcasts session changes (login, logout, user/role updates) to every open
+ * tab of the app. Uses BroadcastChannel where available and falls back to the
+ * `storage` event, which fires in all other tabs sharing the same origin.
+ *
+ * Tokens are never sent over the bus: they already live in shared
+ * localStorage, so a refresh in one tab is visible to the others immediately.
+ */
+export type SessionEvent =
+  | { type: 'login'; user: User }
+  | { type: 'logout' }
+  | { type: 'user-updated'; user: User };
+
+type SessionListener = (event: SessionEvent) => void;
+
+const CHANNEL_NAME = 'stemmentorat-session';
+const STORAGE_EVENT_KEY = 'stemmentorat_session_event';
+
+const listeners = new Set<SessionListener>();
+
+const channel: BroadcastChannel | null =
+  typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+const notify = (event: SessionEvent) => {
+  listeners.forEach((listener) => listener(event));
+};
+
+if (channel) {
+  channel.onmessage = (message: MessageEvent<SessionEvent>) => notify(message.data);
+} else {
+  window.addEventListener('storage', (e) => {
+    if (e.key !== STORAGE_EVENT_KEY || !e.newValue) return;
+    try {
+      notify(JSON.parse(e.newValue).event);
+    } catch (error) {
+      console.error('Invalid session event:', error);
+    }
+  });
+}
+
+export const sessionBus = {
+  /**
+   * Send an event to all other tabs (the sending tab does not receive it)
+   */
+  publish(event: SessionEvent) {
+    if (channel) {
+      channel.postMessage(event);
+      return;
+    }
+    // Timestamp makes every write unique so the storage event always fires
+    localStorage.setItem(STORAGE_EVENT_KEY, JSON.stringify({ event, at: Date.now() }));
+    localStorage.removeItem(STORAGE_EVENT_KEY);
+  },
+
+  subscribe(listener: SessionListener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
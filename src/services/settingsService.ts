@@ -0,0 +1,26 @@
+import api from './api';
+import { SettingsBySection, SettingsSection } from '@/lib/settingsSchema';
+import { SettingsAuditEntry } from '@/types/settings';
+
+export const settingsService = {
+  async getSection<S extends SettingsSection>(section: S): Promise<SettingsBySection[S]> {
+    const response = await api.get<SettingsBySection[S]>(`/settings/${section}`);
+    return response.data;
+  },
+
+  /**
+   * Save changed fields only; the backend records each one in the audit log
+   */
+  async updateSection<S extends SettingsSection>(
+    section: S,
+    changes: Partial<SettingsBySection[S]>
+  ): Promise<SettingsBySection[S]> {
+    const response = await api.patch<SettingsBySection[S]>(`/settings/${section}`, changes);
+    return response.data;
+  },
+
+  async getAuditLog(limit = 50): Promise<SettingsAuditEntry[]> {
+    const response = await api.get<SettingsAuditEntry[]>('/settings/audit', { params: { limit } });
+    return response.data;
+  },
+};
@@ -0,0 +1,203 @@
+import axios from 'axios';
+import api from './api';
+import { authService, LoginResult } from './authService';
+import { MfaChallengeResponse, TokenResponse } from '@/types/auth';
+
+/**
+ * Single sign-on through the institution's OpenID Connect provider.
+ *
+ * Uses the authorization-code flow with PKCE: the browser is redirected to the
+ * IdP, comes back to /auth/callback with a code, exchanges it for an ID token
+ * and hands that token to the backend, which verifies its signature, maps the
+ * IdP's groups to a role and issues our own access/refresh tokens.
+ *
+ * Configure with VITE_SSO_ISSUER and VITE_SSO_CLIENT_ID (see .env.example).
+ * Any standards-compliant IdP works, including a local mock IdP for testing.
+ */
+const SSO_ISSUER = (import.meta.env.VITE_SSO_ISSUER || '').replace(/\/$/, '');
+const SSO_CLIENT_ID = import.meta.env.VITE_SSO_CLIENT_ID || '';
+const SSO_SCOPE = import.meta.env.VITE_SSO_SCOPE || 'openid profile email';
+
+// Per-tab state kept across the redirect to the IdP and back
+const SSO_STATE_KEY = 'stemmentorat_sso_state';
+const SSO_NONCE_KEY = 'stemmentorat_sso_nonce';
+const SSO_VERIFIER_KEY = 'stemmentorat_sso_verifier';
+
+// Tolerated clock difference between the browser and the IdP when checking exp
+const CLOCK_SKEW_SECONDS = 60;
+
+interface OpenIdConfiguration {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+}
+
+interface IdTokenClaims {
+  iss: string;
+  aud: string | string[];
+  exp: number;
+  nonce?: string;
+  [claim: string]: unknown;
+}
+
+export class SsoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SsoError';
+  }
+}
+
+const getRedirectUri = () => `${window.location.origin}/auth/callback`;
+
+const base64UrlEncode = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const base64UrlDecode = (value: string): string => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return decodeURIComponent(
+    Array.from(atob(padded), (char) => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`).join('')
+  );
+};
+
+const randomString = (byteLength = 32): string =>
+  base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+const createCodeChallenge = async (verifier: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64UrlEncode(new Uint8Array(digest));
+};
+
+// Signature is verified by the backend; the client only checks the claims it set up
+const decodeIdToken = (idToken: string): IdTokenClaims => {
+  const [, payload] = idToken.split('.');
+  if (!payload) {
+    throw new SsoError('Malformed ID token');
+  }
+  return JSON.parse(base64UrlDecode(payload));
+};
+
+const validateClaims = (claims: IdTokenClaims, issuer: string, expectedNonce: string | null) => {
+  if (claims.iss.replace(/\/$/, '') !== issuer.replace(/\/$/, '')) {
+    throw new SsoError('ID token issuer mismatch');
+  }
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(SSO_CLIENT_ID)) {
+    throw new SsoError('ID token audience mismatch');
+  }
+  if (claims.exp + CLOCK_SKEW_SECONDS < Date.now() / 1000) {
+    throw new SsoError('ID token has expired');
+  }
+  if (!expectedNonce || claims.nonce !== expectedNonce) {
+    throw new SsoError('ID token nonce mismatch');
+  }
+};
+
+const clearPendingLogin = () => {
+  sessionStorage.removeItem(SSO_STATE_KEY);
+  sessionStorage.removeItem(SSO_NONCE_KEY);
+  sessionStorage.removeItem(SSO_VERIFIER_KEY);
+};
+
+let discoveryPromise: Promise<OpenIdConfiguration> | null = null;
+
+const discover = (): Promise<OpenIdConfiguration> => {
+  if (!discoveryPromise) {
+    discoveryPromise = axios
+      .get<OpenIdConfiguration>(`${SSO_ISSUER}/.well-known/openid-configuration`)
+      .then((response) => response.data)
+      .catch((error) => {
+        discoveryPromise = null;
+        throw error;
+      });
+  }
+  return discoveryPromise;
+};
+
+export const ssoService = {
+  isEnabled(): boolean {
+    return !!SSO_ISSUER && !!SSO_CLIENT_ID;
+  },
+
+  /**
+   * Redirect the browser to the IdP's login page
+   */
+  async beginLogin(): Promise<void> {
+    const config = await discover();
+
+    const state = randomString();
+    const nonce = randomString();
+    const verifier = randomString(48);
+    sessionStorage.setItem(SSO_STATE_KEY, state);
+    sessionStorage.setItem(SSO_NONCE_KEY, nonce);
+    sessionStorage.setItem(SSO_VERIFIER_KEY, verifier);
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: SSO_CLIENT_ID,
+      redirect_uri: getRedirectUri(),
+      scope: SSO_SCOPE,
+      state,
+      nonce,
+      code_challenge: await createCodeChallenge(verifier),
+      code_challenge_method: 'S256',
+    });
+
+    window.location.assign(`${config.authorization_endpoint}?${params.toString()}`);
+  },
+
+  /**
+   * Finish the login from the callback URL's query string
+   *
+   * Like a password login, this may stop at a second-factor challenge.
+   */
+  async completeLogin(search: string): Promise<LoginResult> {
+    const params = new URLSearchParams(search);
+    const expectedState = sessionStorage.getItem(SSO_STATE_KEY);
+    const expectedNonce = sessionStorage.getItem(SSO_NONCE_KEY);
+    const verifier = sessionStorage.getItem(SSO_VERIFIER_KEY);
+    clearPendingLogin();
+
+    const idpError = params.get('error');
+    if (idpError) {
+      throw new SsoError(params.get('error_description') || idpError);
+    }
+
+    const code = params.get('code');
+    if (!code || !verifier) {
+      throw new SsoError('Missing authorization code');
+    }
+    if (!expectedState || params.get('state') !== expectedState) {
+      throw new SsoError('Invalid state parameter');
+    }
+
+    const config = await discover();
+    const tokenResponse = await axios.post<{ id_token: string }>(
+      config.token_endpoint,
+      new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: getRedirectUri(),
+        client_id: SSO_CLIENT_ID,
+        code_verifier: verifier,
+      }),
+      { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+    );
+
+    const idToken = tokenResponse.data.id_token;
+    const claims = decodeIdToken(idToken);
+    validateClaims(claims, config.issuer, expectedNonce);
+
+    // Backend verifies the signature and issues our own session tokens
+    const response = await api.post<TokenResponse | MfaChallengeResponse>('/auth/sso/login', { id_token: idToken });
+
+    if ('mfa_required' in response.data && response.data.mfa_required) {
+      return { mfaRequired: true, mfaToken: response.data.mfa_token };
+    }
+
+    return authService.completeLogin(response.data as TokenResponse);
+  },
+};
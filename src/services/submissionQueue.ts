@@ -0,0 +1,197 @@
+import { isAxiosError } from 'axios';
+import { ExamSubmitPayload } from '@/types/exam';
+import { SUBMISSIONS_STORE, withStore } from '@/lib/offlineDb';
+import { answerStore } from '@/lib/answerStore';
+import { attemptCache } from '@/lib/attemptCache';
+import { getErrorDetail } from '@/utils/errorUtils';
+import { examService } from './examService';
+
+/**
+ * Submission queue
+ *
+ * Exams submitted without a connection are stored in IndexedDB and retried
+ * with exponential backoff until the server answers. Retries also happen as
+ * soon as the browser reports it is back online, and on every app start, so
+ * a queued exam survives closing the tab.
+ */
+export interface QueuedSubmission {
+  attemptId: number;
+  examId: number;
+  payload: ExamSubmitPayload;
+  queuedAt: number;
+  tries: number;
+  nextAttemptAt: number;
+}
+
+export interface SubmissionOutcome {
+  attemptId: number;
+  status: 'submitted' | 'rejected';
+  detail?: string; // Why the server refused a rejected submission
+}
+
+type OutcomeListener = (outcome: SubmissionOutcome) => void;
+type ErrorListener = (error: unknown) => void;
+
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 60000;
+const LOCK_NAME = 'stemmentorat_submission_queue';
+
+// The server looked at the submission and refused it; anything else, including
+// 401/403 from an expired session, is retried until the student signs in again
+const REJECTED_STATUSES = [409, 422];
+
+const listeners = new Set<OutcomeListener>();
+const errorListeners = new Set<ErrorListener>();
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let failedFlushes = 0;
+let started = false;
+
+/**
+ * Delay before the next try, doubling each time with some jitter so a lab
+ * full of students doesn't reconnect in lockstep
+ */
+const backoffDelay = (tries: number) => {
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** tries);
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+// Only one tab works through the queue at a time
+const withCrossTabLock = <T>(task: () => Promise<T>): Promise<T> =>
+  navigator.locks ? (navigator.locks.request(LOCK_NAME, task) as Promise<T>) : task();
+
+const getAll = () => withStore<QueuedSubmission[]>(SUBMISSIONS_STORE, 'readonly', store => store.getAll());
+
+const put = (entry: QueuedSubmission) => withStore(SUBMISSIONS_STORE, 'readwrite', store => store.put(entry));
+
+const remove = (attemptId: number) => withStore(SUBMISSIONS_STORE, 'readwrite', store => store.delete(attemptId));
+
+const notify = (outcome: SubmissionOutcome) => {
+  listeners.forEach((listener) => listener(outcome));
+};
+
+const setRetryTimer = (delay: number) => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = setTimeout(() => flushInBackground(), delay);
+};
+
+const scheduleRetry = (entries: QueuedSubmission[]) => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  if (entries.length === 0) return;
+
+  const nextAt = Math.min(...entries.map(entry => entry.nextAttemptAt));
+  setRetryTimer(Math.max(0, nextAt - Date.now()));
+};
+
+/**
+ * Flush with nobody awaiting the result. A failure (e.g. IndexedDB or the
+ * cross-tab lock erroring) is reported once per run of failures and the flush
+ * is retried with backoff, so the queue never stalls silently.
+ */
+const flushInBackground = (force = false) => {
+  submissionQueue.flush(force).then(
+    () => {
+      failedFlushes = 0;
+    },
+    (error) => {
+      console.error('Failed to flush submission queue:', error);
+      failedFlushes += 1;
+      if (failedFlushes === 1) errorListeners.forEach((listener) => listener(error));
+      setRetryTimer(backoffDelay(failedFlushes));
+    },
+  );
+};
+
+const forget = async (attemptId: number) => {
+  await remove(attemptId);
+  await Promise.all([
+    answerStore.clear('exam', attemptId),
+    attemptCache.remove(attemptId),
+  ]).catch(error => console.warn('Failed to clear offline exam data:', error));
+};
+
+export const submissionQueue = {
+  /**
+   * Store a submission and try to send it right away. Resolves once the
+   * submission is stored; how sending goes is reported to subscribers.
+   */
+  async enqueue(attemptId: number, examId: number, payload: ExamSubmitPayload): Promise<void> {
+    await put({ attemptId, examId, payload, queuedAt: Date.now(), tries: 0, nextAttemptAt: Date.now() });
+    flushInBackground();
+  },
+
+  async get(attemptId: number): Promise<QueuedSubmission | undefined> {
+    return withStore<QueuedSubmission | undefined>(SUBMISSIONS_STORE, 'readonly', store => store.get(attemptId));
+  },
+
+  /**
+   * Send every queued submission that is due
+   *
+   * @param force - Ignore the backoff schedule (e.g. the student pressed "retry")
+   */
+  async flush(force = false): Promise<void> {
+    if (!navigator.onLine) return;
+
+    await withCrossTabLock(async () => {
+      // Re-read inside the lock; another tab may have sent some already
+      const entries = await getAll();
+      const remaining: QueuedSubmission[] = [];
+
+      for (const entry of entries) {
+        if (!force && entry.nextAttemptAt > Date.now()) {
+          remaining.push(entry);
+          continue;
+        }
+
+        try {
+          await examService.submitAttempt(entry.attemptId, entry.payload);
+          await forget(entry.attemptId);
+          notify({ attemptId: entry.attemptId, status: 'submitted' });
+        } catch (error) {
+          const status = isAxiosError(error) ? error.response?.status : undefined;
+          if (status && REJECTED_STATUSES.includes(status)) {
+            // Retrying won't change the answer
+            await forget(entry.attemptId);
+            notify({
+              attemptId: entry.attemptId,
+              status: 'rejected',
+              detail: getErrorDetail(error, ''),
+            });
+          } else {
+            const tries = entry.tries + 1;
+            const retried = { ...entry, tries, nextAttemptAt: Date.now() + backoffDelay(tries) };
+            await put(retried);
+            remaining.push(retried);
+          }
+        }
+      }
+
+      scheduleRetry(remaining);
+    });
+  },
+
+  /**
+   * @param onError - Called when a background flush fails (not when a single
+   *   submission fails to send; that is retried as usual)
+   */
+  subscribe(listener: OutcomeListener, onError?: ErrorListener): () => void {
+    listeners.add(listener);
+    if (onError) errorListeners.add(onError);
+    return () => {
+      listeners.delete(listener);
+      if (onError) errorListeners.delete(onError);
+    };
+  },
+
+  /**
+   * Resume sending anything left over from a previous visit or session; call
+   * it on every sign-in so submissions refused while signed out go right away
+   */
+  start() {
+    if (!started) {
+      started = true;
+      window.addEventListener('online', () => flushInBackground(true));
+    }
+    flushInBackground(true);
+  },
+};
@@ -0,0 +1,43 @@
+import api from './api';
+import { TAAssignmentQueue, TeachingAssistant } from '@/types/ta';
+
+export const taService = {
+  /**
+   * Assignments the signed-in TA has been assigned to grade
+   */
+  async getMyQueues(): Promise<TAAssignmentQueue[]> {
+    const response = await api.get<TAAssignmentQueue[]>('/ta/assignments');
+    return response.data;
+  },
+
+  /**
+   * All TAs a teacher can pick from
+   */
+  async getAvailableTAs(): Promise<TeachingAssistant[]> {
+    const response = await api.get<TeachingAssistant[]>('/users/tas');
+    return response.data;
+  },
+
+  async getAssignmentTAs(assignmentId: number): Promise<TeachingAssistant[]> {
+    const response = await api.get<TeachingAssistant[]>(`/assignments/${assignmentId}/tas`);
+    return response.data;
+  },
+
+  async setAssignmentTAs(assignmentId: number, taIds: number[]): Promise<TeachingAssistant[]> {
+    const response = await api.put<TeachingAssistant[]>(`/assignments/${assignmentId}/tas`, { ta_ids: taIds });
+    return response.data;
+  },
+
+  /**
+   * Make every provisional grade on an assignment visible to students
+   * @returns Number of grades released
+   */
+  async releaseGrades(assignmentId: number): Promise<number> {
+    const response = await api.post<{ released: number }>(`/assignments/${assignmentId}/grades/release`);
+    return response.data.released;
+  },
+
+  async releaseGrade(submissionId: number): Promise<void> {
+    await api.post(`/submissions/${submissionId}/release`);
+  },
+};
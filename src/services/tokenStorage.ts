@@ -0,0 +1,146 @@
+/**
+ * Token storage helpers
+ *
+ * Single place that knows which localStorage keys hold the session, so the
+ * axios interceptors, authService and AuthContext stay in sync.
+ */
+export const ACCESS_TOKEN_KEY = 'access_token';
+export const REFRESH_TOKEN_KEY = 'refresh_token';
+export const USER_KEY = 'stemmentorat_user';
+
+// Route to return to after the user signs in again following an expired session
+const RETURN_TO_KEY = 'stemmentorat_return_to';
+
+// Per-tab copies of the tokens, used while an exam is in progress so that a
+// login or logout in another tab cannot swap the identity mid-attempt
+const PINNED_ACCESS_TOKEN_KEY = 'stemmentorat_pinned_access_token';
+const PINNED_REFRESH_TOKEN_KEY = 'stemmentorat_pinned_refresh_token';
+
+// Per-tab admin impersonation: the scoped token and who is being viewed. Kept
+// out of localStorage so other tabs stay signed in as the admin
+const IMPERSONATION_TOKEN_KEY = 'stemmentorat_impersonation_token';
+const IMPERSONATION_KEY = 'stemmentorat_impersonation';
+
+export interface ImpersonationInfo {
+  sessionId: number;
+  userName: string;
+  userEmail: string;
+  expiresAt: string;
+}
+
+// Whether the shared tokens still belong to the session pinned in this tab
+const sharedSessionMatchesPin = (): boolean => {
+  const pinnedRefreshToken = sessionStorage.getItem(PINNED_REFRESH_TOKEN_KEY);
+  if (pinnedRefreshToken) {
+    return localStorage.getItem(REFRESH_TOKEN_KEY) === pinnedRefreshToken;
+  }
+  return localStorage.getItem(ACCESS_TOKEN_KEY) === sessionStorage.getItem(PINNED_ACCESS_TOKEN_KEY);
+};
+
+export const tokenStorage = {
+  getAccessToken(): string | null {
+    return (
+      sessionStorage.getItem(IMPERSONATION_TOKEN_KEY) ||
+      sessionStorage.getItem(PINNED_ACCESS_TOKEN_KEY) ||
+      localStorage.getItem(ACCESS_TOKEN_KEY)
+    );
+  },
+
+  getRefreshToken(): string | null {
+    return sessionStorage.getItem(PINNED_REFRESH_TOKEN_KEY) || localStorage.getItem(REFRESH_TOKEN_KEY);
+  },
+
+  setTokens(accessToken: string, refreshToken?: string | null) {
+    if (this.isPinned()) {
+      // Only touch the shared tokens if they still belong to the same session
+      const updateShared = sharedSessionMatchesPin();
+      sessionStorage.setItem(PINNED_ACCESS_TOKEN_KEY, accessToken);
+      if (refreshToken) {
+        sessionStorage.setItem(PINNED_REFRESH_TOKEN_KEY, refreshToken);
+      }
+      if (!updateShared) {
+        return;
+      }
+    }
+
+    localStorage.setItem(ACCESS_TOKEN_KEY, accessToken);
+    // Backends that rotate refresh tokens return a new one on every refresh;
+    // keep the previous one when none is returned
+    if (refreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+    }
+  },
+
+  /**
+   * Freeze the current tokens for this tab only
+   */
+  pin() {
+    const accessToken = localStorage.getItem(ACCESS_TOKEN_KEY);
+    if (!accessToken) return;
+    sessionStorage.setItem(PINNED_ACCESS_TOKEN_KEY, accessToken);
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    if (refreshToken) {
+      sessionStorage.setItem(PINNED_REFRESH_TOKEN_KEY, refreshToken);
+    }
+  },
+
+  unpin() {
+    sessionStorage.removeItem(PINNED_ACCESS_TOKEN_KEY);
+    sessionStorage.removeItem(PINNED_REFRESH_TOKEN_KEY);
+  },
+
+  isPinned(): boolean {
+    return sessionStorage.getItem(PINNED_ACCESS_TOKEN_KEY) !== null;
+  },
+
+  /**
+   * Use a scoped impersonation token in this tab until stopImpersonation()
+   */
+  startImpersonation(accessToken: string, info: ImpersonationInfo) {
+    sessionStorage.setItem(IMPERSONATION_TOKEN_KEY, accessToken);
+    sessionStorage.setItem(IMPERSONATION_KEY, JSON.stringify(info));
+  },
+
+  stopImpersonation() {
+    sessionStorage.removeItem(IMPERSONATION_TOKEN_KEY);
+    sessionStorage.removeItem(IMPERSONATION_KEY);
+  },
+
+  getImpersonation(): ImpersonationInfo | null {
+    if (!sessionStorage.getItem(IMPERSONATION_TOKEN_KEY)) return null;
+    const stored = sessionStorage.getItem(IMPERSONATION_KEY);
+    return stored ? JSON.parse(stored) : null;
+  },
+
+  isImpersonating(): boolean {
+    return sessionStorage.getItem(IMPERSONATION_TOKEN_KEY) !== null;
+  },
+
+  clear() {
+    this.stopImpersonation();
+    if (this.isPinned()) {
+      const clearShared = sharedSessionMatchesPin();
+      this.unpin();
+      // Another tab has since signed in with a different session; leave it alone
+      if (!clearShared) {
+        return;
+      }
+    }
+    localStorage.removeItem(ACCESS_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    localStorage.removeItem(USER_KEY);
+  },
+
+  setReturnTo(path: string) {
+    sessionStorage.setItem(RETURN_TO_KEY, path);
+  },
+
+  /**
+   * Read and forget the saved return route
+   */
+  consumeReturnTo(): string | null {
+    const path = sessionStorage.getItem(RETURN_TO_KEY);
+    sessionStorage.removeItem(RETURN_TO_KEY);
+    return path;
+  },
+};
@@ -0,0 +1,31 @@
+// Documented accommodations of one student, applied to every timed exam and quiz
+export interface AccommodationProfile {
+  student_id: number;
+  time_multiplier: number; // 1 for no extra time, 1.5 for time and a half
+  waive_strict_mode: boolean; // No fullscreen enforcement or proctoring
+  allow_pause: boolean; // Rest breaks that stop the clock
+  pause_budget_minutes: number | null; // Total break time per attempt; null for no limit
+  notes: string | null; // Reference to the supporting documentation; staff only
+  updated_at?: string;
+  updated_by_name?: string | null;
+}
+
+export type AccommodationProfileUpdate = Omit<AccommodationProfile, 'student_id' | 'updated_at' | 'updated_by_name'>;
+
+// Accommodations the server applied to one attempt when it started
+export interface AttemptAccommodations {
+  time_multiplier: number; // Already included in the attempt's deadline
+  waive_strict_mode: boolean;
+  allow_pause: boolean;
+  pause_budget_seconds: number | null;
+  paused_seconds: number; // Break time used so far
+  paused_at?: string | null; // Set while the attempt is paused
+}
+
+// Returned when an attempt is paused or resumed
+export interface PauseState {
+  paused_at: string | null;
+  paused_seconds: number;
+  server_time: string;
+  deadline?: string; // Exams only: moved back by the length of the break on resume
+}
@@ -15,24 +15,76 @@ export interface RegisterRequest {
 export interface TokenResponse {
   access_token: string;
   token_type: string;
+  refresh_token?: string; // Rotated on every refresh when the backend supports it
+}
+
+// Returned by /auth/login instead of tokens when the account has 2FA enabled
+export interface MfaChallengeResponse {
+  mfa_required: true;
+  mfa_token: string; // Short-lived, only valid for /auth/mfa/verify
+}
+
+export interface MfaVerifyRequest {
+  mfa_token: string;
+  code?: string;
+  recovery_code?: string;
+}
+
+export interface TotpEnrollmentResponse {
+  secret: string;
+  provisioning_uri: string; // otpauth:// URI rendered as a QR code
+}
+
+export interface TotpConfirmResponse {
+  recovery_codes: string[];
+}
+
+// Scoped, non-refreshable token letting an admin view the app as another user
+export interface ImpersonationStartResponse {
+  session_id: number;
+  access_token: string;
+  expires_at: string;
+  user: UserResponse;
+}
+
+// Audit record of one impersonation session
+export interface ImpersonationSession {
+  id: number;
+  admin: { id: number; name: string; email: string };
+  target: { id: number; name: string; email: string };
+  reason: string;
+  started_at: string;
+  ended_at: string | null;
 }
 
 export interface UserResponse {
   id: number;
   email: string;
+  name?: string;
   first_name?: string;
   last_name?: string;
   title?: string;
-  role: string;
+  role: string; // Built-in or custom role name
+  base_role?: string; // Built-in role a custom role is derived from (picks the dashboard)
+  permissions?: string[];
+  mfa_enabled?: boolean;
+  mfa_required?: boolean; // Role policy requires 2FA for this user
+  session_timeout?: number; // Idle minutes before sign-out, from the system settings; 0 disables it
 }
 
-export type UserRole = 'student' | 'teacher' | 'admin';
+export type UserRole = 'student' | 'guardian' | 'ta' | 'teacher' | 'admin';
 
 export interface User {
   id: string;
   email: string;
+  name?: string;
   first_name?: string;
   last_name?: string;
   title?: string;
   role: UserRole;
+  roleName?: string; // Custom role name, if any
+  permissions?: string[];
+  mfaEnabled?: boolean;
+  mfaRequired?: boolean;
+  sessionTimeout?: number; // Minutes; 0 or missing disables idle sign-out
 }
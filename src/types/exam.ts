@@ -0,0 +1,155 @@
+import { AttemptAccommodations } from './accommodations';
+import { NumericQuestionHint } from './question';
+
+export interface ExamQuestion {
+  id: number;
+  question_text: string;
+  options: Record<string, string> | string[]; // Can be object {"A": "option1"} or array
+  question_type?: string;
+  numeric?: NumericQuestionHint; // Only for numeric questions
+}
+
+export interface ExamData {
+  id: number;
+  title: string;
+  strict_mode: boolean;
+  time_limit: number;
+  shuffle_questions?: boolean; // Per-attempt order; on unless turned off
+  shuffle_options?: boolean;
+}
+
+export interface SavedAnswer {
+  question_id: number;
+  answer: string;
+}
+
+// Returned when an attempt is started or resumed
+export interface ExamAttemptSession {
+  attempt_id: number;
+  exam: ExamData;
+  questions: ExamQuestion[];
+  time_limit_seconds: number;
+  deadline?: string; // ISO timestamp after which the server rejects answers
+  server_time?: string; // Server clock when the response was built
+  resumed?: boolean;
+  saved_answers?: SavedAnswer[];
+  accommodations?: AttemptAccommodations | null; // Student's accommodations, already applied to the deadline
+}
+
+// Authoritative timing for an open attempt
+export interface AttemptClock {
+  server_time: string;
+  deadline: string;
+}
+
+export interface ExamSubmitPayload {
+  answers: SavedAnswer[];
+  tab_switches: number;
+  violations: unknown[];
+  submitted_at: string; // When the student says they submitted; informational, the server doesn't trust it
+}
+
+export type BloomLevel = 'remember' | 'understand' | 'apply' | 'analyze' | 'evaluate' | 'create';
+export type QuestionDifficulty = 'beginner' | 'medium' | 'advanced';
+
+// How many questions of one Bloom level and difficulty each student gets
+export interface BlueprintCell {
+  bloom_level: BloomLevel;
+  difficulty: QuestionDifficulty;
+  count: number;
+}
+
+// Every student's exam is drawn at random from the pools matching the cells
+export interface ExamBlueprint {
+  chapter_ids: number[];
+  cells: BlueprintCell[];
+}
+
+// Questions in the bank for one Bloom level and difficulty across the chosen chapters
+export interface PoolAvailability {
+  bloom_level: BloomLevel;
+  difficulty: QuestionDifficulty;
+  available: number;
+}
+
+export interface BlueprintSampleQuestion extends ExamQuestion {
+  bloom_level: BloomLevel;
+  difficulty: QuestionDifficulty;
+  chapter_id: number;
+  chapter_name?: string;
+}
+
+// Class section a teacher can give its own exam dates
+export interface ClassSection {
+  id: number;
+  name: string;
+}
+
+// Different opening dates for one section, e.g. a group sitting the exam a day later
+export interface SectionWindowOverride {
+  section_id: number;
+  available_from: string; // ISO
+  available_until: string; // ISO
+}
+
+// Whether and how the signed-in student can start an exam, with their section's dates applied
+export interface ExamAvailability {
+  exam_title?: string;
+  available_from: string;
+  available_until: string;
+  timezone?: string; // Timezone the teacher scheduled in
+  section_name?: string | null; // Set when a section override applies
+  access_code_required: boolean;
+  max_attempts: number;
+  attempts_used: number;
+  server_time: string;
+}
+
+// AI's proposed mark for a short answer; the teacher has the final say
+export interface GradeSuggestion {
+  points: number;
+  rationale: string;
+}
+
+// One student's answer to a short-answer question
+export interface ShortAnswerResponse {
+  attempt_id: number;
+  student_name: string;
+  answer: string;
+  points_awarded: number | null; // Null until marked
+  feedback?: string | null;
+  ai_suggestion?: GradeSuggestion | null; // Kept from an earlier request
+  graded_by_name?: string | null;
+}
+
+// All students' answers to one short-answer question
+export interface ShortAnswerQuestionGroup {
+  question_id: number;
+  question_text: string;
+  max_points: number;
+  model_answer?: string | null;
+  responses: ShortAnswerResponse[];
+}
+
+// Attempt total as the server recalculates it after each mark
+export interface AttemptGradeSummary {
+  attempt_id: number;
+  score: number;
+  max_score: number;
+  percentage: number;
+  passed: boolean;
+  pending_questions: number; // Short answers still unmarked
+}
+
+export interface ShortAnswerGradingData {
+  exam_id: number;
+  exam_title: string;
+  passing_score: number;
+  questions: ShortAnswerQuestionGroup[];
+  attempts: AttemptGradeSummary[];
+}
+
+export interface AnswerGradeUpdate {
+  points: number;
+  feedback: string | null;
+}
@@ -0,0 +1,48 @@
+import { ChapterProgress } from './progress';
+
+// Student account a guardian is linked to
+export interface LinkedStudent {
+  id: number;
+  name: string;
+  email: string;
+}
+
+// Teacher/AI feedback summary; detailed AI conversations are never sent to guardians
+export interface GuardianFeedbackSummary {
+  id: number;
+  feedback_type: string;
+  chapter_name?: string;
+  subject_name?: string;
+  summary: string;
+  created_at: string;
+}
+
+export interface GuardianUpcomingAssignment {
+  id: number;
+  title: string;
+  subject_name?: string;
+  due_date: string;
+  submitted: boolean;
+}
+
+export interface GuardianExamResult {
+  attempt_id: number;
+  exam_title: string;
+  exam_type: string;
+  score: number;
+  passed: boolean;
+  completed_at: string;
+}
+
+// Everything the guardian dashboard shows for one student
+export interface GuardianStudentOverview {
+  student: LinkedStudent;
+  progress: ChapterProgress[];
+  feedback: GuardianFeedbackSummary[];
+  upcoming_assignments: GuardianUpcomingAssignment[];
+  exam_results: GuardianExamResult[];
+}
+
+export interface GuardianDigestPreference {
+  weekly_digest: boolean;
+}
@@ -0,0 +1,31 @@
+export type AssessmentKind = 'exam' | 'quiz';
+
+// A question as it appeared in the assessment
+export interface ItemQuestion {
+  id: number;
+  chapter_id: number;
+  question_text: string;
+  question_type: string;
+  options?: Record<string, string> | string[] | null;
+  correct_answer: string; // Canonical option key for choice questions
+}
+
+// One student's answer to one question
+export interface ItemResponse {
+  question_id: number;
+  answer: string; // Canonical option key for choice questions, empty when skipped
+  score: number; // Fraction of the question's points earned, 0 to 1
+  time_spent?: number | null; // Seconds; quizzes record it per question, exams don't
+}
+
+export interface ItemResponseAttempt {
+  attempt_id: number;
+  responses: ItemResponse[];
+}
+
+// Raw responses of every submitted attempt, for item analysis
+export interface ItemResponseData {
+  title: string;
+  questions: ItemQuestion[];
+  attempts: ItemResponseAttempt[];
+}
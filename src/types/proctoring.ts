@@ -0,0 +1,52 @@
+export type ProctoringEventType =
+  | 'tab_hidden'
+  | 'tab_visible'
+  | 'window_blur'
+  | 'window_focus'
+  | 'fullscreen_exit'
+  | 'fullscreen_enter'
+  | 'copy'
+  | 'cut'
+  | 'paste'
+  | 'context_menu'
+  | 'devtools_open'
+  | 'devtools_closed'
+  | 'multiple_displays';
+
+// One event as recorded in the browser during a strict-mode exam
+export interface ProctoringEvent {
+  type: ProctoringEventType;
+  occurred_at: string; // ISO timestamp, corrected to server time
+  duration_ms?: number; // For tab_visible/window_focus: how long the student was away
+  question_id?: number; // Question on screen when it happened
+  details?: Record<string, unknown>;
+}
+
+// Event as stored by the backend
+export interface ProctoringTimelineEvent extends ProctoringEvent {
+  id: number;
+}
+
+// A saved answer as logged by the autosave endpoint
+export interface AnswerChangeEvent {
+  id: number;
+  question_id: number;
+  occurred_at: string;
+  answer: string;
+}
+
+export type FlagDecision = 'confirmed' | 'cleared';
+
+// A teacher's verdict on a flagged attempt
+export interface FlagReview {
+  id: number;
+  decision: FlagDecision;
+  justification: string;
+  reviewer_name: string;
+  created_at: string;
+}
+
+export interface FlagReviewRequest {
+  decision: FlagDecision;
+  justification: string;
+}
@@ -0,0 +1,10 @@
+// Per-chapter mastery, shared by the student's own progress page and the guardian portal
+export interface ChapterProgress {
+  chapter_id: number;
+  chapter_name: string;
+  average_score: number;
+  total_questions_attempted: number;
+  bloom_progress: Record<string, number>;
+  difficulty_progress: Record<string, number>;
+  mastery_level: number;
+}
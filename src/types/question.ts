@@ -0,0 +1,36 @@
+export type QuestionType = 'mcq' | 'true_false' | 'short_answer' | 'numeric';
+
+// How a numeric question is marked; values are in the base unit
+export interface NumericAnswerSpec {
+  expected_value: number;
+  unit?: string | null; // Base SI unit symbol such as "Ω"; prefixed answers (kΩ, mΩ) are converted
+  unit_required?: boolean; // Refuse a bare number instead of reading it in the base unit
+  absolute_tolerance?: number | null; // In the base unit
+  relative_tolerance?: number | null; // Fraction of the expected value, e.g. 0.02 for ±2%
+  significant_figures?: number | null; // Exact number of significant figures the answer must show
+}
+
+// What the student sees while answering; the expected value stays on the server
+export interface NumericQuestionHint {
+  unit?: string | null;
+  significant_figures?: number | null;
+}
+
+export interface NumericQuestionCreate {
+  chapter_id: number;
+  question_text: string;
+  question_type: 'numeric';
+  difficulty: string;
+  bloom_level: string;
+  correct_answer: string; // Expected value as written by the author, for lists and exports
+  numeric: NumericAnswerSpec;
+  explanation_text?: string;
+}
+
+// Fields a teacher can correct on an existing question, e.g. after item analysis shows it misbehaving
+export interface QuestionUpdate {
+  question_text: string;
+  options?: Record<string, string> | null;
+  correct_answer: string;
+  explanation_text?: string | null;
+}
@@ -0,0 +1,19 @@
+import { UserRole } from './auth';
+
+// A named permission set assignable to users, managed in AdminRoles
+export interface Role {
+  id: number;
+  name: string;
+  description: string;
+  base_role: UserRole; // Decides which dashboard and navigation the role gets
+  permissions: string[];
+  is_system: boolean; // Built-in roles can be edited but not renamed or deleted
+  user_count: number;
+}
+
+export interface RoleInput {
+  name: string;
+  description: string;
+  base_role: UserRole;
+  permissions: string[];
+}
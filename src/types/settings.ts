@@ -0,0 +1,24 @@
+import { SettingsBySection, SettingsSection } from '@/lib/settingsSchema';
+
+export type { SettingsSection } from '@/lib/settingsSchema';
+
+// System-wide settings managed in AdminSettings and persisted by the backend
+export type SystemSettings = SettingsBySection['system'];
+export type IntegrationSettings = SettingsBySection['integrations'];
+export type EmailSettings = SettingsBySection['email'];
+export type SecuritySettings = SettingsBySection['security'];
+
+// One field change recorded by the backend whenever settings are saved
+export interface SettingsAuditEntry {
+  id: number;
+  section: SettingsSection;
+  field: string;
+  old_value: unknown;
+  new_value: unknown; // Secrets such as smtp_password come back masked
+  changed_by: {
+    id: number;
+    name: string;
+    email: string;
+  };
+  changed_at: string;
+}
@@ -0,0 +1,23 @@
+// Teaching assistant that can be assigned to grade an assignment
+export interface TeachingAssistant {
+  id: number;
+  name: string;
+  email: string;
+}
+
+// One grading queue on the TA dashboard
+export interface TAAssignmentQueue {
+  id: number;
+  title: string;
+  subject_name: string;
+  chapter_name: string;
+  due_date: string | null;
+  max_score: number;
+  requires_lab_report?: boolean;
+  total_submissions: number;
+  pending_count: number; // Not graded yet
+  provisional_count: number; // Graded by a TA, waiting for the teacher to release
+}
+
+// TA grades stay provisional (hidden from students) until the teacher releases them
+export type GradeStatus = 'provisional' | 'released';
@@ -0,0 +1,98 @@
+/**
+ * Deterministic per-attempt shuffling of exam questions and answer options
+ *
+ * The order is derived from the attempt id alone, so a reload, the offline
+ * copy and the results page all show the student the same order without it
+ * being stored anywhere. Answers always keep the canonical option keys.
+ */
+
+type ExamOptions = Record<string, string> | string[];
+
+// Option as displayed: `label` is the letter the student sees, `key` the canonical key that is submitted
+export interface DisplayOption {
+  key: string;
+  label: string;
+  value: string;
+}
+
+// Mixes integers into a 32-bit seed
+const hashSeed = (...parts: number[]) => {
+  let hash = 2166136261;
+  for (const part of parts) {
+    hash = Math.imul(hash ^ part, 16777619);
+    hash ^= hash >>> 15;
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: small, fast and good enough for ordering
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export function seededShuffle<T>(items: T[], seed: number): T[] {
+  const random = createRandom(seed);
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Questions in the attempt's order
+ *
+ * Sorted by id first so the result doesn't depend on the order the server sent them in.
+ */
+export function shuffleQuestionOrder<T>(items: T[], attemptId: number, getId: (item: T) => number): T[] {
+  const sorted = [...items].sort((a, b) => getId(a) - getId(b));
+  return seededShuffle(sorted, hashSeed(attemptId));
+}
+
+/**
+ * A subset of an attempt's questions (e.g. the answered ones) in the attempt's order
+ *
+ * The shuffle is only the same as the student's when it is replayed on every
+ * question the attempt had, so it runs on the full id list first.
+ */
+export function orderLikeAttempt<T>(
+  items: T[],
+  attemptQuestionIds: number[],
+  attemptId: number,
+  getId: (item: T) => number
+): T[] {
+  const positions = new Map(
+    shuffleQuestionOrder(attemptQuestionIds, attemptId, id => id).map((id, idx) => [id, idx])
+  );
+  return [...items].sort(
+    (a, b) => (positions.get(getId(a)) ?? Infinity) - (positions.get(getId(b)) ?? Infinity)
+  );
+}
+
+/**
+ * Options with their canonical keys; array options are keyed A, B, C... by position
+ */
+export function getCanonicalOptions(options: ExamOptions): Array<{ key: string; value: string }> {
+  if (Array.isArray(options)) {
+    return options.map((value, idx) => ({ key: String.fromCharCode(65 + idx), value }));
+  }
+  return Object.keys(options).sort().map(key => ({ key, value: options[key] }));
+}
+
+/**
+ * Options in the attempt's order, lettered as displayed
+ *
+ * @param attemptId - Null keeps the canonical order
+ */
+export function getDisplayOptions(options: ExamOptions, attemptId: number | null, questionId: number): DisplayOption[] {
+  const canonical = getCanonicalOptions(options);
+  const ordered = attemptId === null ? canonical : seededShuffle(canonical, hashSeed(attemptId, questionId));
+  return ordered.map((option, idx) => ({ ...option, label: String.fromCharCode(65 + idx) }));
+}
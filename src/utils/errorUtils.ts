@@ -0,0 +1,31 @@
+/**
+ * Utility functions for turning API errors into user-facing messages
+ */
+import { isAxiosError } from 'axios';
+
+/**
+ * Extract the backend's `detail` message from an API error
+ * @param error - Error thrown by an API call
+ * @param fallback - Message to use when the backend did not send one
+ * @returns Message suitable for a toast
+ */
+export function getErrorDetail(error: unknown, fallback: string): string {
+  if (isAxiosError(error)) {
+    const detail = error.response?.data?.detail;
+    if (typeof detail === 'string' && detail) {
+      return detail;
+    }
+  }
+  return fallback;
+}
+
+// Axios codes for requests that never got a response from the server
+const NETWORK_ERROR_CODES = ['ERR_NETWORK', 'ECONNABORTED', 'ETIMEDOUT'];
+
+/**
+ * Check whether an API call failed because the server couldn't be reached
+ * (as opposed to the server refusing the request)
+ */
+export function isNetworkError(error: unknown): boolean {
+  return isAxiosError(error) && !error.response && NETWORK_ERROR_CODES.includes(error.code || '');
+}
@@ -0,0 +1,46 @@
+/**
+ * Helpers for exam blueprints: a count of questions per Bloom level and difficulty
+ */
+
+import { BloomLevel, BlueprintCell, ExamBlueprint, PoolAvailability, QuestionDifficulty } from '@/types/exam';
+
+export const BLOOM_LEVELS: BloomLevel[] = ['remember', 'understand', 'apply', 'analyze', 'evaluate', 'create'];
+export const QUESTION_DIFFICULTIES: QuestionDifficulty[] = ['beginner', 'medium', 'advanced'];
+
+export const EMPTY_BLUEPRINT: ExamBlueprint = { chapter_ids: [], cells: [] };
+
+const sameCell = (cell: BlueprintCell, bloom: BloomLevel, difficulty: QuestionDifficulty) =>
+  cell.bloom_level === bloom && cell.difficulty === difficulty;
+
+export function getCellCount(blueprint: ExamBlueprint, bloom: BloomLevel, difficulty: QuestionDifficulty): number {
+  return blueprint.cells.find(cell => sameCell(cell, bloom, difficulty))?.count ?? 0;
+}
+
+/**
+ * Copy of the blueprint with one cell changed; empty cells are dropped
+ */
+export function setCellCount(
+  blueprint: ExamBlueprint,
+  bloom: BloomLevel,
+  difficulty: QuestionDifficulty,
+  count: number
+): ExamBlueprint {
+  const cells = blueprint.cells.filter(cell => !sameCell(cell, bloom, difficulty));
+  if (count > 0) cells.push({ bloom_level: bloom, difficulty, count });
+  return { ...blueprint, cells };
+}
+
+export function getAvailable(pool: PoolAvailability[], bloom: BloomLevel, difficulty: QuestionDifficulty): number {
+  return pool.find(entry => entry.bloom_level === bloom && entry.difficulty === difficulty)?.available ?? 0;
+}
+
+export function blueprintTotal(blueprint: ExamBlueprint): number {
+  return blueprint.cells.reduce((sum, cell) => sum + cell.count, 0);
+}
+
+/**
+ * Cells asking for more questions than their pool holds
+ */
+export function overdrawnCells(blueprint: ExamBlueprint, pool: PoolAvailability[]): BlueprintCell[] {
+  return blueprint.cells.filter(cell => cell.count > getAvailable(pool, cell.bloom_level, cell.difficulty));
+}
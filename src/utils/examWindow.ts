@@ -0,0 +1,45 @@
+/**
+ * Helpers for exam availability windows
+ */
+
+export type ExamWindowStatus = 'upcoming' | 'open' | 'closed' | 'no_attempts_left';
+
+interface ExamWindow {
+  available_from: string;
+  available_until: string;
+  max_attempts?: number;
+  attempts_used?: number;
+}
+
+export function getExamWindowStatus(window: ExamWindow, now: number = Date.now()): ExamWindowStatus {
+  if (now < new Date(window.available_from).getTime()) return 'upcoming';
+  if (now >= new Date(window.available_until).getTime()) return 'closed';
+  if (window.max_attempts && (window.attempts_used ?? 0) >= window.max_attempts) return 'no_attempts_left';
+  return 'open';
+}
+
+/**
+ * Time left until an instant, e.g. "2d 4h", "3h 05m" or "04:59"
+ */
+export function formatCountdown(targetMs: number, now: number = Date.now()): string {
+  const totalSeconds = Math.max(0, Math.floor((targetMs - now) / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${pad(minutes)}m`;
+  return `${pad(minutes)}:${pad(seconds)}`;
+}
+
+const ACCESS_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I
+
+/**
+ * Short code for the teacher to read out in the exam room
+ */
+export function generateAccessCode(length = 6): string {
+  const values = crypto.getRandomValues(new Uint32Array(length));
+  return Array.from(values, value => ACCESS_CODE_ALPHABET[value % ACCESS_CODE_ALPHABET.length]).join('');
+}
@@ -0,0 +1,135 @@
+/**
+ * Classical item analysis of an exam or quiz
+ *
+ * Difficulty is the mean score on the item (the share of students who got it
+ * right, with partial credit counted as a fraction). Discrimination is the
+ * point-biserial correlation between the item score and the rest of the
+ * test, so the item doesn't inflate its own correlation.
+ */
+import { ItemQuestion, ItemResponseData } from '@/types/itemAnalysis';
+import { getCanonicalOptions } from '@/utils/attemptShuffle';
+
+export type ItemFlag =
+  | 'negative_discrimination' // Stronger students do worse on it: often a wrong key or a trick question
+  | 'weak_discrimination'
+  | 'possible_miskey' // A distractor is chosen more often than the keyed answer
+  | 'too_easy'
+  | 'too_hard';
+
+export interface DistractorStat {
+  key: string; // Canonical option key
+  text: string;
+  count: number;
+  proportion: number;
+  isCorrect: boolean;
+}
+
+export interface ItemStatistics {
+  question: ItemQuestion;
+  position: number; // 1-based, in the assessment's own order
+  responses: number;
+  omitted: number;
+  difficulty: number | null;
+  discrimination: number | null; // Null when either score doesn't vary
+  distractors: DistractorStat[]; // Empty for questions without options
+  averageTime: number | null; // Seconds
+  flags: ItemFlag[];
+}
+
+// Fewer responses than this make the correlations too noisy to flag on
+export const MIN_RESPONSES_FOR_FLAGS = 5;
+
+const WEAK_DISCRIMINATION = 0.2;
+const TOO_EASY = 0.9;
+const TOO_HARD = 0.2;
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Pearson correlation; the point-biserial when one variable is 0/1
+export function correlation(xs: number[], ys: number[]): number | null {
+  if (xs.length < 2) return null;
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  });
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+const getFlags = (item: Omit<ItemStatistics, 'flags'>): ItemFlag[] => {
+  if (item.responses < MIN_RESPONSES_FOR_FLAGS) return [];
+  const flags: ItemFlag[] = [];
+
+  if (item.discrimination !== null) {
+    if (item.discrimination < 0) flags.push('negative_discrimination');
+    else if (item.discrimination < WEAK_DISCRIMINATION) flags.push('weak_discrimination');
+  }
+
+  const keyed = item.distractors.find(distractor => distractor.isCorrect);
+  if (keyed && item.distractors.some(distractor => !distractor.isCorrect && distractor.count > keyed.count)) {
+    flags.push('possible_miskey');
+  }
+
+  if (item.difficulty !== null) {
+    if (item.difficulty > TOO_EASY) flags.push('too_easy');
+    else if (item.difficulty < TOO_HARD) flags.push('too_hard');
+  }
+
+  return flags;
+};
+
+/**
+ * Statistics for every question, in the assessment's order
+ */
+export function analyzeItems(data: ItemResponseData): ItemStatistics[] {
+  // Each attempt's total over the analysed questions, for the rest-of-test score
+  const totals = new Map(
+    data.attempts.map(attempt => [attempt.attempt_id, attempt.responses.reduce((sum, response) => sum + response.score, 0)])
+  );
+
+  return data.questions.map((question, idx) => {
+    const answered = data.attempts.flatMap(attempt => {
+      const response = attempt.responses.find(candidate => candidate.question_id === question.id);
+      return response ? [{ attemptId: attempt.attempt_id, response }] : [];
+    });
+
+    const itemScores = answered.map(({ response }) => response.score);
+    const restScores = answered.map(({ attemptId, response }) => totals.get(attemptId) - response.score);
+    const omitted = answered.filter(({ response }) => !response.answer.trim()).length;
+
+    const distractors: DistractorStat[] = question.options
+      ? getCanonicalOptions(question.options).map(option => {
+          const count = answered.filter(({ response }) => response.answer === option.key).length;
+          return {
+            key: option.key,
+            text: option.value,
+            count,
+            proportion: answered.length ? count / answered.length : 0,
+            isCorrect: option.key === question.correct_answer,
+          };
+        })
+      : [];
+
+    const times = answered
+      .map(({ response }) => response.time_spent)
+      .filter((time): time is number => typeof time === 'number' && time > 0);
+
+    const item = {
+      question,
+      position: idx + 1,
+      responses: answered.length,
+      omitted,
+      difficulty: answered.length ? mean(itemScores) : null,
+      discrimination: correlation(itemScores, restScores),
+      distractors,
+      averageTime: times.length ? mean(times) : null,
+    };
+    return { ...item, flags: getFlags(item) };
+  });
+}
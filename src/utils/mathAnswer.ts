@@ -0,0 +1,90 @@
+/**
+ * Serialization of formula answers
+ *
+ * A formula is stored in the answer string as "math:" followed by JSON, so
+ * it travels through the same fields as a plain text answer. Besides the
+ * LaTeX the student typed, it carries a canonical MathJSON form the backend
+ * compares symbolically: 1/(2πfC) and 1/(2πCf) serialize to the same tree.
+ */
+
+import { ComputeEngine } from '@cortex-js/compute-engine';
+import { convertAsciiMathToLatex, convertLatexToAsciiMath } from 'mathlive';
+
+export const MATH_ANSWER_PREFIX = 'math:';
+
+export interface MathAnswer {
+  latex: string; // As typed, for display
+  ascii: string; // Plain-text form, for exports and screen readers
+  mathjson: unknown; // Canonical form the grader compares; null when the formula does not parse
+}
+
+let engine: ComputeEngine | null = null;
+
+// The engine is expensive to set up, so it is created on first use
+const getEngine = () => {
+  if (!engine) engine = new ComputeEngine();
+  return engine;
+};
+
+/**
+ * Canonical MathJSON of a LaTeX formula
+ *
+ * @returns null when the formula is empty or has a syntax error
+ */
+export function canonicalMathJson(latex: string): unknown {
+  if (!latex.trim()) return null;
+  try {
+    const expression = getEngine().parse(latex, { canonical: true });
+    return expression.isValid ? expression.json : null;
+  } catch (error) {
+    console.warn('Failed to parse formula:', error);
+    return null;
+  }
+}
+
+export function latexToAscii(latex: string): string {
+  try {
+    return convertLatexToAsciiMath(latex);
+  } catch {
+    return latex;
+  }
+}
+
+export function asciiToLatex(ascii: string): string {
+  try {
+    return convertAsciiMathToLatex(ascii);
+  } catch {
+    return ascii;
+  }
+}
+
+export function isMathAnswer(answer: string | null | undefined): boolean {
+  return !!answer && answer.startsWith(MATH_ANSWER_PREFIX);
+}
+
+/**
+ * Answer string for a formula, or an empty string for an empty formula so
+ * that the question still counts as unanswered
+ */
+export function serializeMathAnswer(latex: string): string {
+  if (!latex.trim()) return '';
+  const answer: MathAnswer = {
+    latex,
+    ascii: latexToAscii(latex),
+    mathjson: canonicalMathJson(latex),
+  };
+  return MATH_ANSWER_PREFIX + JSON.stringify(answer);
+}
+
+/**
+ * @returns null for plain text answers and answers that cannot be read back
+ */
+export function parseMathAnswer(answer: string | null | undefined): MathAnswer | null {
+  if (!isMathAnswer(answer)) return null;
+  try {
+    const parsed = JSON.parse(answer!.slice(MATH_ANSWER_PREFIX.length));
+    return typeof parsed?.latex === 'string' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
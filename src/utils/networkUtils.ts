@@ -0,0 +1,61 @@
+/**
+ * Utility functions for validating network-related admin settings
+ */
+
+const IPV4_OCTET = /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/;
+const IPV6_GROUP = /^[0-9a-f]{1,4}$/i;
+const DOMAIN = /^([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,}$/i;
+
+/**
+ * Check whether a string is a dotted-quad IPv4 address
+ */
+export function isValidIPv4(address: string): boolean {
+  const octets = address.split('.');
+  return octets.length === 4 && octets.every(octet => IPV4_OCTET.test(octet));
+}
+
+/**
+ * Check whether a string is an IPv6 address (full or `::`-compressed form)
+ */
+export function isValidIPv6(address: string): boolean {
+  const halves = address.split('::');
+  if (halves.length > 2) return false;
+
+  const groups = halves.flatMap(half => (half ? half.split(':') : []));
+  if (!groups.every(group => IPV6_GROUP.test(group))) return false;
+
+  // "::" stands for at least one group of zeros
+  return halves.length === 2 ? groups.length < 8 : groups.length === 8;
+}
+
+/**
+ * Check whether a string is an IP address or CIDR block, e.g. "10.0.0.0/8" or "2001:db8::/32"
+ */
+export function isValidCidr(value: string): boolean {
+  const [address, prefix, ...rest] = value.trim().split('/');
+  if (rest.length > 0) return false;
+
+  const isV4 = isValidIPv4(address);
+  if (!isV4 && !isValidIPv6(address)) return false;
+  if (prefix === undefined) return true;
+
+  if (!/^\d{1,3}$/.test(prefix)) return false;
+  return Number(prefix) <= (isV4 ? 32 : 128);
+}
+
+/**
+ * Check whether a string is an email domain, with or without the leading "@"
+ */
+export function isValidEmailDomain(value: string): boolean {
+  return DOMAIN.test(value.trim().replace(/^@/, ''));
+}
+
+/**
+ * Split a comma/whitespace/newline separated list as typed in a text field
+ */
+export function parseList(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map(item => item.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,199 @@
+/**
+ * Parsing and marking of numeric answers with SI units
+ *
+ * Mirrors the rules the backend marks with, so authors and students see the
+ * same reading of an answer as the grader does.
+ */
+
+import { NumericAnswerSpec } from '@/types/question';
+
+export interface ParsedQuantity {
+  value: number; // In the base unit, prefix applied
+  unit: string | null; // Canonical base unit, null when only a number (and maybe a prefix) was given
+  significantFigures: number;
+}
+
+export type NumericVerdict =
+  | 'correct'
+  | 'unreadable'
+  | 'missing_unit'
+  | 'wrong_unit'
+  | 'out_of_tolerance'
+  | 'significant_figures';
+
+export const SI_PREFIXES: Record<string, number> = {
+  p: 1e-12,
+  n: 1e-9,
+  'µ': 1e-6, // Micro sign
+  'μ': 1e-6, // Greek mu
+  u: 1e-6,
+  m: 1e-3,
+  c: 1e-2,
+  k: 1e3,
+  M: 1e6,
+  G: 1e9,
+  T: 1e12,
+};
+
+// Prefixes used when displaying a value, by power of ten
+const DISPLAY_PREFIXES: Record<number, string> = {
+  [-12]: 'p',
+  [-9]: 'n',
+  [-6]: 'µ',
+  [-3]: 'm',
+  0: '',
+  3: 'k',
+  6: 'M',
+  9: 'G',
+  12: 'T',
+};
+
+// Base units offered to authors, with the spellings students may use
+export const SI_UNITS: Record<string, string[]> = {
+  'Ω': ['Ω', 'Ω', 'ohm', 'ohms'], // Greek omega and the ohm sign
+  V: ['V', 'volt', 'volts'],
+  A: ['A', 'amp', 'amps', 'ampere', 'amperes'],
+  W: ['W', 'watt', 'watts'],
+  F: ['F', 'farad', 'farads'],
+  H: ['H', 'henry', 'henries'],
+  Hz: ['Hz', 'hertz'],
+  s: ['s', 'sec', 'second', 'seconds'],
+  S: ['S', 'siemens'],
+  C: ['C', 'coulomb', 'coulombs'],
+  J: ['J', 'joule', 'joules'],
+  N: ['N', 'newton', 'newtons'],
+  Pa: ['Pa', 'pascal', 'pascals'],
+  T: ['T', 'tesla'],
+  Wb: ['Wb', 'weber', 'webers'],
+  m: ['m', 'metre', 'metres', 'meter', 'meters'],
+  g: ['g', 'gram', 'grams'],
+  K: ['K', 'kelvin'],
+};
+
+const UNIT_LOOKUP: Record<string, string> = Object.fromEntries(
+  Object.entries(SI_UNITS).flatMap(([unit, spellings]) => spellings.map(spelling => [spelling, unit]))
+);
+
+// Symbols are case-sensitive (s vs S, m vs M); spelled-out names are not
+const lookupUnit = (text: string): string | undefined =>
+  UNIT_LOOKUP[text] ?? (text.length > 2 ? UNIT_LOOKUP[text.toLowerCase()] : undefined);
+
+// Mantissa, optional exponent (4.7e3, 4.7 × 10^3), then whatever is left as the unit
+const QUANTITY_PATTERN =
+  /^([+-]?(?:\d+(?:[.,]\d*)?|[.,]\d+))(?:\s*(?:[eE]([+-]?\d+)|[x×*·]\s*10\s*\^\s*([+-]?\d+)))?\s*(.*)$/;
+
+/**
+ * Significant figures shown by a written number
+ *
+ * Trailing zeros of a whole number (4700) are ambiguous and not counted.
+ */
+export function countSignificantFigures(mantissa: string): number {
+  const digits = mantissa.replace(/^[+-]/, '').replace(',', '.');
+  const [whole, fraction] = digits.split('.');
+
+  if (fraction === undefined) {
+    const significant = whole.replace(/^0+/, '').replace(/0+$/, '');
+    return Math.max(1, significant.length);
+  }
+
+  const all = (whole + fraction).replace(/^0+/, '');
+  // Zero written with decimals (0.00): only the decimals count
+  return all.length > 0 ? all.length : Math.max(1, fraction.length);
+}
+
+/**
+ * Split a unit such as "kΩ" into its prefix factor and base unit
+ *
+ * @returns null when the text is not a known unit; a lone prefix ("k") has no unit
+ */
+export function parseUnit(text: string): { factor: number; unit: string | null } | null {
+  const trimmed = text.trim();
+  if (!trimmed) return { factor: 1, unit: null };
+
+  const unit = lookupUnit(trimmed);
+  if (unit) return { factor: 1, unit };
+
+  const prefix = Array.from(trimmed)[0];
+  if (!(prefix in SI_PREFIXES)) return null;
+
+  const rest = trimmed.slice(prefix.length).trim();
+  if (!rest) return { factor: SI_PREFIXES[prefix], unit: null };
+
+  const prefixedUnit = lookupUnit(rest);
+  return prefixedUnit ? { factor: SI_PREFIXES[prefix], unit: prefixedUnit } : null;
+}
+
+/**
+ * Read an answer such as "4.7 kΩ", "4,7k", "4.7e3 ohm" or "4.7 × 10^3 Ω"
+ *
+ * A comma is read as a decimal separator, never as a thousands separator.
+ * @returns null when the text is not a number with an optional known unit
+ */
+export function parseQuantity(input: string): ParsedQuantity | null {
+  const match = input.trim().match(QUANTITY_PATTERN);
+  if (!match) return null;
+
+  const [, mantissa, eExponent, tenExponent, unitText] = match;
+  const unit = parseUnit(unitText);
+  if (!unit) return null;
+
+  const exponent = Number(eExponent ?? tenExponent ?? 0);
+  const value = Number(mantissa.replace(',', '.')) * 10 ** exponent * unit.factor;
+  if (!Number.isFinite(value)) return null;
+
+  return { value, unit: unit.unit, significantFigures: countSignificantFigures(mantissa) };
+}
+
+/**
+ * Mark an answer against a numeric spec
+ *
+ * The answer is accepted if it is within either tolerance; with neither set
+ * it has to match up to floating-point noise.
+ */
+export function checkNumericAnswer(input: string, spec: NumericAnswerSpec): { verdict: NumericVerdict; parsed: ParsedQuantity | null } {
+  const parsed = parseQuantity(input);
+  if (!parsed) return { verdict: 'unreadable', parsed };
+
+  const expectedUnit = spec.unit ? parseUnit(spec.unit)?.unit ?? spec.unit : null;
+  if (parsed.unit === null) {
+    if (expectedUnit && spec.unit_required) return { verdict: 'missing_unit', parsed };
+  } else if (parsed.unit !== expectedUnit) {
+    return { verdict: 'wrong_unit', parsed };
+  }
+
+  const expected = spec.expected_value;
+  const allowed = Math.max(spec.absolute_tolerance ?? 0, (spec.relative_tolerance ?? 0) * Math.abs(expected));
+  const epsilon = 1e-9 * Math.max(1, Math.abs(expected));
+  if (Math.abs(parsed.value - expected) > Math.max(allowed, epsilon)) {
+    return { verdict: 'out_of_tolerance', parsed };
+  }
+
+  if (spec.significant_figures && parsed.significantFigures !== spec.significant_figures) {
+    return { verdict: 'significant_figures', parsed };
+  }
+
+  return { verdict: 'correct', parsed };
+}
+
+/**
+ * Display a value with the closest engineering prefix, e.g. 4700 Ω as "4.7 kΩ"
+ */
+export function formatQuantity(value: number, unit?: string | null): string {
+  if (!unit || value === 0 || !Number.isFinite(value)) {
+    return unit ? `${value} ${unit}` : String(value);
+  }
+
+  const power = Math.max(-12, Math.min(12, Math.floor(Math.log10(Math.abs(value)) / 3) * 3));
+  const mantissa = Number((value / 10 ** power).toPrecision(6));
+  return `${mantissa} ${DISPLAY_PREFIXES[power]}${unit}`;
+}
+
+/**
+ * Tolerance as shown next to the expected value, e.g. "± 2%" or "± 50 Ω"
+ */
+export function formatTolerance(spec: NumericAnswerSpec): string | null {
+  const parts: string[] = [];
+  if (spec.absolute_tolerance) parts.push(formatQuantity(spec.absolute_tolerance, spec.unit));
+  if (spec.relative_tolerance) parts.push(`${Number((spec.relative_tolerance * 100).toPrecision(4))}%`);
+  return parts.length > 0 ? `± ${parts.join(' / ')}` : null;
+}
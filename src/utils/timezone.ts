@@ -0,0 +1,107 @@
+/**
+ * Conversions between a wall-clock time in a named timezone and an instant
+ *
+ * Exams are scheduled in the teacher's chosen timezone but stored in UTC, and
+ * shown to each student in their own timezone.
+ */
+
+// Fallback for browsers without Intl.supportedValuesOf
+const COMMON_TIME_ZONES = [
+  'UTC',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Africa/Casablanca',
+  'Africa/Algiers',
+  'Africa/Tunis',
+  'Africa/Cairo',
+  'Africa/Lagos',
+  'Africa/Nairobi',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Shanghai',
+  'Asia/Tokyo',
+  'America/New_York',
+  'America/Chicago',
+  'America/Los_Angeles',
+  'America/Sao_Paulo',
+  'Australia/Sydney',
+];
+
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function listTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = intl.supportedValuesOf?.('timeZone') ?? COMMON_TIME_ZONES;
+  const local = getLocalTimeZone();
+  return zones.includes(local) ? zones : [local, ...zones];
+}
+
+// Wall-clock parts of an instant as seen in a timezone
+const zonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+};
+
+// How far the timezone is ahead of UTC at an instant, in milliseconds
+const offsetAt = (date: Date, timeZone: string) => {
+  const p = zonedParts(date, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * Instant at which the clocks in a timezone show a datetime-local value ("2025-03-30T09:00")
+ *
+ * Around a DST change the offset is re-checked at the candidate instant, so
+ * the result is right on both sides of the switch.
+ */
+export function zonedTimeToUtc(localDateTime: string, timeZone: string): Date {
+  const [datePart, timePart = '00:00'] = localDateTime.split('T');
+  const [year, month, day] = datePart.split('-').map(Number);
+  const [hour, minute] = timePart.split(':').map(Number);
+  const naive = Date.UTC(year, month - 1, day, hour, minute);
+
+  const firstGuess = naive - offsetAt(new Date(naive), timeZone);
+  const corrected = naive - offsetAt(new Date(firstGuess), timeZone);
+  return new Date(corrected);
+}
+
+/**
+ * datetime-local value showing an instant in a timezone
+ */
+export function toZonedInputValue(date: Date, timeZone: string): string {
+  const p = zonedParts(date, timeZone);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+/**
+ * Date and time with the timezone's abbreviation, e.g. "Mar 30, 2025, 09:00 CEST"
+ *
+ * @param timeZone - Defaults to the viewer's own timezone
+ */
+export function formatZonedDateTime(date: Date | string, timeZone?: string): string {
+  return new Intl.DateTimeFormat(undefined, {
+    timeZone,
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    hourCycle: 'h23',
+  }).format(new Date(date)) + ` ${timeZoneAbbreviation(new Date(date), timeZone)}`;
+}
+
+function timeZoneAbbreviation(date: Date, timeZone?: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(date);
+  return parts.find(part => part.type === 'timeZoneName')?.value ?? '';
+}